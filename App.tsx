@@ -3,8 +3,73 @@ import ControlPanel from './components/ControlPanel';
 import LinkageCanvas from './components/LinkageCanvas';
 import Charts from './components/Charts';
 import SolutionTable from './components/SolutionTable';
-import { LinkageConfig } from './types';
-import { solveLinkage, computeTrajectory, toDeg } from './utils/math';
+import InversionsPanel from './components/InversionsPanel';
+import SynthesisPanel from './components/SynthesisPanel';
+import SynthesisOverlay from './components/SynthesisOverlay';
+import FunctionGeneratorPanel from './components/FunctionGeneratorPanel';
+import PathSynthesisPanel from './components/PathSynthesisPanel';
+import PathTargetsOverlay from './components/PathTargetsOverlay';
+import StaticsPanel from './components/StaticsPanel';
+import StaticsOverlay from './components/StaticsOverlay';
+import CouplerAtlas from './components/CouplerAtlas';
+import CognatesPanel from './components/CognatesPanel';
+import CognatesOverlay from './components/CognatesOverlay';
+import InstantCentersPanel from './components/InstantCentersPanel';
+import InstantCentersOverlay from './components/InstantCentersOverlay';
+import CouplerCurvePanel from './components/CouplerCurvePanel';
+import CouplerCurveOverlay from './components/CouplerCurveOverlay';
+import TolerancePanel from './components/TolerancePanel';
+import ToleranceEnvelopeOverlay from './components/ToleranceEnvelopeOverlay';
+import DataPanel from './components/DataPanel';
+import DesignLibraryPanel from './components/DesignLibraryPanel';
+import ShareMenu from './components/ShareMenu';
+import HistoryMenu from './components/HistoryMenu';
+import MeasuredPointsOverlay from './components/MeasuredPointsOverlay';
+import {
+  DesignSnapshot,
+  DriverLink,
+  EditableJoint,
+  EditHistory,
+  EditState,
+  EditLocks,
+  FunctionGenerator,
+  FunctionSpec,
+  GroundLink,
+  LinkageConfig,
+  MeasuredPoints,
+  MechanismType,
+  PathOptimizerProgress,
+  PathTarget,
+  Point,
+  SixBarConfig,
+  SixBarType,
+  StaticLoad,
+  SynthesisPickTarget,
+  SynthesisState,
+  ToleranceSpec,
+  ToleranceStudy,
+  TransmissionLimits,
+  ViewBox,
+} from './types';
+import { DRIVER_LABELS, getInputAngle, MECHANISM_LABELS, solveLinkage, withInputAngle } from './utils/math';
+import { classifyLinkage, formatAngleRange, GRASHOF_LABELS } from './utils/classification';
+import { computeTrajectory } from './utils/trajectory';
+import { applySynthesisPick, burmesterCurves, synthesizePivots, toLinkage } from './utils/synthesis';
+import { precisionPoints, structuralError, synthesizeFunctionGenerator } from './utils/functionGeneration';
+import { designCurve, designFromConfig, evaluatePath, optimizePath, PathDesign } from './utils/pathSynthesis';
+import { poseFromSolution } from './utils/inversion';
+import { solveStatics, staticsOverCycle } from './utils/statics';
+import { dynamicsOverCycle, dynamicsStats } from './utils/dynamics';
+import { Cognate, cognatePose, cognates } from './utils/cognates';
+import { couplerCentrodes, instantCenters, placeMovingCentrode, velocityRatioFromI24 } from './utils/instantCenters';
+import { couplerCurveProperties } from './utils/couplerCurve';
+import { DEFAULT_TOLERANCES, sensitivities, toleranceStudy } from './utils/tolerance';
+import { downloadFile } from './utils/download';
+import { dragJoint } from './utils/editing';
+import { parseUrlState, UrlParamError, writeUrlState } from './utils/urlState';
+import { EMPTY_HISTORY, jumpTo, recordEdit, redo, undo } from './utils/history';
+import { defaultSixBar, isSixBarType, sixBarOverCycle, solveSixBar } from './utils/sixBar';
+import { isSliderType, sliderCrankFromStroke, sliderMotion, sliderOverCycle, solveSlider } from './utils/slider';
 
 // Icons
 const MenuIcon = () => (
@@ -16,55 +81,207 @@ const SettingsIcon = () => (
 const PlayIcon = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="currentColor" stroke="none"><polygon points="5 3 19 12 5 21 5 3"/></svg>
 );
+const GridIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="7" height="7"/><rect x="14" y="3" width="7" height="7"/><rect x="3" y="14" width="7" height="7"/><rect x="14" y="14" width="7" height="7"/></svg>
+);
+const HistoryIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/><path d="M12 7v5l4 2"/></svg>
+);
+const ShareIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="18" cy="5" r="3"/><circle cx="6" cy="12" r="3"/><circle cx="18" cy="19" r="3"/><line x1="8.59" x2="15.42" y1="13.51" y2="17.49"/><line x1="15.41" x2="8.59" y1="6.51" y2="10.49"/></svg>
+);
 const PauseIcon = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="currentColor" stroke="none"><rect x="6" y="4" width="4" height="16"/><rect x="14" y="4" width="4" height="16"/></svg>
 );
 
+/**
+ * The driver dead point reached next when moving from the given input angle in the given
+ * direction, nudged just inside the allowed range so the linkage still assembles there.
+ */
+const nearestDeadPoint = (config: LinkageConfig, input: number, direction: 1 | -1): number | null => {
+  const { inputLimits } = classifyLinkage(config);
+  if (inputLimits.length === 0) return null;
+  const ahead = (limit: number) => (((limit - input) * direction) % 360 + 360) % 360;
+  const limit = inputLimits.reduce((best, l) => (ahead(l) < ahead(best) ? l : best));
+  return limit - direction * 1e-6;
+};
+
+// Quiet time (ms) after the last change before the URL is updated
+const URL_SYNC_DELAY = 500;
+
+type SidePanelTab = 'analysis' | 'synthesis' | 'forces' | 'designs';
+
+const SIDE_PANEL_TABS: Record<SidePanelTab, string> = {
+  analysis: 'Analysis',
+  synthesis: 'Synthesis',
+  forces: 'Forces',
+  designs: 'Designs',
+};
+
+const initialSynthesis: SynthesisState = {
+  positions: [
+    { x: 0, y: 2, angle: 0 },
+    { x: 1.5, y: 2.6, angle: -20 },
+    { x: 3, y: 2.2, angle: -45 },
+  ],
+  method: 'moving-pivots',
+  pivotA: { x: -0.5, y: 1 },
+  pivotB: { x: 1, y: 1.5 },
+  dyadA: { beta2: 30, branch: 1 },
+  dyadB: { beta2: 30, branch: -1 },
+};
+
+const initialFunctionSpec: FunctionSpec = {
+  expression: 'log10(x)',
+  xStart: 1,
+  xEnd: 10,
+  theta2Start: 15,
+  theta2Range: 90,
+  theta4Start: 105,
+  theta4Range: 90,
+  points: 3,
+  r1: 1,
+};
+
 const App: React.FC = () => {
-  // Parse URL parameters for initial config
-  const initialConfig = useMemo(() => {
-    const params = new URLSearchParams(window.location.search);
-    const getFloat = (key: string, def: number) => {
-      const val = params.get(key);
-      return val ? parseFloat(val) : def;
-    };
+  // Initial state from the URL, which is kept in sync with the state from then on
+  const initialUrlState = useMemo(() => parseUrlState(window.location.search), []);
+  const { snapshot: initialSnapshot, embed: isEmbed } = initialUrlState;
 
-    return {
-      r1: getFloat('r1', 1),
-      r2: getFloat('r2', 2),
-      r3: getFloat('r3', 3.5),
-      r4: getFloat('r4', 4),
-      r6: getFloat('r6', Math.sqrt(5)),
-      beta: getFloat('beta', toDeg(Math.atan(0.5))),
-      theta2: getFloat('theta2', 0),
+  const [config, setConfig] = useState<LinkageConfig>(initialSnapshot.config);
+  const [assemblyMode, setAssemblyMode] = useState<1 | -1>(initialSnapshot.assemblyMode);
+  const [isPlaying, setIsPlaying] = useState(initialSnapshot.animation.isPlaying);
+  const [animationSpeed, setAnimationSpeed] = useState(initialSnapshot.animation.speed);
+  const [followBranches, setFollowBranches] = useState(initialSnapshot.animation.followBranches);
+  const [groundLink, setGroundLink] = useState<GroundLink>(1);
+  const [transmissionLimits, setTransmissionLimits] = useState<TransmissionLimits>({ min: 40, max: 140 });
+  const [isSidebarOpen, setSidebarOpen] = useState(!isEmbed);
+  const [sideTab, setSideTab] = useState<SidePanelTab>('analysis');
+  const [synthesis, setSynthesis] = useState<SynthesisState>(initialSynthesis);
+  const [pickTarget, setPickTarget] = useState<SynthesisPickTarget | null>(null);
+  const [functionSpec, setFunctionSpec] = useState<FunctionSpec>(initialFunctionSpec);
+  const [functionTarget, setFunctionTarget] = useState<FunctionGenerator | null>(null);
+  const [pathTargets, setPathTargets] = useState<PathTarget[]>([]);
+  const [pathResult, setPathResult] = useState<{ progress: PathOptimizerProgress; design: PathDesign } | null>(null);
+  const [isPathRunning, setIsPathRunning] = useState(false);
+  const [pathMessage, setPathMessage] = useState<string | null>(null);
+  const [pathCrankOffset, setPathCrankOffset] = useState(0);
+  const pathCancelRef = useRef(false);
+  const [staticLoad, setStaticLoad] = useState<StaticLoad>({ force: 1, direction: -90, torque4: 0 });
+  const [showStaticArrows, setShowStaticArrows] = useState(true);
+  const [showAtlas, setShowAtlas] = useState(false);
+  const [showCognates, setShowCognates] = useState(false);
+  const [showInstantCenters, setShowInstantCenters] = useState(false);
+  const [showCentrodes, setShowCentrodes] = useState(true);
+  const [showCurveFeatures, setShowCurveFeatures] = useState(false);
+  const [curveTolerance, setCurveTolerance] = useState(0.02);
+  const [tolerances, setTolerances] = useState<ToleranceSpec>(DEFAULT_TOLERANCES);
+  const [showToleranceStudy, setShowToleranceStudy] = useState(false);
+  const [toleranceResult, setToleranceResult] = useState<ToleranceStudy | null>(null);
+  const [toleranceProgress, setToleranceProgress] = useState<number | null>(null); // Trials done while the study runs
+  const [measuredPoints, setMeasuredPoints] = useState<MeasuredPoints | null>(null);
+  const [viewBox, setViewBox] = useState<ViewBox>(initialSnapshot.viewBox);
+  const [urlErrors, setUrlErrors] = useState<UrlParamError[]>(initialUrlState.errors);
+  const [floatingMenu, setFloatingMenu] = useState<'share' | 'history' | null>(null);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [mechanism, setMechanism] = useState<MechanismType>('four-bar');
+  // Kept while the four-bar is shown, so switching back restores the same dyad
+  const [sixBar, setSixBar] = useState<{ type: SixBarType; config: SixBarConfig } | null>(null);
+  const [sliderOffset, setSliderOffset] = useState(0.5);
+  
+  // Pointer gesture in progress, so every edit of one drag lands in a single history entry. It
+  // opens on pointer-down and stays open past pointer-up for the click that follows; a key
+  // press closes it, as keyboard steps are merged by time instead.
+  const gestureRef = useRef<number | null>(null);
+  useEffect(() => {
+    let count = 0;
+    const onPointerDown = () => {
+      gestureRef.current = ++count;
+    };
+    const onKeyDown = () => {
+      gestureRef.current = null;
+    };
+    window.addEventListener('pointerdown', onPointerDown, true);
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown, true);
+      window.removeEventListener('keydown', onKeyDown, true);
     };
   }, []);
 
-  const isEmbed = useMemo(() => {
-    const params = new URLSearchParams(window.location.search);
-    return params.get('embed') === 'true';
+  // User edits of the config and assembly mode go through the undo history. The animation
+  // loop and back/forward navigation set the state directly and stay out of it.
+  const edit = (next: Partial<EditState>) => {
+    const before: EditState = { config, assemblyMode };
+    const after: EditState = { ...before, ...next };
+    const gesture = gestureRef.current;
+    setHistory((h) => recordEdit(h, before, after, Date.now(), gesture));
+    setConfig(after.config);
+    setAssemblyMode(after.assemblyMode);
+  };
+  const moveInHistory = (step: { history: EditHistory; state: EditState } | null) => {
+    if (!step) return;
+    setHistory(step.history);
+    setConfig(step.state.config);
+    setAssemblyMode(step.state.assemblyMode);
+  };
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes, except while typing in a text field
+  const historyKeysRef = useRef({ undo: () => {}, redo: () => {} });
+  historyKeysRef.current = { undo: () => moveInHistory(undo(history)), redo: () => moveInHistory(redo(history)) };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      const isTyping =
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && ['text', 'number', 'search', 'url', 'email'].includes(target.type));
+      if (isTyping) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) historyKeysRef.current.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') historyKeysRef.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
   }, []);
 
-  const [config, setConfig] = useState<LinkageConfig>(initialConfig);
-  const [assemblyMode, setAssemblyMode] = useState<1 | -1>(1);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [animationSpeed, setAnimationSpeed] = useState(1);
-  const [isSidebarOpen, setSidebarOpen] = useState(!isEmbed);
-  
   // Animation Loop
   const requestRef = useRef<number>();
   const lastTimeRef = useRef<number>();
+  const directionRef = useRef<1 | -1>(1);
+  // Latest state for the animation loop, which is only re-bound when play state or speed changes
+  const stateRef = useRef({ config, assemblyMode, followBranches, mechanism });
+  stateRef.current = { config, assemblyMode, followBranches, mechanism };
 
   const animate = (time: number) => {
     if (lastTimeRef.current !== undefined) {
       const deltaTime = time - lastTimeRef.current;
-      setConfig((prev) => {
-        // 60 deg per second base speed * multiplier
-        const speed = 0.06 * animationSpeed; 
-        let newTheta = prev.theta2 + speed * deltaTime;
-        if (newTheta >= 360) newTheta -= 360;
-        return { ...prev, theta2: newTheta };
-      });
+      const { config: prev, assemblyMode: mode, mechanism: type } = stateRef.current;
+      // Slider mechanisms only turn their crank, so there are no dead points to follow through
+      const follow = stateRef.current.followBranches && !isSliderType(type);
+      if (!follow) directionRef.current = 1;
+      // 60 deg per second base speed * multiplier
+      const speed = 0.06 * animationSpeed;
+      const input = getInputAngle(prev);
+      let newTheta = input + directionRef.current * speed * deltaTime;
+      if (newTheta >= 360) newTheta -= 360;
+      if (newTheta < 0) newTheta += 360;
+
+      // At a dead point the driver reverses and the linkage carries on along the other branch
+      if (follow && !solveLinkage(withInputAngle(prev, newTheta), mode).isValid) {
+        const limit = nearestDeadPoint(prev, input, directionRef.current);
+        if (limit !== null) {
+          newTheta = limit;
+          directionRef.current = directionRef.current === 1 ? -1 : 1;
+          setAssemblyMode(m => m === 1 ? -1 : 1);
+        }
+      }
+
+      const next = withInputAngle(prev, newTheta);
+      stateRef.current = { ...stateRef.current, config: next };
+      setConfig(next);
     }
     lastTimeRef.current = time;
     requestRef.current = requestAnimationFrame(animate);
@@ -88,30 +305,384 @@ const App: React.FC = () => {
     [config, assemblyMode]
   );
   
-  // We only recompute full trajectory when geometry changes, not theta2
+  // We only recompute full trajectory when geometry changes, not the input angle
   const trajectory = useMemo(() => 
-    computeTrajectory(config, assemblyMode),
-    [config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, assemblyMode]
+    computeTrajectory(config, assemblyMode, { followBranches }),
+    [config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1, config.driver, config.inputOmega, config.inputAlpha, assemblyMode, followBranches]
   );
 
+  // Inverse dynamics at the constant crank speed, independent of the driver and its motion
+  const dynamicsCycle = useMemo(
+    () => dynamicsOverCycle(config, assemblyMode, followBranches),
+    [config.r1, config.r2, config.r3, config.r4, config.groundX, config.groundY, config.theta1, config.crankSpeed, config.massProperties, assemblyMode, followBranches]
+  );
+  const dynamics = useMemo(() => dynamicsStats(dynamicsCycle), [dynamicsCycle]);
+
+  const classification = useMemo(() =>
+    classifyLinkage(config, assemblyMode),
+    [config.r1, config.r2, config.r3, config.r4, config.theta1, config.driver, assemblyMode]
+  );
+
+  // Second dyad of the six-bar, solved on top of the four-bar's pose and cycle
+  const activeSixBar = isSixBarType(mechanism) && sixBar ? sixBar : undefined;
+  const sixBarSolution = useMemo(
+    () => activeSixBar && solveSixBar(activeSixBar.type, config, solution, activeSixBar.config),
+    [activeSixBar, config, solution]
+  );
+  const sixBarCycle = useMemo(
+    () => activeSixBar && sixBarOverCycle(activeSixBar.type, config, trajectory, activeSixBar.config),
+    [activeSixBar, trajectory]
+  );
+
+  // Slider mechanisms replace the four-bar, keeping its crank, rod and coupler point
+  const sliderType = isSliderType(mechanism) ? mechanism : undefined;
+  const sliderSolution = useMemo(
+    () => sliderType && solveSlider(sliderType, config, sliderOffset, assemblyMode),
+    [sliderType, config, sliderOffset, assemblyMode]
+  );
+  const sliderCycle = useMemo(
+    () => sliderType && sliderOverCycle(sliderType, config, sliderOffset, assemblyMode),
+    [sliderType, sliderOffset, assemblyMode, config.r1, config.r2, config.r3, config.r6, config.beta, config.groundX, config.groundY, config.theta1, config.inputOmega, config.inputAlpha]
+  );
+  const sliderTravel = useMemo(
+    () => (sliderType ? sliderMotion(sliderType, config, sliderOffset, assemblyMode) : null),
+    [sliderType, sliderOffset, assemblyMode, config.r1, config.r2, config.r3, config.groundX, config.groundY, config.theta1]
+  );
+  const slider = sliderType && sliderCycle && { type: sliderType, offset: sliderOffset, assemblyMode, cycle: sliderCycle };
+
+  // A newly chosen six-bar type starts from a dyad that assembles over the whole cycle.
+  // Slider mechanisms are crank driven.
+  const changeMechanism = (next: MechanismType) => {
+    setMechanism(next);
+    if (isSixBarType(next) && sixBar?.type !== next) {
+      setSixBar({ type: next, config: defaultSixBar(next, config, trajectory) });
+    }
+    if (isSliderType(next) && config.driver !== 'crank') changeDriver('crank');
+  };
+
+  // Sizes the slider-crank's crank and rod for a stroke and time ratio at the current offset
+  const changeSliderStroke = (stroke: number, ratio: number) => {
+    const lengths = sliderCrankFromStroke(stroke, ratio, sliderOffset, config.r3);
+    if (lengths) edit({ config: { ...config, ...lengths } });
+  };
+
+  // Switching driver keeps the current pose: the new driver starts from its solved angle,
+  // on whichever branch reproduces the same joint positions.
+  const changeDriver = (driver: DriverLink) => {
+    if (!solution.isValid) {
+      edit({ config: { ...config, driver } });
+      return;
+    }
+    const next: LinkageConfig = {
+      ...config,
+      driver,
+      theta2: solution.theta2,
+      theta3: solution.theta3,
+      theta4: solution.theta4,
+    };
+    const matchesPose = (mode: 1 | -1) => {
+      const sol = solveLinkage(next, mode);
+      return sol.isValid && Math.hypot(sol.Ax - solution.Ax, sol.Ay - solution.Ay) + Math.hypot(sol.Bx - solution.Bx, sol.By - solution.By) < 1e-6;
+    };
+    const flipped = assemblyMode === 1 ? -1 : 1;
+    edit({ config: next, assemblyMode: !matchesPose(assemblyMode) && matchesPose(flipped) ? flipped : assemblyMode });
+  };
+  const driverLabel = DRIVER_LABELS[config.driver];
+
+  // Dragging a joint on the canvas edits the dimensions it controls
+  const editJoint = (joint: EditableJoint, point: Point, locks: EditLocks) => {
+    const edited = dragJoint(config, assemblyMode, solution, joint, point, locks);
+    if (!edited) return;
+    setIsPlaying(false);
+    edit(edited);
+  };
+
+  // Motion generation synthesis
+  const synthesisPivots = useMemo(() => synthesizePivots(synthesis), [synthesis]);
+  const synthesisResult = useMemo(
+    () => synthesisPivots && toLinkage(synthesisPivots, synthesis.positions, config),
+    [synthesisPivots, synthesis.positions, config]
+  );
+  const synthesisCurves = useMemo(
+    () => (synthesis.positions.length === 4 ? burmesterCurves(synthesis.positions) : null),
+    [synthesis.positions]
+  );
+  const placeSynthesisPoint = (point: Point) => {
+    if (!pickTarget) return;
+    if (pickTarget.kind === 'target') {
+      setPathTargets([...pathTargets, { ...point, timing: null }]);
+      setPathResult(null);
+      return;
+    }
+    setSynthesis(applySynthesisPick(synthesis, pickTarget, point));
+    setPickTarget(null);
+  };
+  const loadSynthesis = () => {
+    if (!synthesisResult) return;
+    setIsPlaying(false);
+    setGroundLink(1);
+    edit({ config: synthesisResult.config, assemblyMode: synthesisResult.assemblyMode });
+  };
+  // Roberts–Chebyshev cognates, following the current pose
+  const cognateSet = useMemo(() => cognates(config, solution), [config, solution]);
+  const cognatePoses = useMemo(() => (cognateSet ? cognateSet.map(cognatePose) : []), [cognateSet]);
+  // Kennedy's instant centers for the current pose, and the coupler's centrodes over the cycle
+  const centerPose = useMemo(() => (solution.isValid ? poseFromSolution(config, solution) : null), [config, solution]);
+  const centers = useMemo(() => centerPose && instantCenters(centerPose), [centerPose]);
+  const centrodes = useMemo(() => couplerCentrodes(config, trajectory), [config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1, trajectory]);
+  // Length, area, curvature and notable points of the coupler path
+  const curveProperties = useMemo(
+    () => couplerCurveProperties(config, trajectory, curveTolerance),
+    [config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1, trajectory, curveTolerance]
+  );
+  // Monte Carlo over the cycle only runs while shown, and in short slices like the path optimizer
+  // so edits stay responsive. A change of linkage or tolerances drops the run and starts over.
+  useEffect(() => {
+    setToleranceResult(null);
+    if (!showToleranceStudy || sliderType) {
+      setToleranceProgress(null);
+      return;
+    }
+    let cancelled = false;
+    const run = toleranceStudy(config, trajectory, tolerances);
+    const step = () => {
+      if (cancelled) return;
+      const until = performance.now() + 40;
+      let next = run.next();
+      while (!next.done && performance.now() < until) next = run.next();
+      if (next.done) {
+        setToleranceResult(next.value);
+        setToleranceProgress(null);
+      } else {
+        setToleranceProgress(next.value);
+        setTimeout(step, 0);
+      }
+    };
+    setToleranceProgress(0);
+    setTimeout(step, 0);
+    return () => {
+      cancelled = true;
+    };
+  }, [showToleranceStudy, sliderType, config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1, trajectory, tolerances]);
+  // The sensitivities are cheap enough to follow every frame
+  const sensitivityCoefficients = useMemo(() => sensitivities(config, solution), [config, solution]);
+  const switchToCognate = (cognate: Cognate) => {
+    setIsPlaying(false);
+    setGroundLink(1);
+    edit({ config: cognate.config, assemblyMode: cognate.assemblyMode });
+  };
+  const exportCognate = (cognate: Cognate, index: number) =>
+    downloadFile(
+      `cognate-${index + 1}.json`,
+      JSON.stringify({ config: cognate.config, assemblyMode: cognate.assemblyMode }, null, 2)
+    );
+
+  // Saved designs restore the linkage together with the view and animation settings
+  const designSnapshot: DesignSnapshot = {
+    config,
+    assemblyMode,
+    viewBox,
+    animation: { isPlaying, speed: animationSpeed, followBranches },
+  };
+  const loadDesign = (design: DesignSnapshot) => {
+    setGroundLink(1);
+    edit({ config: design.config, assemblyMode: design.assemblyMode });
+    setViewBox(design.viewBox);
+    setAnimationSpeed(design.animation.speed);
+    setFollowBranches(design.animation.followBranches);
+    setIsPlaying(design.animation.isPlaying);
+  };
+
+  // The URL follows the state once edits settle, one history entry per settled change. It is
+  // left alone while animating, so play ticks never reach the history.
+  const urlSyncedRef = useRef(false);
+  const urlSearch = writeUrlState(designSnapshot, { embed: isEmbed });
+  useEffect(() => {
+    if (isPlaying || urlSearch === window.location.search) return;
+    const timer = setTimeout(() => {
+      const url = `${window.location.pathname}${urlSearch}${window.location.hash}`;
+      // The first write only normalizes the URL the page was opened with
+      if (urlSyncedRef.current) window.history.pushState(null, '', url);
+      else window.history.replaceState(null, '', url);
+      urlSyncedRef.current = true;
+    }, URL_SYNC_DELAY);
+    return () => clearTimeout(timer);
+  }, [urlSearch, isPlaying]);
+
+  // Back and forward restore the state the URL describes
+  useEffect(() => {
+    const restore = () => {
+      const { snapshot, errors } = parseUrlState(window.location.search);
+      setIsPlaying(false);
+      setConfig((prev) => ({ ...snapshot.config, massProperties: prev.massProperties }));
+      setAssemblyMode(snapshot.assemblyMode);
+      setViewBox(snapshot.viewBox);
+      setAnimationSpeed(snapshot.animation.speed);
+      setFollowBranches(snapshot.animation.followBranches);
+      setUrlErrors(errors);
+    };
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  const showSynthesis = sideTab === 'synthesis';
+  const showForces = sideTab === 'forces';
+
+  // Statics under the applied load, at the current pose and around the cycle
+  const hasStaticLoad = staticLoad.force !== 0 || staticLoad.torque4 !== 0;
+  const staticPose = useMemo(() => (solution.isValid ? poseFromSolution(config, solution) : null), [config.r1, config.groundX, config.groundY, config.theta1, solution]);
+  const staticForces = useMemo(() => staticPose && solveStatics(staticPose, staticLoad), [staticPose, staticLoad]);
+  const staticsCycle = useMemo(
+    () => (hasStaticLoad ? staticsOverCycle(config, trajectory, staticLoad) : undefined),
+    [hasStaticLoad, trajectory, staticLoad, config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1]
+  );
+  const peakTorque = useMemo(() => {
+    const torques = (staticsCycle ?? []).flat().map((p) => Math.abs(p.torque2));
+    return torques.length > 0 ? Math.max(...torques) : null;
+  }, [staticsCycle]);
+
+  // Path generation: fit of the optimized design, or of the current linkage as it stands
+  const pathFit = useMemo(() => {
+    if (pathTargets.length === 0) return null;
+    const design = pathResult?.design ?? designFromConfig(config, pathCrankOffset);
+    return evaluatePath(design, pathTargets, assemblyMode);
+  }, [pathTargets, pathResult, pathCrankOffset, config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1, assemblyMode]);
+  const pathCandidateCurve = useMemo(
+    () => (pathResult ? designCurve(pathResult.design, assemblyMode) : null),
+    [pathResult, assemblyMode]
+  );
+
+  // Stop a running optimization if the app unmounts
+  useEffect(() => () => {
+    pathCancelRef.current = true;
+  }, []);
+
+  // Runs the optimizer in short slices so the page stays responsive and can cancel it
+  const runPathOptimizer = () => {
+    const start = designFromConfig(config, pathCrankOffset);
+    const check = evaluatePath(start, pathTargets, assemblyMode);
+    if (check.rejected) {
+      setPathMessage(`Cannot start from the current linkage: ${check.rejected}.`);
+      return;
+    }
+    setPathMessage(null);
+    setPickTarget(null);
+    setIsPlaying(false);
+    setIsPathRunning(true);
+    pathCancelRef.current = false;
+
+    const run = optimizePath(start, pathTargets, assemblyMode);
+    const step = () => {
+      if (pathCancelRef.current) {
+        setIsPathRunning(false);
+        return;
+      }
+      const until = performance.now() + 40;
+      let next = run.next();
+      while (!next.done && performance.now() < until) next = run.next();
+      setPathResult(next.value);
+      if (next.done) setIsPathRunning(false);
+      else setTimeout(step, 0);
+    };
+    setTimeout(step, 0);
+  };
+  const loadPathDesign = () => {
+    if (!pathResult) return;
+    const { config: designed, pose, crankOffset } = pathResult.design;
+    const { r1, r2, r3, r4, r6, beta } = designed;
+    setGroundLink(1);
+    edit({
+      config: {
+        ...config,
+        r1,
+        r2,
+        r3,
+        r4,
+        r6,
+        beta: ((beta % 360) + 540) % 360 - 180,
+        groundX: pose.x,
+        groundY: pose.y,
+        theta1: pose.angle,
+        driver: 'crank',
+        theta2: (((crankOffset + pose.angle) % 360) + 360) % 360,
+      },
+    });
+    setPathCrankOffset(crankOffset);
+    setPathResult(null);
+  };
+
+  // Function generation: only the link lengths matter, so the base config is irrelevant here
+  const functionResult = useMemo(() => synthesizeFunctionGenerator(functionSpec, initialSnapshot.config), [functionSpec, initialSnapshot.config]);
+  const functionError = useMemo(
+    () => (functionTarget ? structuralError(functionTarget, config, assemblyMode) : undefined),
+    [functionTarget, config.r1, config.r2, config.r3, config.r4, config.theta1, assemblyMode]
+  );
+  const precisionInputs = useMemo(
+    () =>
+      functionTarget
+        ? (precisionPoints(functionTarget.spec) ?? []).map((p) => p.theta2 + functionTarget.crankOffset + config.theta1)
+        : [],
+    [functionTarget, config.theta1]
+  );
+  const loadFunctionGenerator = () => {
+    if (!functionResult) return;
+    const { r1, r2, r3, r4, theta1, theta2 } = functionResult.config;
+    setIsPlaying(false);
+    setGroundLink(1);
+    // The current ground placement stays; the crank keeps its angle from the ground link
+    edit({
+      config: { ...config, r1, r2, r3, r4, theta2: (((theta2 - theta1 + config.theta1) % 360) + 360) % 360, driver: 'crank' },
+      assemblyMode: functionResult.assemblyMode,
+    });
+    setFunctionTarget(functionResult.generator);
+  };
+
   return (
     <div className="flex h-screen w-screen overflow-hidden bg-slate-50 relative">
       {/* Sidebar Control Panel */}
       {isSidebarOpen && (
         <ControlPanel
           config={config}
-          onChange={setConfig}
+          onChange={(next) => edit({ config: next })}
           isPlaying={isPlaying}
           onTogglePlay={() => setIsPlaying(!isPlaying)}
           assemblyMode={assemblyMode}
-          onToggleMode={() => setAssemblyMode(m => m === 1 ? -1 : 1)}
+          onToggleMode={() => edit({ assemblyMode: assemblyMode === 1 ? -1 : 1 })}
+          onDriverChange={changeDriver}
+          followBranches={followBranches}
+          onToggleFollowBranches={() => setFollowBranches(f => !f)}
           animationSpeed={animationSpeed}
           setAnimationSpeed={setAnimationSpeed}
+          transmissionLimits={transmissionLimits}
+          onTransmissionLimitsChange={setTransmissionLimits}
+          mechanism={mechanism}
+          onMechanismChange={changeMechanism}
+          sixBar={activeSixBar?.config ?? null}
+          onSixBarChange={(next) => activeSixBar && setSixBar({ ...activeSixBar, config: next })}
+          sliderOffset={sliderOffset}
+          onSliderOffsetChange={setSliderOffset}
+          sliderMotion={sliderTravel}
+          onSliderStrokeChange={changeSliderStroke}
           onClose={() => setSidebarOpen(false)}
         />
       )}
       
       <main className="flex-1 flex flex-col h-full overflow-hidden p-4 gap-4 relative">
+        {urlErrors.length > 0 && (
+          <div className="flex-shrink-0 flex items-start justify-between gap-4 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-800">
+            <div>
+              <p className="font-semibold mb-1">Some URL parameters were invalid:</p>
+              <ul className="space-y-0.5">
+                {urlErrors.map(({ param, message }) => (
+                  <li key={param}>
+                    <span className="font-mono">{param}</span>: {message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button onClick={() => setUrlErrors([])} className="text-amber-500 hover:text-amber-700" title="Dismiss">✕</button>
+          </div>
+        )}
         {/* Top Section: Visualization and Specific Data */}
         <div className="flex-1 flex gap-4 min-h-0 relative">
           
@@ -121,8 +692,64 @@ const App: React.FC = () => {
               config={config} 
               solution={solution} 
               trajectory={trajectory}
+              transmissionLimits={transmissionLimits}
+              groundLink={groundLink}
+              viewBox={viewBox}
+              onViewBoxChange={setViewBox}
+              overlay={showSynthesis ? (
+                <>
+                  <SynthesisOverlay state={synthesis} pivots={synthesisPivots} curves={synthesisCurves} />
+                  <PathTargetsOverlay targets={pathTargets} fit={pathFit} candidateCurve={pathCandidateCurve} />
+                </>
+              ) : groundLink === 1 && (
+                <>
+                  {showCognates && <CognatesOverlay poses={cognatePoses} />}
+                  {toleranceResult && <ToleranceEnvelopeOverlay envelope={toleranceResult.envelope} />}
+                  {showCurveFeatures && !sliderType && curveProperties && <CouplerCurveOverlay properties={curveProperties} />}
+                  {showInstantCenters && !sliderType && centerPose && centers && (
+                    <InstantCentersOverlay
+                      pose={centerPose}
+                      centers={centers}
+                      fixedCentrode={showCentrodes ? centrodes.fixed : null}
+                      movingCentrode={showCentrodes ? placeMovingCentrode(centrodes.moving, centerPose) : null}
+                    />
+                  )}
+                  {measuredPoints && <MeasuredPointsOverlay points={measuredPoints.points} />}
+                  {showForces && showStaticArrows && staticPose && (
+                    <StaticsOverlay pose={staticPose} load={staticLoad} forces={staticForces} />
+                  )}
+                </>
+              )}
+              onCanvasClick={showSynthesis && pickTarget ? placeSynthesisPoint : undefined}
+              onJointDrag={editJoint}
+              sixBar={activeSixBar}
+              slider={slider}
             />
 
+            {showAtlas && (
+              <CouplerAtlas
+                config={config}
+                assemblyMode={assemblyMode}
+                followBranches={followBranches}
+                onSelect={(next) => {
+                  edit({ config: next });
+                  setShowAtlas(false);
+                }}
+                onClose={() => setShowAtlas(false)}
+              />
+            )}
+
+            {floatingMenu === 'share' && <ShareMenu snapshot={designSnapshot} onClose={() => setFloatingMenu(null)} />}
+            {floatingMenu === 'history' && (
+              <HistoryMenu
+                history={history}
+                onUndo={() => moveInHistory(undo(history))}
+                onRedo={() => moveInHistory(redo(history))}
+                onJump={(index) => moveInHistory(jumpTo(history, index))}
+                onClose={() => setFloatingMenu(null)}
+              />
+            )}
+
             {/* Floating Controls Overlay */}
             <div className="absolute top-4 right-4 flex flex-col gap-2 z-20">
               <button 
@@ -133,6 +760,38 @@ const App: React.FC = () => {
                 {isSidebarOpen ? <SettingsIcon /> : <MenuIcon />}
               </button>
               
+              <button
+                onClick={() => setShowAtlas(true)}
+                className="p-2 bg-white/90 backdrop-blur border border-slate-200 rounded-full shadow-sm text-slate-600 hover:text-blue-600 hover:bg-slate-50 transition-colors"
+                title="Coupler Curve Atlas"
+              >
+                <GridIcon />
+              </button>
+
+              <button
+                onClick={() => setFloatingMenu(floatingMenu === 'history' ? null : 'history')}
+                className={`p-2 backdrop-blur border rounded-full shadow-sm transition-colors ${
+                  floatingMenu === 'history'
+                    ? 'bg-blue-50 border-blue-200 text-blue-600'
+                    : 'bg-white/90 border-slate-200 text-slate-600 hover:text-blue-600 hover:bg-slate-50'
+                }`}
+                title="Edit History (Ctrl+Z / Ctrl+Shift+Z)"
+              >
+                <HistoryIcon />
+              </button>
+
+              <button
+                onClick={() => setFloatingMenu(floatingMenu === 'share' ? null : 'share')}
+                className={`p-2 backdrop-blur border rounded-full shadow-sm transition-colors ${
+                  floatingMenu === 'share'
+                    ? 'bg-blue-50 border-blue-200 text-blue-600'
+                    : 'bg-white/90 border-slate-200 text-slate-600 hover:text-blue-600 hover:bg-slate-50'
+                }`}
+                title="Share Link or Embed"
+              >
+                <ShareIcon />
+              </button>
+
               {!isSidebarOpen && (
                 <button 
                   onClick={() => setIsPlaying(!isPlaying)}
@@ -152,42 +811,380 @@ const App: React.FC = () => {
           {/* Right/Bottom Side Info - Collapsible or Responsive? */}
           {/* For embed mode, if width is sufficient, we show it. Flex handles this naturally. */}
           <div className="flex-1 flex flex-col gap-4 min-h-0 overflow-y-auto">
-            <SolutionTable config={config} assemblyMode={assemblyMode} />
-            
-            {/* Legend / Info */}
-            <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
-               <h4 className="font-bold text-slate-800 mb-2">Mechanism Status</h4>
-               <ul className="space-y-1">
-                 <li className="flex justify-between">
-                   <span>Assembly:</span>
-                   <span className={solution.isValid ? "text-emerald-600 font-medium" : "text-red-600 font-medium"}>
-                     {solution.isValid ? "Valid" : "Broken"}
-                   </span>
-                 </li>
-                 <li className="flex justify-between">
-                   <span>Current Mode:</span>
-                   <span>{assemblyMode === 1 ? "Open" : "Crossed"}</span>
-                 </li>
-                 <li className="flex justify-between mt-2 pt-2 border-t border-slate-100">
-                   <span>Input θ₂:</span>
-                   <span className="font-mono">{config.theta2.toFixed(1)}°</span>
-                 </li>
-                 <li className="flex justify-between">
-                   <span>Coupler θ₃:</span>
-                   <span className="font-mono">{solution.isValid ? solution.theta3.toFixed(1) + "°" : "-"}</span>
-                 </li>
-                 <li className="flex justify-between">
-                   <span>Output θ₄:</span>
-                   <span className="font-mono">{solution.isValid ? solution.theta4.toFixed(1) + "°" : "-"}</span>
-                 </li>
-               </ul>
+            <div className="flex rounded-md bg-slate-100 p-0.5 flex-shrink-0">
+              {(Object.keys(SIDE_PANEL_TABS) as SidePanelTab[]).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => {
+                    setSideTab(tab);
+                    setPickTarget(null);
+                  }}
+                  className={`flex-1 py-1 text-xs font-medium rounded transition-colors ${
+                    sideTab === tab ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+                  }`}
+                >
+                  {SIDE_PANEL_TABS[tab]}
+                </button>
+              ))}
             </div>
+
+            {showSynthesis && (
+              <SynthesisPanel
+                state={synthesis}
+                onChange={setSynthesis}
+                result={synthesisResult}
+                pickTarget={pickTarget}
+                onPick={setPickTarget}
+                onLoad={loadSynthesis}
+              />
+            )}
+            {showSynthesis && (
+              <FunctionGeneratorPanel
+                spec={functionSpec}
+                onChange={setFunctionSpec}
+                result={functionResult}
+                isLoaded={functionTarget !== null}
+                onLoad={loadFunctionGenerator}
+                onClear={() => setFunctionTarget(null)}
+              />
+            )}
+            {showSynthesis && (
+              <PathSynthesisPanel
+                targets={pathTargets}
+                onTargetsChange={(targets) => {
+                  // A running fit still holds the old targets, so stop it before its next slice
+                  pathCancelRef.current = true;
+                  setPathTargets(targets);
+                  setPathResult(null);
+                }}
+                isPlacing={pickTarget?.kind === 'target'}
+                onTogglePlacing={() => setPickTarget(pickTarget?.kind === 'target' ? null : { kind: 'target' })}
+                fit={pathFit}
+                result={pathResult}
+                isRunning={isPathRunning}
+                message={pathMessage}
+                onOptimize={runPathOptimizer}
+                onCancel={() => {
+                  pathCancelRef.current = true;
+                }}
+                onLoad={loadPathDesign}
+                onDiscard={() => setPathResult(null)}
+              />
+            )}
+
+            {showForces && (
+              <StaticsPanel
+                load={staticLoad}
+                onChange={setStaticLoad}
+                forces={staticForces}
+                isValid={solution.isValid}
+                peakTorque={peakTorque}
+                showArrows={showStaticArrows}
+                onShowArrowsChange={setShowStaticArrows}
+              />
+            )}
+            {showForces && groundLink !== 1 && (
+              <p className="text-xs text-amber-600 px-1">Force arrows are drawn on the original ground frame only.</p>
+            )}
+
+            {sideTab === 'designs' && <DesignLibraryPanel current={designSnapshot} onLoad={loadDesign} />}
+
+            {sideTab === 'analysis' && (
+              <>
+                <SolutionTable config={config} assemblyMode={assemblyMode} />
+                <InversionsPanel
+                  config={config}
+                  solution={solution}
+                  trajectory={trajectory}
+                  groundLink={groundLink}
+                  onSelect={setGroundLink}
+                />
+                <CognatesPanel
+                  config={config}
+                  cognates={cognateSet}
+                  showOverlay={showCognates}
+                  onShowOverlayChange={setShowCognates}
+                  onSwitch={switchToCognate}
+                  onExport={exportCognate}
+                />
+                <CouplerCurvePanel
+                  properties={curveProperties}
+                  driver={config.driver}
+                  tolerance={curveTolerance}
+                  onToleranceChange={setCurveTolerance}
+                  showOverlay={showCurveFeatures}
+                  onShowOverlayChange={setShowCurveFeatures}
+                />
+                <TolerancePanel
+                  spec={tolerances}
+                  onSpecChange={setTolerances}
+                  study={toleranceResult}
+                  progress={toleranceProgress}
+                  sensitivities={sensitivityCoefficients}
+                  showStudy={showToleranceStudy}
+                  onShowStudyChange={setShowToleranceStudy}
+                />
+                <InstantCentersPanel
+                  centers={centers}
+                  solution={solution}
+                  showOverlay={showInstantCenters}
+                  onShowOverlayChange={setShowInstantCenters}
+                  showCentrodes={showCentrodes}
+                  onShowCentrodesChange={setShowCentrodes}
+                />
+                <DataPanel
+                  config={config}
+                  assemblyMode={assemblyMode}
+                  followBranches={followBranches}
+                  trajectory={trajectory}
+                  measured={measuredPoints}
+                  onMeasuredChange={setMeasuredPoints}
+                />
+            
+                {/* Legend / Info */}
+                <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+                   <h4 className="font-bold text-slate-800 mb-2">Mechanism Status</h4>
+                   <ul className="space-y-1">
+                     {sliderType && sliderSolution && (
+                       <>
+                         <li className="flex justify-between">
+                           <span>{MECHANISM_LABELS[sliderType]}:</span>
+                           <span className={sliderSolution.isValid ? "text-emerald-600 font-medium" : "text-red-600 font-medium"}>
+                             {sliderSolution.isValid ? "Valid" : "Broken"}
+                           </span>
+                         </li>
+                         <li className="flex justify-between">
+                           <span>Slider s / ṡ / s̈:</span>
+                           <span className="font-mono">
+                             {sliderSolution.isValid
+                               ? [sliderSolution.s, sliderSolution.v, sliderSolution.a].map(x => x.toFixed(3)).join(' / ')
+                               : "-"}
+                           </span>
+                         </li>
+                         <li className="flex justify-between">
+                           <span>Stroke / Time Ratio:</span>
+                           <span className="font-mono">
+                             {sliderTravel
+                               ? `${sliderTravel.stroke.toFixed(3)} / ${sliderTravel.timeRatio?.toFixed(3) ?? '-'}`
+                               : "-"}
+                           </span>
+                         </li>
+                         <li className="pb-2 mb-2 border-b border-slate-100 text-xs text-slate-400">
+                           The four-bar rows below describe the pin-jointed linkage with the same links.
+                         </li>
+                       </>
+                     )}
+                     <li className="flex justify-between">
+                       <span>Assembly:</span>
+                       <span className={solution.isValid ? "text-emerald-600 font-medium" : "text-red-600 font-medium"}>
+                         {solution.isValid ? "Valid" : "Broken"}
+                       </span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Current Mode:</span>
+                       <span>{assemblyMode === 1 ? "Open" : "Crossed"}</span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Grashof Type:</span>
+                       <span className={classification.isGrashof ? "font-medium text-slate-800" : "font-medium text-amber-600"}>
+                         {GRASHOF_LABELS[classification.type]}
+                       </span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>s + l − (p + q):</span>
+                       <span className="font-mono">{classification.grashofSum.toFixed(3)}</span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Full Rotation:</span>
+                       <span>
+                         {[
+                           classification.inputFullRotation && 'Crank',
+                           classification.outputFullRotation && 'Output',
+                         ].filter(Boolean).join(' & ') || 'None'}
+                       </span>
+                     </li>
+                     <li className="flex justify-between gap-2">
+                       <span>Input Range ({driverLabel.angle}):</span>
+                       <span className="font-mono text-right">
+                         {classification.canAssemble
+                           ? classification.inputRanges.map(formatAngleRange).join(', ')
+                           : 'Cannot assemble'}
+                       </span>
+                     </li>
+                     {classification.inputLimits.length > 0 && (
+                       <li className="flex justify-between gap-2">
+                         <span>Dead Points {driverLabel.angle}:</span>
+                         <span className="font-mono text-right">
+                           {classification.inputLimits.map(t => t.toFixed(1) + '°').join(', ')}
+                         </span>
+                       </li>
+                     )}
+                     {classification.outputLimits.length > 0 && (
+                       <li className="flex justify-between gap-2">
+                         <span>Output Limits:</span>
+                         <span className="font-mono text-right">
+                           {classification.outputLimits.map(l => `θ₂ ${l.theta2.toFixed(1)}° → θ₄ ${l.theta4.toFixed(1)}°`).join(', ')}
+                         </span>
+                       </li>
+                     )}
+                     <li className="flex justify-between mt-2 pt-2 border-t border-slate-100">
+                       <span>Driver:</span>
+                       <span>{driverLabel.name} ({driverLabel.angle} = {getInputAngle(config).toFixed(1)}°)</span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Crank θ₂:</span>
+                       <span className="font-mono">{solution.isValid ? solution.theta2.toFixed(1) + "°" : "-"}</span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Coupler θ₃:</span>
+                       <span className="font-mono">{solution.isValid ? solution.theta3.toFixed(1) + "°" : "-"}</span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Output θ₄:</span>
+                       <span className="font-mono">{solution.isValid ? solution.theta4.toFixed(1) + "°" : "-"}</span>
+                     </li>
+                     <li className="flex justify-between">
+                       <span>Transmission μ:</span>
+                       <span className={`font-mono ${
+                         solution.isValid && (solution.mu < transmissionLimits.min || solution.mu > transmissionLimits.max)
+                           ? 'text-red-600'
+                           : ''
+                       }`}>
+                         {solution.isValid ? solution.mu.toFixed(1) + "°" : "-"}
+                       </span>
+                     </li>
+                     {classification.muMin && classification.muMax && (
+                       <>
+                         <li className="flex justify-between gap-2">
+                           <span>μ min:</span>
+                           <span className="font-mono text-right">
+                             {classification.muMin.mu.toFixed(1)}° @ θ₂ {classification.muMin.theta2.map(t => t.toFixed(1) + '°').join(', ')}
+                           </span>
+                         </li>
+                         <li className="flex justify-between gap-2">
+                           <span>μ max:</span>
+                           <span className="font-mono text-right">
+                             {classification.muMax.mu.toFixed(1)}° @ θ₂ {classification.muMax.theta2.map(t => t.toFixed(1) + '°').join(', ')}
+                           </span>
+                         </li>
+                       </>
+                     )}
+                     {activeSixBar && sixBarSolution && (
+                       <>
+                         <li className="flex justify-between mt-2 pt-2 border-t border-slate-100">
+                           <span>Second Loop:</span>
+                           <span className={sixBarSolution.isValid ? "text-emerald-600 font-medium" : "text-red-600 font-medium"}>
+                             {sixBarSolution.isValid ? "Valid" : "Broken"} ({activeSixBar.config.assemblyMode === 1 ? "Open" : "Crossed"})
+                           </span>
+                         </li>
+                         <li className="flex justify-between">
+                           <span>θ₅ / Output θ₆:</span>
+                           <span className="font-mono">
+                             {sixBarSolution.isValid ? `${sixBarSolution.theta5.toFixed(1)}° / ${sixBarSolution.theta6.toFixed(1)}°` : "-"}
+                           </span>
+                         </li>
+                         <li className="flex justify-between">
+                           <span>ω₆ / α₆:</span>
+                           <span className="font-mono">
+                             {sixBarSolution.isValid ? `${sixBarSolution.omega6.toFixed(3)} / ${sixBarSolution.alpha6.toFixed(3)}` : "-"}
+                           </span>
+                         </li>
+                         <li className="flex justify-between">
+                           <span>Transmission μ at F:</span>
+                           <span className="font-mono">{sixBarSolution.isValid ? sixBarSolution.mu.toFixed(1) + "°" : "-"}</span>
+                         </li>
+                       </>
+                     )}
+                   <li className="flex justify-between mt-2 pt-2 border-t border-slate-100">
+                     <span>ω₂ / α₂:</span>
+                     <span className="font-mono">{solution.isValid ? `${solution.omega2.toFixed(3)} / ${solution.alpha2.toFixed(3)}` : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>ω₃ / ω₄:</span>
+                     <span className="font-mono">{solution.isValid ? `${solution.omega3.toFixed(3)} / ${solution.omega4.toFixed(3)}` : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>ω₄/ω₂ (from I₂₄):</span>
+                     <span className="font-mono">{centers ? velocityRatioFromI24(centers)?.toFixed(4) ?? "-" : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>α₃ / α₄:</span>
+                     <span className="font-mono">{solution.isValid ? `${solution.alpha3.toFixed(3)} / ${solution.alpha4.toFixed(3)}` : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>|v<sub>A</sub>| / |v<sub>B</sub>| / |v<sub>C</sub>|:</span>
+                     <span className="font-mono">{solution.isValid ? [solution.vA, solution.vB, solution.vC].map(v => Math.hypot(v.x, v.y).toFixed(2)).join(' / ') : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>|a<sub>A</sub>| / |a<sub>B</sub>| / |a<sub>C</sub>|:</span>
+                     <span className="font-mono">{solution.isValid ? [solution.aA, solution.aB, solution.aC].map(a => Math.hypot(a.x, a.y).toFixed(2)).join(' / ') : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>v<sub>C</sub> (x, y):</span>
+                     <span className="font-mono">{solution.isValid ? `(${solution.vC.x.toFixed(2)}, ${solution.vC.y.toFixed(2)})` : "-"}</span>
+                   </li>
+                   <li className="flex justify-between">
+                     <span>a<sub>C</sub> (x, y):</span>
+                     <span className="font-mono">{solution.isValid ? `(${solution.aC.x.toFixed(2)}, ${solution.aC.y.toFixed(2)})` : "-"}</span>
+                   </li>
+                   <li className="flex justify-between mt-2 pt-2 border-t border-slate-100">
+                     <span>Dynamics @ ω₂:</span>
+                     <span>
+                       {config.crankSpeed.toFixed(1)} rad/s{!classification.inputFullRotation && ' (partial cycle)'}
+                     </span>
+                   </li>
+                   {dynamics ? (
+                     <>
+                       {([
+                         ['Input torque T₂', dynamics.torque2],
+                         ['Shaking force |F_s|', dynamics.shakingForce],
+                         ['Shaking moment M_s', dynamics.shakingMoment],
+                       ] as const).map(([label, stats]) => (
+                         <li key={label} className="flex justify-between">
+                           <span>{label} RMS / peak:</span>
+                           <span className="font-mono">{stats.rms.toFixed(2)} / {stats.peak.toFixed(2)}</span>
+                         </li>
+                       ))}
+                       <li className="flex justify-between gap-2">
+                         <span>Peak pin force A* / A / B / B*:</span>
+                         <span className="font-mono text-right">
+                           {[dynamics.reactionA_star, dynamics.reactionA, dynamics.reactionB, dynamics.reactionB_star].map(s => s.peak.toFixed(1)).join(' / ')}
+                         </span>
+                       </li>
+                     </>
+                   ) : (
+                     <li className="text-slate-400">The crank cannot be driven on this branch.</li>
+                   )}
+                 </ul>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
         {/* Bottom Section: Charts */}
         <div className="flex-shrink-0">
-          <Charts data={trajectory} currentTheta2={config.theta2} />
+          <Charts
+            data={trajectory}
+            driver={config.driver}
+            currentInput={getInputAngle(config)}
+            inputRanges={classification.inputRanges}
+            inputLimits={classification.inputLimits}
+            transmissionLimits={transmissionLimits}
+            functionError={functionError}
+            precisionInputs={precisionInputs}
+            statics={staticsCycle}
+            dynamics={dynamicsCycle.length > 0 ? dynamicsCycle : undefined}
+            sixBar={sixBarCycle}
+            slider={sliderCycle}
+            curvature={!sliderType && curveProperties ? curveProperties.curvature : undefined}
+            tolerance={toleranceResult?.band}
+            currentTheta2={
+              sliderType
+                ? ((config.theta2 % 360) + 360) % 360
+                : solution.isValid ? ((solution.theta2 % 360) + 360) % 360 : undefined
+            }
+          />
         </div>
       </main>
     </div>
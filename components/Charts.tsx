@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -8,22 +8,221 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
-import { TrajectoryPoint } from '../types';
+import {
+  AngleRange,
+  CurvaturePoint,
+  DriverLink,
+  DynamicsPoint,
+  SixBarPoint,
+  SliderPoint,
+  StaticsPoint,
+  StructuralErrorPoint,
+  ToleranceBandPoint,
+  TrajectorySegment,
+  TransmissionLimits,
+} from '../types';
+import { blockedInputIntervals } from '../utils/classification';
+import { DRIVER_LABELS } from '../utils/math';
 
 interface ChartsProps {
-  data: TrajectoryPoint[];
-  currentTheta2: number;
+  data: TrajectorySegment[];
+  driver: DriverLink;
+  currentInput: number;
+  currentTheta2?: number; // Marks the dynamics views, which are plotted against θ2 whatever the driver
+  inputRanges?: AngleRange[];
+  inputLimits?: number[];
+  transmissionLimits?: TransmissionLimits;
+  functionError?: StructuralErrorPoint[]; // Function generator target vs. linkage, when one is loaded
+  precisionInputs?: number[]; // θ2 at the function generator's precision points
+  statics?: StaticsPoint[][]; // Crank torque and pin forces under the static load, when one is applied
+  dynamics?: DynamicsPoint[][]; // Inverse dynamics at constant crank speed
+  sixBar?: SixBarPoint[][]; // Second dyad's output, when a six-bar is selected
+  slider?: SliderPoint[][]; // Slider travel over a crank turn, when a slider mechanism is selected
+  curvature?: CurvaturePoint[][]; // Coupler path curvature, when the curve has been analyzed
+  tolerance?: ToleranceBandPoint[][]; // θ4 spread from the tolerance study, when it has been run
+}
+
+type ChartView =
+  | 'position'
+  | 'velocity'
+  | 'acceleration'
+  | 'transmission'
+  | 'statics'
+  | 'dynamics'
+  | 'bearings'
+  | 'sixBar'
+  | 'slider'
+  | 'curvature'
+  | 'tolerance'
+  | 'function';
+type SeriesView = Exclude<ChartView, 'function'>;
+
+interface SeriesDef {
+  key: string; // Field of TrajectoryPoint, or of the view's source points
+  name: string;
+  symbol: string;
+  color: string;
+  unit: string;
+  link?: DriverLink; // Hidden when this link is the driver
+  dash?: string;
+}
+
+interface ViewDef {
+  label: string;
+  title: string;
+  series: SeriesDef[];
+  source?: 'statics' | 'dynamics' | 'sixBar' | 'slider' | 'curvature' | 'tolerance'; // Plotted from that prop instead of the trajectory, and only shown when it is given
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const VIEWS: Record<SeriesView, ViewDef> = {
+  position: {
+    label: 'Position',
+    title: 'Kinematic Response',
+    series: [
+      { key: 'theta2', name: 'Crank θ₂', symbol: 'θ₂', color: '#3b82f6', unit: '°', link: 'crank' },
+      { key: 'theta3', name: 'Coupler θ₃', symbol: 'θ₃', color: '#8b5cf6', unit: '°', link: 'coupler' },
+      { key: 'theta4', name: 'Output θ₄', symbol: 'θ₄', color: '#10b981', unit: '°', link: 'rocker' },
+    ],
+  },
+  velocity: {
+    label: 'Velocity',
+    title: 'Velocity',
+    series: [
+      { key: 'omega2', name: 'Crank ω₂', symbol: 'ω₂', color: '#3b82f6', unit: ' rad/s', link: 'crank' },
+      { key: 'omega3', name: 'Coupler ω₃', symbol: 'ω₃', color: '#8b5cf6', unit: ' rad/s', link: 'coupler' },
+      { key: 'omega4', name: 'Output ω₄', symbol: 'ω₄', color: '#10b981', unit: ' rad/s', link: 'rocker' },
+      { key: 'speedC', name: '|v_C|', symbol: '|v_C|', color: '#db2777', unit: '' },
+    ],
+  },
+  acceleration: {
+    label: 'Acceleration',
+    title: 'Acceleration',
+    series: [
+      { key: 'alpha2', name: 'Crank α₂', symbol: 'α₂', color: '#3b82f6', unit: ' rad/s²', link: 'crank' },
+      { key: 'alpha3', name: 'Coupler α₃', symbol: 'α₃', color: '#8b5cf6', unit: ' rad/s²', link: 'coupler' },
+      { key: 'alpha4', name: 'Output α₄', symbol: 'α₄', color: '#10b981', unit: ' rad/s²', link: 'rocker' },
+      { key: 'accelC', name: '|a_C|', symbol: '|a_C|', color: '#db2777', unit: '' },
+    ],
+  },
+  transmission: {
+    label: 'Transmission',
+    title: 'Transmission Angle',
+    series: [
+      { key: 'mu', name: 'Transmission μ', symbol: 'μ', color: '#0ea5e9', unit: '°' },
+    ],
+  },
+  statics: {
+    label: 'Statics',
+    title: 'Static Forces',
+    source: 'statics',
+    series: [
+      { key: 'torque2', name: 'Crank torque T₂', symbol: 'T₂', color: '#3b82f6', unit: '' },
+      { key: 'reactionA_star', name: '|F| at A*', symbol: '|F_A*|', color: '#64748b', unit: '' },
+      { key: 'reactionA', name: '|F| at A', symbol: '|F_A|', color: '#8b5cf6', unit: '' },
+      { key: 'reactionB', name: '|F| at B', symbol: '|F_B|', color: '#f59e0b', unit: '' },
+      { key: 'reactionB_star', name: '|F| at B*', symbol: '|F_B*|', color: '#10b981', unit: '' },
+    ],
+  },
+  dynamics: {
+    label: 'Dynamics',
+    title: 'Inverse Dynamics',
+    source: 'dynamics',
+    series: [
+      { key: 'torque2', name: 'Input torque T₂', symbol: 'T₂', color: '#3b82f6', unit: '' },
+      { key: 'shakingMoment', name: 'Shaking moment M_s', symbol: 'M_s', color: '#db2777', unit: '' },
+      { key: 'shakingForce', name: 'Shaking force |F_s|', symbol: '|F_s|', color: '#f97316', unit: '' },
+    ],
+  },
+  bearings: {
+    label: 'Pin Forces',
+    title: 'Dynamic Pin Forces',
+    source: 'dynamics',
+    series: [
+      { key: 'reactionA_star', name: '|F| at A*', symbol: '|F_A*|', color: '#64748b', unit: '' },
+      { key: 'reactionA', name: '|F| at A', symbol: '|F_A|', color: '#8b5cf6', unit: '' },
+      { key: 'reactionB', name: '|F| at B', symbol: '|F_B|', color: '#f59e0b', unit: '' },
+      { key: 'reactionB_star', name: '|F| at B*', symbol: '|F_B*|', color: '#10b981', unit: '' },
+    ],
+  },
+  sixBar: {
+    label: 'Six-Bar',
+    title: 'Six-Bar Output',
+    source: 'sixBar',
+    series: [
+      { key: 'theta5', name: 'Link 5 angle θ₅', symbol: 'θ₅', color: '#f97316', unit: '°' },
+      { key: 'theta6', name: 'Output angle θ₆', symbol: 'θ₆', color: '#0d9488', unit: '°' },
+    ],
+  },
+  slider: {
+    label: 'Slider',
+    title: 'Slider Motion',
+    source: 'slider',
+    series: [
+      { key: 's', name: 'Slider position s', symbol: 's', color: '#f59e0b', unit: '' },
+      { key: 'v', name: 'Slider velocity ṡ', symbol: 'ṡ', color: '#3b82f6', unit: '' },
+    ],
+  },
+  curvature: {
+    label: 'Curvature',
+    title: 'Coupler Path Curvature',
+    source: 'curvature',
+    series: [
+      { key: 'kappa', name: 'Curvature κ', symbol: 'κ', color: '#db2777', unit: '' },
+    ],
+  },
+  tolerance: {
+    label: 'Tolerance',
+    title: 'Output Spread',
+    source: 'tolerance',
+    series: [
+      { key: 'theta4', name: 'Nominal θ₄', symbol: 'θ₄', color: '#10b981', unit: '°' },
+      { key: 'theta4Max', name: 'Highest θ₄', symbol: 'θ₄ max', color: '#e11d48', unit: '°', dash: '4 2' },
+      { key: 'theta4Min', name: 'Lowest θ₄', symbol: 'θ₄ min', color: '#e11d48', unit: '°', dash: '4 2' },
+    ],
+  },
+};
+
+const FUNCTION_SERIES = [
+  { key: 'desired', name: 'Target θ₄', color: '#94a3b8', axis: 'angle', dash: '5 3' },
+  { key: 'theta4', name: 'Linkage θ₄', color: '#10b981', axis: 'angle', dash: undefined },
+  { key: 'error', name: 'Structural error', color: '#ef4444', axis: 'error', dash: undefined },
+] as const;
+const FUNCTION_UNITS = { desired: '°', theta4: '°', error: '°' };
+
+type ChartRow = Partial<Record<string, number | null>>;
+
+/**
+ * Flattens runs of points into chart rows, inserting an all-null row wherever
+ * the curve is interrupted (between runs, or where the input wraps through 360°) so
+ * recharts leaves a gap instead of joining the pieces with a straight line.
+ */
+const toChartRows = (runs: { input: number }[][]): ChartRow[] => {
+  const rows: ChartRow[] = [];
+  runs.forEach((points) => {
+    points.forEach((pt, i) => {
+      const prev = i > 0 ? points[i - 1] : undefined;
+      if (rows.length > 0 && (!prev || Math.abs(pt.input - prev.input) > 180)) {
+        rows.push({ input: pt.input });
+      }
+      rows.push(pt);
+    });
+  });
+  return rows;
+};
+
+// Spread in because recharts' ReferenceArea prop typings drop the SVG rect attributes
+const DEAD_ZONE_STYLE = { fill: '#fee2e2', fillOpacity: 0.6 };
+
+const CustomTooltip = ({ active, payload, label, units, inputSymbol }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg text-xs">
-        <p className="font-bold text-slate-700 mb-1">{`θ₂: ${Number(label).toFixed(0)}°`}</p>
-        {payload.map((entry: any, index: number) => (
+        <p className="font-bold text-slate-700 mb-1">{`${inputSymbol}: ${Number(label).toFixed(0)}°`}</p>
+        {payload.filter((entry: any) => typeof entry.value === 'number').map((entry: any, index: number) => (
           <p key={index} style={{ color: entry.color }}>
-            {`${entry.name}: ${entry.value.toFixed(1)}°`}
+            {`${entry.name}: ${entry.value.toFixed(units[entry.dataKey] === '°' ? 1 : 3)}${units[entry.dataKey] ?? ''}`}
           </p>
         ))}
       </div>
@@ -32,57 +231,166 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-const Charts: React.FC<ChartsProps> = ({ data, currentTheta2 }) => {
-  // Normalize angles to be somewhat continuous or wrap 0-360. 
-  // Recharts handles gaps if value is null, but we pre-filter valid data.
-  // Note: atan2 returns -180 to 180. We might want to shift to 0-360 for cleaner plots or keep as is.
-  // The 'toDeg' util returns -180 to 180 (implied, or check implementation).
-  // Let's assume math.ts output is standard -180 to 180 or 0 to 360. 
-  
+const Charts: React.FC<ChartsProps> = ({
+  data,
+  driver,
+  currentInput,
+  currentTheta2,
+  inputRanges,
+  inputLimits = [],
+  transmissionLimits,
+  functionError,
+  precisionInputs = [],
+  statics,
+  dynamics,
+  sixBar,
+  slider,
+  curvature,
+  tolerance,
+}) => {
+  const [selectedView, setView] = useState<ChartView>('position');
+  const sources = { statics, dynamics, sixBar, slider, curvature, tolerance };
+  const isAvailable = (v: SeriesView) => !VIEWS[v].source || !!sources[VIEWS[v].source!];
+  const view: SeriesView = selectedView !== 'function' && isAvailable(selectedView) ? selectedView : 'position';
+  const showFunction = selectedView === 'function' && !!functionError;
+  const views: ChartView[] = [
+    ...(Object.keys(VIEWS) as SeriesView[]).filter(isAvailable),
+    ...(functionError ? ['function' as const] : []),
+  ];
+  const source = VIEWS[view].source;
+  // The dynamics and slider views sweep the crank on their own, so the four-bar driver's dead
+  // zones and angle do not apply to them
+  const isCrankSweep = (source === 'dynamics' && driver !== 'crank') || source === 'slider';
+  const inputSymbol = isCrankSweep ? 'θ₂' : DRIVER_LABELS[driver].angle;
+  const marker = isCrankSweep ? currentTheta2 : currentInput;
+  const series = VIEWS[view].series.filter((s) => s.link !== driver);
+  const title = showFunction
+    ? 'Function Generation (θ₄ & structural error vs θ₂)'
+    : `${VIEWS[view].title} (${series.map((s) => s.symbol).join(' & ')} vs ${inputSymbol})`;
+  const units = Object.fromEntries(series.map((s) => [s.key, s.unit]));
+  const rows = useMemo(
+    () => toChartRows((source && sources[source]) || data.map((segment) => segment.points)),
+    [source, statics, dynamics, sixBar, slider, curvature, tolerance, data]
+  );
+
+  // Shade the driver dead zones and put the limit angles on the axis
+  const blocked = useMemo(
+    () => (inputRanges && !isCrankSweep ? blockedInputIntervals(inputRanges) : []),
+    [inputRanges, isCrankSweep]
+  );
+  const limits = useMemo(() => (isCrankSweep ? [] : inputLimits), [isCrankSweep, inputLimits]);
+  const ticks = useMemo(
+    () => [...new Set([0, 90, 180, 270, 360, ...limits.map((t) => Math.round(t * 10) / 10)])].sort((a, b) => a - b),
+    [limits]
+  );
+
   return (
-    <div className="w-full h-64 bg-white rounded-xl shadow-sm border border-slate-200 p-4">
-      <h3 className="text-sm font-bold text-slate-700 mb-2">Kinematic Response (θ₃ & θ₄ vs θ₂)</h3>
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart
-          data={data}
-          margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
-        >
-          <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
-          <XAxis 
-            dataKey="theta2" 
-            type="number" 
-            domain={[0, 360]} 
-            unit="°" 
-            tick={{fontSize: 10, fill: '#64748b'}}
-            ticks={[0, 90, 180, 270, 360]}
-          />
-          <YAxis 
-            domain={['auto', 'auto']} 
-            tick={{fontSize: 10, fill: '#64748b'}} 
-          />
-          <Tooltip content={<CustomTooltip />} />
-          <Line
-            type="monotone"
-            dataKey="theta3"
-            name="Coupler θ₃"
-            stroke="#8b5cf6"
-            strokeWidth={2}
-            dot={false}
-            isAnimationActive={false}
-          />
-          <Line
-            type="monotone"
-            dataKey="theta4"
-            name="Output θ₄"
-            stroke="#10b981"
-            strokeWidth={2}
-            dot={false}
-            isAnimationActive={false}
-          />
-          {/* Vertical line for current position */}
-          <ReferenceLine x={currentTheta2} stroke="#3b82f6" strokeDasharray="3 3" />
-        </LineChart>
-      </ResponsiveContainer>
+    <div className="w-full h-64 bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold text-slate-700">{title}</h3>
+        <div className="flex gap-1">
+          {views.map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                (showFunction ? 'function' : view) === v ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}
+            >
+              {v === 'function' ? 'Function' : VIEWS[v].label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          {showFunction ? (
+            <LineChart data={functionError} margin={{ top: 5, right: 0, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis
+                dataKey="input"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                unit="°"
+                tick={{fontSize: 10, fill: '#64748b'}}
+                tickFormatter={(t: number) => t.toFixed(0)}
+              />
+              <YAxis yAxisId="angle" domain={['auto', 'auto']} tick={{fontSize: 10, fill: '#64748b'}} />
+              <YAxis yAxisId="error" orientation="right" domain={['auto', 'auto']} tick={{fontSize: 10, fill: '#ef4444'}} />
+              <Tooltip content={<CustomTooltip units={FUNCTION_UNITS} inputSymbol="θ₂" />} />
+              <ReferenceLine yAxisId="error" y={0} stroke="#fca5a5" />
+              {precisionInputs.map((t) => (
+                <ReferenceLine key={t} yAxisId="angle" x={t} stroke="#f59e0b" strokeDasharray="2 2" />
+              ))}
+              {FUNCTION_SERIES.map((s) => (
+                <Line
+                  key={s.key}
+                  yAxisId={s.axis}
+                  type="linear"
+                  dataKey={s.key}
+                  name={s.name}
+                  stroke={s.color}
+                  strokeWidth={2}
+                  strokeDasharray={s.dash}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          ) : (
+            <LineChart
+              data={rows}
+              margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis
+                dataKey="input"
+                type="number"
+                domain={[0, 360]}
+                unit="°"
+                tick={{fontSize: 10, fill: '#64748b'}}
+                ticks={ticks}
+                tickFormatter={(t: number) => (Number.isInteger(t) ? `${t}` : t.toFixed(1))}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{fontSize: 10, fill: '#64748b'}}
+              />
+              <Tooltip content={<CustomTooltip units={units} inputSymbol={inputSymbol} />} />
+              {blocked.map(([from, to]) => (
+                <React.Fragment key={`${from}-${to}`}>
+                  <ReferenceArea x1={from} x2={to} ifOverflow="hidden" {...DEAD_ZONE_STYLE} />
+                </React.Fragment>
+              ))}
+              {limits.map((t) => (
+                <ReferenceLine key={t} x={t} stroke="#ef4444" strokeWidth={1} />
+              ))}
+              {view === 'transmission' && transmissionLimits && (
+                <>
+                  <ReferenceLine y={transmissionLimits.min} stroke="#ef4444" strokeDasharray="4 2" />
+                  <ReferenceLine y={transmissionLimits.max} stroke="#ef4444" strokeDasharray="4 2" />
+                </>
+              )}
+              {source && <ReferenceLine y={0} stroke="#cbd5e1" />}
+              {series.map((s) => (
+                <Line
+                  key={s.key}
+                  type="linear"
+                  dataKey={s.key}
+                  name={s.name}
+                  stroke={s.color}
+                  strokeWidth={2}
+                  strokeDasharray={s.dash}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+              {/* Vertical line for current position */}
+              {marker !== undefined && <ReferenceLine x={marker} stroke="#3b82f6" strokeDasharray="3 3" />}
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,46 @@
+import React from 'react';
+import { MechanismPose } from '../types';
+
+interface CognatesOverlayProps {
+  poses: (MechanismPose | null)[]; // One per cognate
+}
+
+export const COGNATE_COLORS = ['#f59e0b', '#0891b2'];
+const STROKE = 0.05;
+
+/**
+ * Canvas layer drawing the cognate linkages over the original, each in its own color: ground
+ * dashed, coupler as the triangle through the shared coupler point.
+ */
+const CognatesOverlay: React.FC<CognatesOverlayProps> = ({ poses }) => (
+  <g>
+    {poses.map((pose, i) => {
+      if (!pose) return null;
+      const color = COGNATE_COLORS[i];
+      const { A_star, B_star, A, B, C } = pose;
+      return (
+        <g key={i} opacity={0.85}>
+          <line x1={A_star.x} y1={-A_star.y} x2={B_star.x} y2={-B_star.y} stroke={color} strokeWidth={STROKE * 0.6} strokeDasharray={`${STROKE * 2},${STROKE * 2}`} />
+          <line x1={A_star.x} y1={-A_star.y} x2={A.x} y2={-A.y} stroke={color} strokeWidth={STROKE} strokeLinecap="round" />
+          <line x1={B_star.x} y1={-B_star.y} x2={B.x} y2={-B.y} stroke={color} strokeWidth={STROKE} strokeLinecap="round" />
+          <path
+            d={`M ${A.x} ${-A.y} L ${B.x} ${-B.y} L ${C.x} ${-C.y} Z`}
+            fill={color}
+            fillOpacity={0.12}
+            stroke={color}
+            strokeWidth={STROKE}
+            strokeLinejoin="round"
+          />
+          {[A, B].map((p, j) => (
+            <circle key={j} cx={p.x} cy={-p.y} r={0.07} fill="white" stroke={color} strokeWidth={STROKE * 0.6} />
+          ))}
+          {[A_star, B_star].map((p, j) => (
+            <rect key={j} x={p.x - 0.09} y={-p.y - 0.09} width={0.18} height={0.18} fill={color} />
+          ))}
+        </g>
+      );
+    })}
+  </g>
+);
+
+export default CognatesOverlay;
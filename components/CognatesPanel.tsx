@@ -0,0 +1,96 @@
+import React from 'react';
+import { LinkageConfig } from '../types';
+import { grashofType, GRASHOF_LABELS } from '../utils/classification';
+import { Cognate } from '../utils/cognates';
+import { COGNATE_COLORS } from './CognatesOverlay';
+
+interface CognatesPanelProps {
+  config: LinkageConfig;
+  cognates: [Cognate, Cognate] | null;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  onSwitch: (cognate: Cognate) => void;
+  onExport: (cognate: Cognate, index: number) => void;
+}
+
+const CognatesPanel: React.FC<CognatesPanelProps> = ({ config, cognates, showOverlay, onShowOverlayChange, onSwitch, onExport }) => {
+  const rows = [
+    { label: 'Original', color: '#475569', config, cognate: null as Cognate | null },
+    ...(cognates ?? []).map((c, i) => ({ label: `Cognate ${i + 1}`, color: COGNATE_COLORS[i], config: c.config, cognate: c })),
+  ];
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Cognates</h4>
+        <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            onChange={(e) => onShowOverlayChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Show on canvas
+        </label>
+      </div>
+
+      {!cognates ? (
+        <p className="text-xs text-slate-400">
+          Cognates need an assembled linkage with the coupler point off A and B.
+        </p>
+      ) : (
+        <>
+          <table className="w-full text-xs font-mono mb-2">
+            <thead>
+              <tr className="text-slate-400 font-sans">
+                <th className="text-left font-medium" />
+                <th className="text-right font-medium">r₁</th>
+                <th className="text-right font-medium">r₂</th>
+                <th className="text-right font-medium">r₃</th>
+                <th className="text-right font-medium">r₄</th>
+                <th className="text-right font-medium">r₆</th>
+                <th className="text-right font-medium">β</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ label, color, config: c }) => (
+                <tr key={label}>
+                  <td className="font-sans font-medium pr-1" style={{ color }}>{label}</td>
+                  {[c.r1, c.r2, c.r3, c.r4, c.r6].map((r, i) => (
+                    <td key={i} className="text-right">{r.toFixed(2)}</td>
+                  ))}
+                  <td className="text-right">{c.beta.toFixed(0)}°</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ul className="space-y-1 text-xs mb-3">
+            {rows.slice(1).map(({ label, color, config: c, cognate }, i) => (
+              <li key={label} className="flex items-center justify-between gap-2">
+                <span style={{ color }} className="font-medium">{label}</span>
+                <span className="flex-1 text-slate-500">{GRASHOF_LABELS[grashofType(c, 1).type]}</span>
+                <button
+                  onClick={() => cognate && onSwitch(cognate)}
+                  className="px-2 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                >
+                  Switch to
+                </button>
+                <button
+                  onClick={() => cognate && onExport(cognate, i)}
+                  className="px-2 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                >
+                  Export
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-400">
+            All three trace the same coupler curve. Switching loads the cognate where it stands, on its own ground pivots.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CognatesPanel;
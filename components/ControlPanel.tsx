@@ -1,5 +1,7 @@
 import React from 'react';
-import { LinkageConfig } from '../types';
+import { DriverLink, LinkageConfig, LinkMassProperties, MechanismType, SixBarConfig, SliderMotion, TransmissionLimits } from '../types';
+import { DRIVER_LABELS, getInputAngle, groundPivots, MECHANISM_LABELS, toDeg, withInputAngle } from '../utils/math';
+import { isSliderType } from '../utils/slider';
 
 interface ControlPanelProps {
   config: LinkageConfig;
@@ -8,8 +10,21 @@ interface ControlPanelProps {
   onTogglePlay: () => void;
   assemblyMode: 1 | -1;
   onToggleMode: () => void;
+  onDriverChange: (driver: DriverLink) => void;
+  followBranches: boolean;
+  onToggleFollowBranches: () => void;
   animationSpeed: number;
   setAnimationSpeed: (speed: number) => void;
+  transmissionLimits: TransmissionLimits;
+  onTransmissionLimitsChange: (limits: TransmissionLimits) => void;
+  mechanism: MechanismType;
+  onMechanismChange: (mechanism: MechanismType) => void;
+  sixBar: SixBarConfig | null; // Second dyad, when a six-bar is selected
+  onSixBarChange: (sixBar: SixBarConfig) => void;
+  sliderOffset: number;
+  onSliderOffsetChange: (offset: number) => void;
+  sliderMotion: SliderMotion | null; // Travel of the selected slider mechanism
+  onSliderStrokeChange: (stroke: number, timeRatio: number) => void;
   onClose?: () => void;
 }
 
@@ -60,6 +75,13 @@ const InputControl = ({
   );
 };
 
+const MASS_FIELDS: { key: keyof LinkMassProperties; label: string; title: string; step: number }[] = [
+  { key: 'mass', label: 'm', title: 'Mass', step: 0.1 },
+  { key: 'centroid', label: 'd', title: 'Distance from the base joint to the centroid', step: 0.1 },
+  { key: 'centroidAngle', label: 'φ (°)', title: 'Angle of the centroid off the link line', step: 1 },
+  { key: 'inertia', label: 'I_G', title: 'Moment of inertia about the centroid', step: 0.1 },
+];
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   config,
   onChange,
@@ -67,13 +89,57 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onTogglePlay,
   assemblyMode,
   onToggleMode,
+  onDriverChange,
+  followBranches,
+  onToggleFollowBranches,
   animationSpeed,
   setAnimationSpeed,
+  transmissionLimits,
+  onTransmissionLimitsChange,
+  mechanism,
+  onMechanismChange,
+  sixBar,
+  onSixBarChange,
+  sliderOffset,
+  onSliderOffsetChange,
+  sliderMotion,
+  onSliderStrokeChange,
   onClose
 }) => {
   const updateConfig = (key: keyof LinkageConfig, val: number) => {
     onChange({ ...config, [key]: val });
   };
+  const updateMass = (link: DriverLink, key: keyof LinkMassProperties, val: number) => {
+    onChange({
+      ...config,
+      massProperties: { ...config.massProperties, [link]: { ...config.massProperties[link], [key]: val } },
+    });
+  };
+  // Turning the ground turns the whole linkage with it, so every link angle moves by the same amount
+  const updateGround = (ground: Pick<LinkageConfig, 'groundX' | 'groundY' | 'theta1' | 'r1'>) => {
+    if (Object.values(ground).some(isNaN) || !(ground.r1 > 0)) return;
+    const turn = ground.theta1 - config.theta1;
+    onChange({
+      ...config,
+      ...ground,
+      theta2: config.theta2 + turn,
+      theta3: config.theta3 + turn,
+      theta4: config.theta4 + turn,
+    });
+  };
+  const updateBStar = (x: number, y: number) => {
+    const { groundX, groundY } = config;
+    updateGround({ groundX, groundY, r1: Math.hypot(x - groundX, y - groundY), theta1: toDeg(Math.atan2(y - groundY, x - groundX)) });
+  };
+  const updateSixBar = (key: keyof Omit<SixBarConfig, 'assemblyMode'>, val: number) => {
+    if (sixBar && !isNaN(val)) onSixBarChange({ ...sixBar, [key]: val });
+  };
+  const { B_star } = groundPivots(config);
+  const { groundX, groundY, theta1, r1 } = config;
+  const driverLabel = DRIVER_LABELS[config.driver];
+  const isSlider = isSliderType(mechanism);
+  // Stroke and time ratio can only be designed for a slider-crank whose crank turns fully
+  const timeRatio = mechanism === 'slider-crank' ? (sliderMotion?.timeRatio ?? null) : null;
 
   return (
     <div className="h-full bg-white border-r border-slate-200 p-6 overflow-y-auto w-80 flex-shrink-0 shadow-lg z-20 flex flex-col">
@@ -113,14 +179,42 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             {assemblyMode === 1 ? 'Open' : 'Crossed'}
           </button>
         </div>
-        
+        <label className="flex items-center gap-2 mb-4 text-xs text-slate-600 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={followBranches}
+            onChange={onToggleFollowBranches}
+            className="accent-blue-600"
+          />
+          Follow through toggle positions (switch branch at dead points)
+        </label>
+
+        {!isSlider && (
+          <div className="mb-4">
+            <label className="block text-xs font-semibold text-slate-600 uppercase tracking-wider mb-1">Driver Link</label>
+            <div className="flex rounded-md bg-slate-100 p-0.5">
+              {(Object.keys(DRIVER_LABELS) as DriverLink[]).map((d) => (
+                <button
+                  key={d}
+                  onClick={() => onDriverChange(d)}
+                  className={`flex-1 py-1 text-xs font-medium rounded transition-colors ${
+                    config.driver === d ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+                  }`}
+                >
+                  {DRIVER_LABELS[d].name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <InputControl
-          label="Crank Angle (θ₂)"
-          value={config.theta2}
+          label={`${driverLabel.name} Angle (${driverLabel.angle})`}
+          value={getInputAngle(config)}
           min={0}
           max={360}
           step={1}
-          onChange={(v) => updateConfig('theta2', v)}
+          onChange={(v) => onChange(withInputAngle(config, v))}
           unit="°"
         />
         <InputControl
@@ -134,6 +228,28 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         />
       </div>
 
+      <div className="mb-8">
+        <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Input Motion</h2>
+        <InputControl
+          label={`${driverLabel.name} Speed (${driverLabel.omega})`}
+          value={config.inputOmega}
+          min={-20}
+          max={20}
+          step={0.1}
+          onChange={(v) => updateConfig('inputOmega', v)}
+          unit="r/s"
+        />
+        <InputControl
+          label={`${driverLabel.name} Accel. (${driverLabel.alpha})`}
+          value={config.inputAlpha}
+          min={-50}
+          max={50}
+          step={0.5}
+          onChange={(v) => updateConfig('inputAlpha', v)}
+          unit="r/s²"
+        />
+      </div>
+
       <div className="mb-6">
         <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Geometry</h2>
         <InputControl
@@ -170,7 +286,55 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         />
       </div>
 
-      <div>
+      <div className="mb-6">
+        <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Ground Pivots</h2>
+        <InputControl
+          label="A* x"
+          value={groundX}
+          min={-10}
+          max={10}
+          step={0.1}
+          onChange={(v) => updateGround({ groundX: v, groundY, theta1, r1 })}
+        />
+        <InputControl
+          label="A* y"
+          value={groundY}
+          min={-10}
+          max={10}
+          step={0.1}
+          onChange={(v) => updateGround({ groundX, groundY: v, theta1, r1 })}
+        />
+        <InputControl
+          label="Ground Angle (θ₁)"
+          value={theta1}
+          min={-180}
+          max={180}
+          step={1}
+          onChange={(v) => updateGround({ groundX, groundY, theta1: v, r1 })}
+          unit="°"
+        />
+        <InputControl
+          label="B* x"
+          value={Number(B_star.x.toFixed(3))}
+          min={-20}
+          max={20}
+          step={0.1}
+          onChange={(v) => updateBStar(v, B_star.y)}
+        />
+        <InputControl
+          label="B* y"
+          value={Number(B_star.y.toFixed(3))}
+          min={-20}
+          max={20}
+          step={0.1}
+          onChange={(v) => updateBStar(B_star.x, v)}
+        />
+        <p className="text-xs text-slate-400">
+          Set θ₁ directly or place B*, which sets r₁ and θ₁. Positions, velocities and angles are reported in these global coordinates.
+        </p>
+      </div>
+
+      <div className="mb-6">
         <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Coupler Point C</h2>
         <InputControl
           label="Distance AC (r₆)"
@@ -190,6 +354,201 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           unit="°"
         />
       </div>
+
+      <div className="mb-6">
+        <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Mechanism</h2>
+        <select
+          value={mechanism}
+          onChange={(e) => onMechanismChange(e.target.value as MechanismType)}
+          className="w-full mb-4 px-2 py-1 text-sm bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(MECHANISM_LABELS) as MechanismType[]).map((m) => (
+            <option key={m} value={m}>{MECHANISM_LABELS[m]}</option>
+          ))}
+        </select>
+        {sixBar && mechanism !== 'four-bar' && (
+          <>
+            {mechanism === 'watt2' && (
+              <>
+                <InputControl
+                  label="Distance B*D (r_D)"
+                  value={sixBar.rD}
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  onChange={(v) => updateSixBar('rD', v)}
+                />
+                <InputControl
+                  label="Angle γ (from B*B)"
+                  value={sixBar.gammaD}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  onChange={(v) => updateSixBar('gammaD', v)}
+                  unit="°"
+                />
+              </>
+            )}
+            <InputControl
+              label={`Link 5 (${mechanism === 'watt2' ? 'DF' : 'CF'})`}
+              value={sixBar.r5}
+              min={0.5}
+              max={10}
+              step={0.1}
+              onChange={(v) => updateSixBar('r5', v)}
+            />
+            <InputControl
+              label="Link 6 (E*F)"
+              value={sixBar.r6}
+              min={0.5}
+              max={10}
+              step={0.1}
+              onChange={(v) => updateSixBar('r6', v)}
+            />
+            <InputControl
+              label="E* x"
+              value={sixBar.groundX}
+              min={-20}
+              max={20}
+              step={0.1}
+              onChange={(v) => updateSixBar('groundX', v)}
+            />
+            <InputControl
+              label="E* y"
+              value={sixBar.groundY}
+              min={-20}
+              max={20}
+              step={0.1}
+              onChange={(v) => updateSixBar('groundY', v)}
+            />
+            <button
+              onClick={() => onSixBarChange({ ...sixBar, assemblyMode: sixBar.assemblyMode === 1 ? -1 : 1 })}
+              className="w-full py-1.5 mb-2 bg-slate-100 text-slate-700 rounded-md text-xs font-medium hover:bg-slate-200 transition-colors"
+            >
+              Second loop: {sixBar.assemblyMode === 1 ? 'Open' : 'Crossed'}
+            </button>
+            <p className="text-xs text-slate-400">
+              {mechanism === 'watt2'
+                ? 'Link 4 becomes a ternary link carrying D, which drives the dyad D–F–E*.'
+                : 'The coupler point C drives the dyad C–F–E*.'}{' '}
+              The second loop has its own assembly mode; θ₆ is plotted in the Six-Bar chart.
+            </p>
+          </>
+        )}
+        {isSlider && (
+          <>
+            <InputControl
+              label={mechanism === 'slider-crank' ? 'Offset e (from A*)' : 'Offset e (from B*)'}
+              value={sliderOffset}
+              min={-5}
+              max={5}
+              step={0.05}
+              onChange={(v) => !isNaN(v) && onSliderOffsetChange(v)}
+            />
+            {sliderMotion && timeRatio !== null ? (
+              <>
+                <InputControl
+                  label="Stroke"
+                  value={Number(sliderMotion.stroke.toFixed(3))}
+                  min={0.1}
+                  max={20}
+                  step={0.05}
+                  onChange={(v) => v > 0 && onSliderStrokeChange(v, timeRatio)}
+                />
+                <InputControl
+                  label="Time Ratio Q"
+                  value={Number(timeRatio.toFixed(3))}
+                  min={1}
+                  max={3}
+                  step={0.01}
+                  onChange={(v) => v >= 1 && onSliderStrokeChange(sliderMotion.stroke, v)}
+                />
+                <p className="text-xs text-slate-400">
+                  Stroke and time ratio resize the crank (r₂) and rod (r₃) at this offset. With no offset the time ratio is 1.
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-slate-400">
+                {!sliderMotion
+                  ? 'The slider cannot assemble at any crank angle.'
+                  : mechanism === 'slider-crank'
+                    ? `Stroke ${sliderMotion.stroke.toFixed(3)}. The crank does not turn fully, so there is no time ratio.`
+                    : `Stroke ${sliderMotion.stroke.toFixed(3)} along link 4, time ratio ${sliderMotion.timeRatio?.toFixed(3) ?? '- (link 4 turns fully)'}. The block rides link 4, pivoted at B*; r₃ and r₄ do not apply.`}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="mb-6">
+        <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Dynamics</h2>
+        <InputControl
+          label="Constant Crank Speed (ω₂)"
+          value={config.crankSpeed}
+          min={-100}
+          max={100}
+          step={1}
+          onChange={(v) => updateConfig('crankSpeed', v)}
+          unit="r/s"
+        />
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400">
+              <th className="text-left font-medium">Link</th>
+              {MASS_FIELDS.map(({ key, label, title }) => (
+                <th key={key} className="font-medium" title={title}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(DRIVER_LABELS) as DriverLink[]).map((link) => (
+              <tr key={link}>
+                <td className="pr-1 text-slate-600">{DRIVER_LABELS[link].name}</td>
+                {MASS_FIELDS.map(({ key, step }) => (
+                  <td key={key} className="px-0.5 py-0.5">
+                    <input
+                      type="number"
+                      step={step}
+                      min={key === 'mass' || key === 'inertia' ? 0 : undefined}
+                      value={config.massProperties[link][key]}
+                      onChange={(e) => {
+                        const v = parseFloat(e.target.value);
+                        if (!isNaN(v)) updateMass(link, key, v);
+                      }}
+                      className="w-full min-w-0 px-1 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-400 mt-2">
+          Centroids are measured from A* (crank), A (coupler) and B* (rocker) along each link.
+        </p>
+      </div>
+
+      <div>
+        <h2 className="text-sm font-bold text-slate-900 mb-4 border-b border-slate-100 pb-2">Transmission Angle</h2>
+        <InputControl
+          label="Minimum μ"
+          value={transmissionLimits.min}
+          min={0}
+          max={90}
+          step={1}
+          onChange={(v) => onTransmissionLimitsChange({ ...transmissionLimits, min: v })}
+          unit="°"
+        />
+        <InputControl
+          label="Maximum μ"
+          value={transmissionLimits.max}
+          min={90}
+          max={180}
+          step={1}
+          onChange={(v) => onTransmissionLimitsChange({ ...transmissionLimits, max: v })}
+          unit="°"
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { AtlasAxis, AtlasParameter, LinkageConfig } from '../types';
+import { ATLAS_PARAMETERS, axisValues, buildAtlas, defaultAtlasAxes, defaultAxisRange } from '../utils/atlas';
+import { groundPivots } from '../utils/math';
+
+interface CouplerAtlasProps {
+  config: LinkageConfig;
+  assemblyMode: 1 | -1;
+  followBranches: boolean;
+  onSelect: (config: LinkageConfig) => void;
+  onClose: () => void;
+}
+
+const MAX_CELLS = 16; // Per axis
+const CELL_PADDING = 0.05; // Fraction of the shared view box
+
+const formatValue = (parameter: AtlasParameter, v: number) =>
+  `${parameter === 'beta' ? v.toFixed(0) : v.toFixed(2)}${ATLAS_PARAMETERS[parameter].unit}`;
+
+const AxisControls = ({
+  name,
+  config,
+  axis,
+  other,
+  onChange,
+}: {
+  name: string;
+  config: LinkageConfig;
+  axis: AtlasAxis;
+  other: AtlasParameter; // The other axis's parameter, which this one cannot also use
+  onChange: (axis: AtlasAxis) => void;
+}) => {
+  const isLength = axis.parameter !== 'beta';
+  const numberInput = (key: 'min' | 'max' | 'count', step: number) => (
+    <input
+      type="number"
+      step={step}
+      value={axis[key]}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (isNaN(v)) return;
+        if (key === 'count') onChange({ ...axis, count: Math.min(MAX_CELLS, Math.max(1, Math.round(v))) });
+        else onChange({ ...axis, [key]: isLength ? Math.max(0, v) : v });
+      }}
+      className="w-16 px-1.5 py-0.5 text-xs text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+    />
+  );
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-slate-600">
+      <span className="font-semibold w-4">{name}</span>
+      <select
+        value={axis.parameter}
+        onChange={(e) => {
+          const parameter = e.target.value as AtlasParameter;
+          onChange({ ...axis, parameter, ...defaultAxisRange(config, parameter) });
+        }}
+        className="px-1 py-0.5 bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {(Object.keys(ATLAS_PARAMETERS) as AtlasParameter[]).map((p) => (
+          <option key={p} value={p} disabled={p === other}>{ATLAS_PARAMETERS[p].label}</option>
+        ))}
+      </select>
+      {numberInput('min', isLength ? 0.1 : 5)}
+      <span>to</span>
+      {numberInput('max', isLength ? 0.1 : 5)}
+      <span>×</span>
+      {numberInput('count', 1)}
+    </div>
+  );
+};
+
+/**
+ * Hrones–Nelson style atlas: a grid of coupler curves over two parameters, everything else
+ * taken from the current linkage. All cells share one scale, with the ground pivots marked.
+ * Clicking a cell loads its parameters into the main view.
+ */
+const CouplerAtlas: React.FC<CouplerAtlasProps> = ({ config, assemblyMode, followBranches, onSelect, onClose }) => {
+  const [axes, setAxes] = useState(() => defaultAtlasAxes(config));
+  const { x: xAxis, y: yAxis } = axes;
+
+  const cells = useMemo(
+    () => buildAtlas(config, xAxis, yAxis, assemblyMode, followBranches),
+    [
+      config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, config.groundX, config.groundY, config.theta1,
+      config.driver, xAxis, yAxis, assemblyMode, followBranches,
+    ]
+  );
+
+  const viewBox = useMemo(() => {
+    const points = cells.flat().flatMap((c) => c.curve.flat());
+    const groundLengths = xAxis.parameter === 'r1' || yAxis.parameter === 'r1'
+      ? axisValues(xAxis.parameter === 'r1' ? xAxis : yAxis)
+      : [config.r1];
+    const pivots = groundLengths.flatMap((r1) => Object.values(groundPivots({ ...config, r1 })));
+    const xs = [...pivots.map((p) => p.x), ...points.map((p) => p.x)];
+    const ys = [...pivots.map((p) => -p.y), ...points.map((p) => -p.y)];
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1e-6);
+    const pad = size * CELL_PADDING;
+    return { x: minX - pad, y: minY - pad, size: size + 2 * pad };
+  }, [cells, config.r1, config.groundX, config.groundY, config.theta1, xAxis, yAxis]);
+
+  // The cell holding the current linkage, if it lies on the grid
+  const isCurrent = (value: number, axis: AtlasAxis) => {
+    const half = axis.count > 1 ? Math.abs(axis.max - axis.min) / (axis.count - 1) / 2 : Infinity;
+    return Math.abs(config[axis.parameter] - value) < Math.max(half, 1e-9);
+  };
+  const stroke = viewBox.size / 150;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-white flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-slate-200">
+        <div>
+          <h3 className="text-sm font-bold text-slate-800">Coupler Curve Atlas</h3>
+          <p className="text-xs text-slate-400">Click a cell to load it. Other parameters are taken from the current linkage.</p>
+        </div>
+        <div className="flex flex-col gap-1">
+          <AxisControls name="x" config={config} axis={xAxis} other={yAxis.parameter} onChange={(x) => setAxes({ ...axes, x })} />
+          <AxisControls name="y" config={config} axis={yAxis} other={xAxis.parameter} onChange={(y) => setAxes({ ...axes, y })} />
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setAxes(defaultAtlasAxes(config))}
+            className="px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="px-2 py-1 rounded text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-3">
+        <div
+          className="grid gap-1 min-w-max"
+          style={{ gridTemplateColumns: `auto repeat(${xAxis.count}, minmax(4.5rem, 1fr))` }}
+        >
+          <div className="text-[10px] text-slate-400 self-end text-right pr-1">
+            {ATLAS_PARAMETERS[yAxis.parameter].label} ↓ / {ATLAS_PARAMETERS[xAxis.parameter].label} →
+          </div>
+          {cells[0]?.map((c, j) => (
+            <div key={j} className="text-[10px] font-mono text-slate-500 text-center">{formatValue(xAxis.parameter, c.x)}</div>
+          ))}
+          {cells.map((row, i) => (
+            <React.Fragment key={i}>
+              <div className="text-[10px] font-mono text-slate-500 self-center text-right pr-1">{formatValue(yAxis.parameter, row[0].y)}</div>
+              {row.map((cell, j) => {
+                const current = isCurrent(cell.x, xAxis) && isCurrent(cell.y, yAxis);
+                const cellConfig = { ...config, [xAxis.parameter]: cell.x, [yAxis.parameter]: cell.y };
+                const { A_star, B_star } = groundPivots(cellConfig);
+                return (
+                  <button
+                    key={j}
+                    onClick={() => onSelect(cellConfig)}
+                    title={`${ATLAS_PARAMETERS[xAxis.parameter].label} = ${formatValue(xAxis.parameter, cell.x)}, ${ATLAS_PARAMETERS[yAxis.parameter].label} = ${formatValue(yAxis.parameter, cell.y)}`}
+                    className={`aspect-square rounded border transition-colors ${
+                      current ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-blue-400 hover:bg-slate-50'
+                    }`}
+                  >
+                    <svg viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.size} ${viewBox.size}`} className="w-full h-full">
+                      {cell.curve.length === 0 ? (
+                        <text
+                          x={viewBox.x + viewBox.size / 2}
+                          y={viewBox.y + viewBox.size / 2}
+                          fontSize={viewBox.size / 10}
+                          fill="#cbd5e1"
+                          textAnchor="middle"
+                          dominantBaseline="middle"
+                        >
+                          ×
+                        </text>
+                      ) : (
+                        <path
+                          d={cell.curve
+                            .map((run) => run.map((p, k) => `${k === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${(-p.y).toFixed(3)}`).join(' '))
+                            .join(' ')}
+                          fill="none"
+                          stroke="#db2777"
+                          strokeWidth={stroke}
+                          strokeLinejoin="round"
+                        />
+                      )}
+                      <line x1={A_star.x} y1={-A_star.y} x2={B_star.x} y2={-B_star.y} stroke="#94a3b8" strokeWidth={stroke} />
+                      <circle cx={A_star.x} cy={-A_star.y} r={stroke * 2} fill="#475569" />
+                      <circle cx={B_star.x} cy={-B_star.y} r={stroke * 2} fill="#475569" />
+                    </svg>
+                  </button>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CouplerAtlas;
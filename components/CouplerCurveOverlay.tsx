@@ -0,0 +1,93 @@
+import React from 'react';
+import { CouplerCurveProperties, CurveSpan, Point } from '../types';
+
+interface CouplerCurveOverlayProps {
+  properties: CouplerCurveProperties;
+}
+
+export const CURVE_FEATURE_STYLES = {
+  straight: { color: '#2563eb', prefix: 'S', name: 'Straight' },
+  circular: { color: '#d97706', prefix: 'R', name: 'Circular' },
+  cusp: { color: '#dc2626', prefix: 'K', name: 'Cusp' },
+  crunode: { color: '#7c3aed', prefix: 'X', name: 'Crunode' },
+};
+const STROKE = 0.03;
+const MARK = 0.08;
+const TEXT_SIZE = 0.18;
+
+/**
+ * Labels for the spans, numbered separately for each kind (S1, S2, R1, …).
+ */
+export const spanLabels = (spans: CurveSpan[]): string[] => {
+  const counts = { straight: 0, circular: 0 };
+  return spans.map((s) => `${CURVE_FEATURE_STYLES[s.kind].prefix}${++counts[s.kind]}`);
+};
+
+const toPath = (points: Point[]) => points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${(-p.y).toFixed(3)}`).join(' ');
+
+const Label = ({ at, color, children }: { at: Point; color: string; children: React.ReactNode }) => (
+  <text
+    x={at.x + MARK * 1.5} y={-at.y - MARK * 1.5}
+    fill={color} fontSize={TEXT_SIZE} fontFamily="sans-serif" fontWeight="bold"
+    className="select-none"
+  >{children}</text>
+);
+
+/**
+ * Canvas layer highlighting the coupler curve's features: straight and circular spans drawn
+ * over the path (with each arc's center), cusps, crunodes and the bounding box.
+ */
+const CouplerCurveOverlay: React.FC<CouplerCurveOverlayProps> = ({ properties }) => {
+  const { bounds, spans, cusps, crunodes } = properties;
+  const labels = spanLabels(spans);
+
+  return (
+    <g>
+      <rect
+        x={bounds.minX} y={-bounds.maxY} width={bounds.maxX - bounds.minX} height={bounds.maxY - bounds.minY}
+        fill="none" stroke="#94a3b8" strokeWidth={STROKE * 0.6} strokeDasharray={`${STROKE * 3},${STROKE * 3}`}
+      />
+      {spans.map((span, i) => {
+        const { color } = CURVE_FEATURE_STYLES[span.kind];
+        const middle = span.points[Math.floor(span.points.length / 2)];
+        return (
+          <g key={i}>
+            <path d={toPath(span.points)} fill="none" stroke={color} strokeWidth={STROKE * 6} strokeOpacity={0.35} strokeLinecap="round" strokeLinejoin="round" />
+            {span.center && (
+              <>
+                <line
+                  x1={span.center.x} y1={-span.center.y} x2={middle.x} y2={-middle.y}
+                  stroke={color} strokeWidth={STROKE} strokeDasharray={`${STROKE * 3},${STROKE * 3}`}
+                />
+                <line x1={span.center.x - MARK} y1={-span.center.y} x2={span.center.x + MARK} y2={-span.center.y} stroke={color} strokeWidth={STROKE} />
+                <line x1={span.center.x} y1={-span.center.y - MARK} x2={span.center.x} y2={-span.center.y + MARK} stroke={color} strokeWidth={STROKE} />
+                <Label at={span.center} color={color}>{labels[i]}</Label>
+              </>
+            )}
+            <Label at={middle} color={color}>{labels[i]}</Label>
+          </g>
+        );
+      })}
+      {cusps.map(({ point }, i) => (
+        <g key={`cusp-${i}`}>
+          <path
+            d={`M ${point.x} ${-point.y - MARK} L ${point.x + MARK} ${-point.y + MARK} L ${point.x - MARK} ${-point.y + MARK} Z`}
+            fill={CURVE_FEATURE_STYLES.cusp.color}
+          />
+          <Label at={point} color={CURVE_FEATURE_STYLES.cusp.color}>K{i + 1}</Label>
+        </g>
+      ))}
+      {crunodes.map(({ point }, i) => (
+        <g key={`crunode-${i}`}>
+          <path
+            d={`M ${point.x} ${-point.y - MARK} L ${point.x + MARK} ${-point.y} L ${point.x} ${-point.y + MARK} L ${point.x - MARK} ${-point.y} Z`}
+            fill="white" stroke={CURVE_FEATURE_STYLES.crunode.color} strokeWidth={STROKE}
+          />
+          <Label at={point} color={CURVE_FEATURE_STYLES.crunode.color}>X{i + 1}</Label>
+        </g>
+      ))}
+    </g>
+  );
+};
+
+export default CouplerCurveOverlay;
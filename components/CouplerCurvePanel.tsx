@@ -0,0 +1,162 @@
+import React from 'react';
+import { CouplerCurveProperties, DriverLink } from '../types';
+import { DRIVER_LABELS } from '../utils/math';
+import { CURVE_FEATURE_STYLES, spanLabels } from './CouplerCurveOverlay';
+
+interface CouplerCurvePanelProps {
+  properties: CouplerCurveProperties | null; // Null when there is no coupler path
+  driver: DriverLink;
+  tolerance: number;
+  onToleranceChange: (tolerance: number) => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+}
+
+interface FeatureRow {
+  label: string;
+  color: string;
+  name: string;
+  inputs: string;
+  details: string;
+}
+
+const angle = (t: number) => `${t.toFixed(1)}°`;
+
+const CouplerCurvePanel: React.FC<CouplerCurvePanelProps> = ({
+  properties,
+  driver,
+  tolerance,
+  onToleranceChange,
+  showOverlay,
+  onShowOverlayChange,
+}) => {
+  const inputSymbol = DRIVER_LABELS[driver].angle;
+  const rows: FeatureRow[] = [];
+  if (properties) {
+    const labels = spanLabels(properties.spans);
+    properties.spans.forEach((s, i) => {
+      const { color, name } = CURVE_FEATURE_STYLES[s.kind];
+      rows.push({
+        label: labels[i],
+        color,
+        name,
+        inputs: `${angle(s.inputFrom)} → ${angle(s.inputTo)}`,
+        details: `L ${s.length.toFixed(3)}${s.radius !== null ? `, R ${s.radius.toFixed(3)}` : ''}, dev ${s.deviation.toFixed(4)}`,
+      });
+    });
+    properties.cusps.forEach((c, i) => {
+      const { color, name } = CURVE_FEATURE_STYLES.cusp;
+      rows.push({ label: `K${i + 1}`, color, name, inputs: `≈ ${angle(c.input)}`, details: `(${c.point.x.toFixed(3)}, ${c.point.y.toFixed(3)})` });
+    });
+    properties.crunodes.forEach((c, i) => {
+      const { color, name } = CURVE_FEATURE_STYLES.crunode;
+      rows.push({
+        label: `X${i + 1}`,
+        color,
+        name,
+        inputs: c.inputs.map(angle).join(', '),
+        details: `(${c.point.x.toFixed(3)}, ${c.point.y.toFixed(3)})`,
+      });
+    });
+  }
+  const curvatures = properties?.curvature.flat().map((p) => p.kappa).filter((k): k is number => k !== null) ?? [];
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Coupler Curve</h4>
+        <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            onChange={(e) => onShowOverlayChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Show on canvas
+        </label>
+      </div>
+
+      {!properties ? (
+        <p className="text-xs text-slate-400">The coupler curve needs an assembled linkage.</p>
+      ) : (
+        <>
+          <ul className="space-y-1 text-xs mb-3">
+            <li className="flex justify-between">
+              <span>Arc length:</span>
+              <span className="font-mono">{properties.arcLength.toFixed(3)}</span>
+            </li>
+            <li className="flex justify-between">
+              <span>Enclosed area:</span>
+              <span className="font-mono">{properties.area !== null ? properties.area.toFixed(3) : 'open curve'}</span>
+            </li>
+            <li className="flex justify-between">
+              <span>Bounding box:</span>
+              <span className="font-mono">
+                {(properties.bounds.maxX - properties.bounds.minX).toFixed(3)} × {(properties.bounds.maxY - properties.bounds.minY).toFixed(3)}
+              </span>
+            </li>
+            <li className="flex justify-between">
+              <span>x / y range:</span>
+              <span className="font-mono">
+                {properties.bounds.minX.toFixed(2)}…{properties.bounds.maxX.toFixed(2)} / {properties.bounds.minY.toFixed(2)}…{properties.bounds.maxY.toFixed(2)}
+              </span>
+            </li>
+            <li className="flex justify-between">
+              <span>Curvature κ:</span>
+              <span className="font-mono">
+                {curvatures.length > 0 ? `${Math.min(...curvatures).toFixed(3)} … ${Math.max(...curvatures).toFixed(3)}` : '-'}
+              </span>
+            </li>
+          </ul>
+
+          <label className="flex items-center justify-between gap-2 text-xs mb-3">
+            <span>Straight / circular tolerance</span>
+            <input
+              type="number"
+              step={0.005}
+              min={0.001}
+              value={tolerance}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (v > 0) onToleranceChange(v);
+              }}
+              className="w-20 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+            />
+          </label>
+
+          {rows.length === 0 ? (
+            <p className="text-xs text-slate-400 mb-2">No cusps, crunodes, or straight or circular spans at this tolerance.</p>
+          ) : (
+            <table className="w-full text-xs mb-2">
+              <thead>
+                <tr className="text-slate-400">
+                  <th className="text-left font-medium" />
+                  <th className="text-left font-medium">Feature</th>
+                  <th className="text-left font-medium">{inputSymbol}</th>
+                  <th className="text-right font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label}>
+                    <td className="font-medium pr-1" style={{ color: row.color }}>{row.label}</td>
+                    <td>{row.name}</td>
+                    <td className="font-mono">{row.inputs}</td>
+                    <td className="font-mono text-right">{row.details}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-slate-400">
+            Spans stay within the tolerance of a line or circle over at least a tenth of the path. A circular span's
+            center is where a dyad's fixed pivot would give a dwell. The area counts each loop once, split off at the
+            crunodes, so both lobes of a figure eight add up.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CouplerCurvePanel;
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { LinkageConfig, MeasuredPoints, TrajectoryColumn, TrajectoryExportOptions, TrajectorySegment } from '../types';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  MIN_EXPORT_STEP,
+  parseMeasuredCsv,
+  pathDeviation,
+  TRAJECTORY_COLUMNS,
+  trajectoryCsv,
+  trajectoryJson,
+} from '../utils/dataExport';
+import { downloadFile } from '../utils/download';
+import { DRIVER_LABELS } from '../utils/math';
+
+interface DataPanelProps {
+  config: LinkageConfig;
+  assemblyMode: 1 | -1;
+  followBranches: boolean;
+  trajectory: TrajectorySegment[]; // Coupler path the measured points are compared against
+  measured: MeasuredPoints | null;
+  onMeasuredChange: (measured: MeasuredPoints | null) => void;
+}
+
+/**
+ * Trajectory export to CSV or JSON with a chosen step, columns and angle unit, and import of
+ * measured coupler points for comparison with the coupler path.
+ */
+const DataPanel: React.FC<DataPanelProps> = ({ config, assemblyMode, followBranches, trajectory, measured, onMeasuredChange }) => {
+  const [options, setOptions] = useState<TrajectoryExportOptions>({ step: 1, columns: DEFAULT_EXPORT_COLUMNS, angleUnit: 'deg' });
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const deviation = useMemo(() => (measured ? pathDeviation(measured.points, trajectory) : null), [measured, trajectory]);
+
+  const toggleColumn = (column: TrajectoryColumn) => {
+    const columns = options.columns.includes(column)
+      ? options.columns.filter((c) => c !== column)
+      : (Object.keys(TRAJECTORY_COLUMNS) as TrajectoryColumn[]).filter((c) => c === column || options.columns.includes(c));
+    setOptions({ ...options, columns });
+  };
+
+  const exportAs = (format: 'csv' | 'json') => {
+    if (format === 'csv') {
+      downloadFile('trajectory.csv', trajectoryCsv(config, assemblyMode, followBranches, options), 'text/csv');
+    } else {
+      downloadFile('trajectory.json', trajectoryJson(config, assemblyMode, followBranches, options));
+    }
+  };
+
+  const importFile = async (file: File) => {
+    const { points, skipped } = parseMeasuredCsv(await file.text());
+    if (points.length === 0) {
+      setImportMessage(`No x, y points found in ${file.name}.`);
+      return;
+    }
+    setImportMessage(skipped > 0 ? `Skipped ${skipped} row${skipped === 1 ? '' : 's'} that did not parse.` : null);
+    onMeasuredChange({ name: file.name, points });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <h4 className="font-bold text-slate-800 mb-3">Data Export &amp; Import</h4>
+
+      <div className="space-y-2 text-xs mb-3">
+        <label className="flex items-center justify-between gap-2">
+          <span>Step in {DRIVER_LABELS[config.driver].angle} (°)</span>
+          <input
+            type="number"
+            min={MIN_EXPORT_STEP}
+            step={0.5}
+            value={options.step}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (v > 0) setOptions({ ...options, step: Math.max(v, MIN_EXPORT_STEP) });
+            }}
+            className="w-20 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+          />
+        </label>
+        <div className="flex items-center justify-between gap-2">
+          <span>Angles in</span>
+          <div className="flex rounded bg-slate-100 p-0.5">
+            {(['deg', 'rad'] as const).map((unit) => (
+              <button
+                key={unit}
+                onClick={() => setOptions({ ...options, angleUnit: unit })}
+                className={`px-2 py-0.5 rounded transition-colors ${
+                  options.angleUnit === unit ? 'bg-white shadow-sm text-slate-800 font-medium' : 'text-slate-500'
+                }`}
+              >
+                {unit === 'deg' ? 'Degrees' : 'Radians'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(TRAJECTORY_COLUMNS) as TrajectoryColumn[]).map((c) => (
+            <button
+              key={c}
+              onClick={() => toggleColumn(c)}
+              className={`px-1.5 py-0.5 rounded font-mono transition-colors ${
+                options.columns.includes(c) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}
+            >
+              {c === 'input' ? DRIVER_LABELS[config.driver].angle : TRAJECTORY_COLUMNS[c].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => exportAs(format)}
+              className="flex-1 px-2 py-1 rounded font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+            >
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <p className="text-slate-400">
+          Includes the config and assembly mode as metadata, and a segment index wherever the path breaks.
+        </p>
+      </div>
+
+      <div className="pt-3 border-t border-slate-100 text-xs space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-semibold text-slate-700">Measured coupler points</span>
+          <label className="px-2 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors cursor-pointer">
+            Import CSV
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {measured ? (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate" title={measured.name}>{measured.name}: {measured.points.length} points</span>
+              <button onClick={() => onMeasuredChange(null)} className="text-slate-400 hover:text-red-600">Clear</button>
+            </div>
+            <ul className="space-y-1 font-mono">
+              <li className="flex justify-between">
+                <span className="font-sans">RMS distance to path:</span>
+                <span>{deviation ? deviation.rms.toFixed(4) : '-'}</span>
+              </li>
+              <li className="flex justify-between">
+                <span className="font-sans">Largest distance:</span>
+                <span>{deviation ? deviation.max.toFixed(4) : '-'}</span>
+              </li>
+            </ul>
+          </>
+        ) : (
+          <p className="text-slate-400">Columns named Cx/x and Cy/y, or the first two columns, in global coordinates.</p>
+        )}
+        {importMessage && <p className="text-amber-600">{importMessage}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DataPanel;
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { DesignSnapshot, SavedDesign } from '../types';
+import { designThumbnail, loadLibrary, newDesignId, readDesignFile, saveLibrary, writeDesignFile } from '../utils/designLibrary';
+import { downloadFile } from '../utils/download';
+
+interface DesignLibraryPanelProps {
+  current: DesignSnapshot; // What saving captures
+  onLoad: (design: DesignSnapshot) => void;
+}
+
+const buttonClass = 'px-2 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors';
+
+const fileName = (name: string) => `${name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'design'}.json`;
+
+/**
+ * Named designs kept in the browser's local storage, with thumbnails of their coupler curves
+ * and import and export as versioned design files.
+ */
+const DesignLibraryPanel: React.FC<DesignLibraryPanelProps> = ({ current, onLoad }) => {
+  const [stored] = useState(loadLibrary);
+  const [designs, setDesigns] = useState<SavedDesign[]>(stored.designs);
+  // Set while the stored library could not be read; nothing is written until the user starts over
+  const [loadError, setLoadError] = useState(stored.error);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const thumbnails = useMemo(() => new Map(designs.map((d) => [d.id, designThumbnail(d)])), [designs]);
+
+  // Storage is only written on an edit, never on mount, so opening the panel cannot lose designs
+  const change = (next: SavedDesign[]) => {
+    setDesigns(next);
+    if (!saveLibrary(next)) setMessage('Could not write to local storage; export the designs to keep them.');
+  };
+
+  // The library as it was stored, for recovering what could not be read
+  const exportStored = () => {
+    if (stored.raw) downloadFile('designs-backup.json', stored.raw);
+  };
+
+  const startOver = () => {
+    setLoadError(null);
+    setMessage(null);
+    change([]);
+  };
+
+  const save = () => {
+    const design = { ...current, id: newDesignId(), name: name.trim() || `Design ${designs.length + 1}`, savedAt: new Date().toISOString() };
+    setName('');
+    setMessage(null);
+    change([design, ...designs]);
+  };
+
+  const update = (id: string, changes: Partial<SavedDesign>) =>
+    change(designs.map((d) => (d.id === id ? { ...d, ...changes, savedAt: new Date().toISOString() } : d)));
+
+  const duplicate = (design: SavedDesign) => {
+    const copy = { ...design, id: newDesignId(), name: `${design.name} (copy)`, savedAt: new Date().toISOString() };
+    const i = designs.indexOf(design);
+    change([...designs.slice(0, i + 1), copy, ...designs.slice(i + 1)]);
+  };
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) update(renaming.id, { name: renaming.name.trim() });
+    setRenaming(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      // Imported designs get fresh ids so importing the same file twice keeps both copies
+      const imported = readDesignFile(await file.text()).map((d) => ({ ...d, id: newDesignId() }));
+      setMessage(`Imported ${imported.length} design${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+      change([...imported, ...designs]);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Design Library</h4>
+        {!loadError && (
+          <div className="flex gap-1 text-xs">
+            <label className={`${buttonClass} cursor-pointer`}>
+              Import
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <button
+              onClick={() => downloadFile('designs.json', writeDesignFile(designs))}
+              disabled={designs.length === 0}
+              className={`${buttonClass} disabled:opacity-50`}
+            >
+              Export all
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loadError ? (
+        <>
+          <p className="text-xs text-red-600 mb-2">
+            The saved library could not be read: {loadError} It is left as it is in local storage.
+          </p>
+          <div className="flex gap-1 text-xs">
+            {stored.raw && (
+              <button onClick={exportStored} className={buttonClass}>
+                Export stored text
+              </button>
+            )}
+            <button onClick={startOver} className={buttonClass} title="Replaces the stored library with an empty one">
+              Start a new library
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex gap-1 mb-3 text-xs">
+            <input
+              type="text"
+              value={name}
+              placeholder={`Design ${designs.length + 1}`}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+              className="flex-1 min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button onClick={save} className="px-2 py-1 rounded font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors">
+              Save current
+            </button>
+          </div>
+
+          {stored.skipped > 0 && (
+            <p className="text-xs text-amber-600 mb-2">
+              {stored.skipped} saved design{stored.skipped === 1 ? '' : 's'} could not be read and {stored.skipped === 1 ? 'is' : 'are'} left
+              out; changing the library drops {stored.skipped === 1 ? 'it' : 'them'} from storage.{' '}
+              <button onClick={exportStored} className="underline hover:text-amber-700">
+                Export stored text
+              </button>
+            </p>
+          )}
+          {message && <p className="text-xs text-amber-600 mb-2">{message}</p>}
+
+          {designs.length === 0 ? (
+            <p className="text-xs text-slate-400">
+              Saved designs keep the linkage, assembly mode, input angle, canvas view and animation settings.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {designs.map((design) => {
+                const thumbnail = thumbnails.get(design.id);
+                return (
+                  <li key={design.id} className="flex gap-2 items-center">
+                    <button
+                      onClick={() => onLoad(design)}
+                      className="w-14 h-14 flex-shrink-0 rounded border border-slate-200 hover:border-blue-400 hover:bg-slate-50 transition-colors"
+                      title="Load this design"
+                    >
+                      {thumbnail && (
+                        <svg
+                          viewBox={`${thumbnail.viewBox.x} ${thumbnail.viewBox.y} ${thumbnail.viewBox.size} ${thumbnail.viewBox.size}`}
+                          className="w-full h-full"
+                        >
+                          <path
+                            d={thumbnail.curve
+                              .map((run) => run.map((p, k) => `${k === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${(-p.y).toFixed(3)}`).join(' '))
+                              .join(' ')}
+                            fill="none"
+                            stroke="#db2777"
+                            strokeWidth={thumbnail.viewBox.size / 50}
+                            strokeLinejoin="round"
+                          />
+                          <line
+                            x1={thumbnail.pivots.A_star.x}
+                            y1={-thumbnail.pivots.A_star.y}
+                            x2={thumbnail.pivots.B_star.x}
+                            y2={-thumbnail.pivots.B_star.y}
+                            stroke="#94a3b8"
+                            strokeWidth={thumbnail.viewBox.size / 50}
+                          />
+                        </svg>
+                      )}
+                    </button>
+                    <div className="flex-1 min-w-0 text-xs">
+                      {renaming?.id === design.id ? (
+                        <input
+                          autoFocus
+                          type="text"
+                          value={renaming.name}
+                          onChange={(e) => setRenaming({ id: design.id, name: e.target.value })}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          className="w-full px-1 py-0.5 bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      ) : (
+                        <p className="font-medium text-slate-800 truncate" title={design.name}>{design.name}</p>
+                      )}
+                      <p className="text-slate-400">
+                        {new Date(design.savedAt).toLocaleString()} · {design.assemblyMode === 1 ? 'Open' : 'Crossed'}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <button onClick={() => onLoad(design)} className={buttonClass}>Load</button>
+                        <button
+                          onClick={() => update(design.id, current)}
+                          className={buttonClass}
+                          title="Overwrite with the current linkage and view"
+                        >
+                          Update
+                        </button>
+                        <button onClick={() => duplicate(design)} className={buttonClass}>Duplicate</button>
+                        <button onClick={() => setRenaming({ id: design.id, name: design.name })} className={buttonClass}>Rename</button>
+                        <button onClick={() => downloadFile(fileName(design.name), writeDesignFile([design]))} className={buttonClass}>
+                          Export
+                        </button>
+                        <button
+                          onClick={() => change(designs.filter((d) => d.id !== design.id))}
+                          className="px-2 py-0.5 rounded text-slate-400 hover:text-red-600 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DesignLibraryPanel;
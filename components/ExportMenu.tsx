@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AnimationExportOptions, AnimationFormat } from '../types';
+
+interface ExportMenuProps {
+  showDimensions: boolean;
+  onShowDimensionsChange: (show: boolean) => void;
+  onExportSvg: () => void;
+  onExportPng: (width: number) => void;
+  onExportAnimation: (options: AnimationExportOptions) => void;
+  progress: string | null; // Status of a running export, which disables the actions
+  onClose: () => void;
+}
+
+const ANIMATION_FORMATS: Record<AnimationFormat, string> = {
+  apng: 'Animated PNG',
+  'png-sequence': 'PNG sequence (ZIP)',
+};
+
+const NumberField = ({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (v: number) => void;
+}) => (
+  <label className="flex items-center justify-between gap-2">
+    <span>{label}</span>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const v = parseInt(e.target.value, 10);
+        if (!isNaN(v)) onChange(Math.min(max, Math.max(min, v)));
+      }}
+      className="w-20 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+    />
+  </label>
+);
+
+/**
+ * Popover for exporting the canvas drawing as SVG or PNG, and the mechanism's motion as
+ * frames over the crank cycle.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  showDimensions,
+  onShowDimensionsChange,
+  onExportSvg,
+  onExportPng,
+  onExportAnimation,
+  progress,
+  onClose,
+}) => {
+  const [width, setWidth] = useState(1600);
+  const [animation, setAnimation] = useState<AnimationExportOptions>({ frames: 36, format: 'apng', fps: 12, width: 800 });
+  const isBusy = progress !== null;
+  const buttonClass =
+    'flex-1 px-2 py-1 rounded font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-50';
+
+  return (
+    <div
+      className="absolute bottom-16 right-4 z-20 w-64 bg-white rounded-lg border border-slate-200 shadow-lg p-3 text-xs text-slate-600 space-y-3"
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-800">Export</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">✕</button>
+      </div>
+
+      <label className="flex items-center gap-1.5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showDimensions}
+          onChange={(e) => onShowDimensionsChange(e.target.checked)}
+          className="accent-blue-600"
+        />
+        Dimension callouts
+      </label>
+
+      <div className="space-y-1.5">
+        <p className="font-semibold text-slate-700">Drawing</p>
+        <NumberField label="PNG width (px)" value={width} min={100} max={8000} onChange={setWidth} />
+        <div className="flex gap-1">
+          <button onClick={onExportSvg} disabled={isBusy} className={buttonClass}>SVG</button>
+          <button onClick={() => onExportPng(width)} disabled={isBusy} className={buttonClass}>PNG</button>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="font-semibold text-slate-700">Animation over θ₂</p>
+        <NumberField label="Frames" value={animation.frames} min={2} max={360} onChange={(frames) => setAnimation({ ...animation, frames })} />
+        <NumberField label="Frames per second" value={animation.fps} min={1} max={60} onChange={(fps) => setAnimation({ ...animation, fps })} />
+        <NumberField label="Width (px)" value={animation.width} min={100} max={4000} onChange={(w) => setAnimation({ ...animation, width: w })} />
+        <select
+          value={animation.format}
+          onChange={(e) => setAnimation({ ...animation, format: e.target.value as AnimationFormat })}
+          className="w-full px-1 py-0.5 bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map((f) => (
+            <option key={f} value={f}>{ANIMATION_FORMATS[f]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onExportAnimation(animation)}
+          disabled={isBusy}
+          className="w-full px-2 py-1 rounded font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Export animation
+        </button>
+      </div>
+
+      <p className={isBusy ? 'text-blue-600' : 'text-slate-400'}>
+        {progress ?? 'Exports the visible area with the coupler path, grid and labels. Frames are spread over the crank’s reachable range.'}
+      </p>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { FunctionSpec } from '../types';
+import { grashofType, GRASHOF_LABELS } from '../utils/classification';
+import { FunctionSynthesis } from '../utils/functionGeneration';
+
+interface FunctionGeneratorPanelProps {
+  spec: FunctionSpec;
+  onChange: (spec: FunctionSpec) => void;
+  result: FunctionSynthesis | null;
+  isLoaded: boolean; // A generator target is being compared in the charts
+  onLoad: () => void;
+  onClear: () => void;
+}
+
+const FIELDS: { key: keyof Omit<FunctionSpec, 'expression'>; label: string; step: number }[] = [
+  { key: 'xStart', label: 'x start', step: 0.1 },
+  { key: 'xEnd', label: 'x end', step: 0.1 },
+  { key: 'theta2Start', label: 'θ₂ start (°)', step: 1 },
+  { key: 'theta2Range', label: 'Δθ₂ (°)', step: 1 },
+  { key: 'theta4Start', label: 'θ₄ start (°)', step: 1 },
+  { key: 'theta4Range', label: 'Δθ₄ (°)', step: 1 },
+  { key: 'r1', label: 'Ground r₁', step: 0.1 },
+];
+
+const FunctionGeneratorPanel: React.FC<FunctionGeneratorPanelProps> = ({ spec, onChange, result, isLoaded, onLoad, onClear }) => {
+  const update = (key: keyof FunctionSpec, value: number | string) => onChange({ ...spec, [key]: value });
+  const grashof = result && grashofType(result.config, 1);
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <h4 className="font-bold text-slate-800 mb-3">Function Generation</h4>
+
+      <label className="block text-xs font-semibold text-slate-600 uppercase tracking-wider mb-1">y = f(x)</label>
+      <input
+        type="text"
+        value={spec.expression}
+        onChange={(e) => update('expression', e.target.value)}
+        className="w-full mb-3 px-2 py-1 text-sm bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+        placeholder="e.g. log10(x), x^2, sin(x)"
+      />
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 mb-3 text-xs">
+        {FIELDS.map(({ key, label, step }) => (
+          <label key={key} className="flex items-center justify-between gap-2">
+            <span>{label}</span>
+            <input
+              type="number"
+              step={step}
+              value={spec[key]}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (!isNaN(v)) update(key, v);
+              }}
+              className="w-16 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+            />
+          </label>
+        ))}
+        <label className="flex items-center justify-between gap-2">
+          <span>Points</span>
+          <input
+            type="number"
+            min={3}
+            max={12}
+            step={1}
+            value={spec.points}
+            onChange={(e) => {
+              const v = parseInt(e.target.value, 10);
+              if (!isNaN(v)) update('points', Math.min(12, Math.max(3, v)));
+            }}
+            className="w-16 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-slate-400 mb-3">
+        Chebyshev-spaced precision points; {spec.points === 3 ? 'solved exactly' : 'fitted by least squares'}.
+      </p>
+
+      {result ? (
+        <>
+          <table className="w-full text-xs mb-3 font-mono">
+            <thead>
+              <tr className="text-slate-400 font-sans">
+                <th className="text-left font-medium">x</th>
+                <th className="text-right font-medium">y</th>
+                <th className="text-right font-medium">θ₂</th>
+                <th className="text-right font-medium">θ₄</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.points.map((p, i) => (
+                <tr key={i}>
+                  <td>{p.x.toFixed(3)}</td>
+                  <td className="text-right">{p.y.toFixed(3)}</td>
+                  <td className="text-right">{p.theta2.toFixed(1)}°</td>
+                  <td className="text-right">{p.theta4.toFixed(1)}°</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ul className="space-y-1 text-xs mb-3">
+            <li className="flex justify-between">
+              <span>r₁ / r₂ / r₃ / r₄:</span>
+              <span className="font-mono">
+                {[result.config.r1, result.config.r2, result.config.r3, result.config.r4].map((r) => r.toFixed(3)).join(' / ')}
+              </span>
+            </li>
+            <li className="flex justify-between">
+              <span>Branch:</span>
+              <span>{result.assemblyMode === 1 ? 'Open' : 'Crossed'}</span>
+            </li>
+            {grashof && (
+              <li className="flex justify-between">
+                <span>Grashof Type:</span>
+                <span>{GRASHOF_LABELS[grashof.type]}</span>
+              </li>
+            )}
+            <li className="flex justify-between">
+              <span>Peak structural error:</span>
+              <span className="font-mono">{result.maxError.toFixed(3)}°</span>
+            </li>
+          </ul>
+          {!result.coversRange && (
+            <p className="text-xs text-amber-600 mb-2">The linkage does not assemble over the whole input range.</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={onLoad}
+              className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              Load into linkage
+            </button>
+            {isLoaded && (
+              <button
+                onClick={onClear}
+                className="py-2 px-3 rounded-md text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+                title="Stop comparing against the target function"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-red-600">
+          No real linkage: check that f(x) evaluates over the range and changes between its ends.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FunctionGeneratorPanel;
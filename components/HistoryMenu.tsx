@@ -0,0 +1,75 @@
+import React from 'react';
+import { EditHistory } from '../types';
+
+interface HistoryMenuProps {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void; // Number of entries to have applied
+  onClose: () => void;
+}
+
+// Changes listed per entry before the rest are summarized
+const SHOWN_CHANGES = 3;
+
+/**
+ * Popover listing the undo history, newest first, with the parameters each entry changed.
+ * Clicking an entry undoes or redoes up to it.
+ */
+const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, onUndo, onRedo, onJump, onClose }) => {
+  const { entries, index } = history;
+  const buttonClass =
+    'flex-1 px-2 py-1 rounded font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-50';
+  const rowClass = (i: number) =>
+    `w-full text-left px-2 py-1 rounded transition-colors ${
+      i === index ? 'bg-blue-50 text-blue-800' : i > index ? 'text-slate-400 hover:bg-slate-50' : 'hover:bg-slate-50'
+    }`;
+
+  return (
+    <div
+      className="absolute top-4 right-16 z-30 w-72 bg-white rounded-lg border border-slate-200 shadow-lg p-3 text-xs text-slate-600 space-y-3"
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-800">History</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">✕</button>
+      </div>
+
+      <div className="flex gap-1">
+        <button onClick={onUndo} disabled={index === 0} className={buttonClass} title="Ctrl+Z">Undo</button>
+        <button onClick={onRedo} disabled={index === entries.length} className={buttonClass} title="Ctrl+Shift+Z">Redo</button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-slate-400">Edits to the geometry, driver and assembly mode will be listed here.</p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto space-y-0.5">
+          {entries
+            .map((entry, i) => ({ entry, applied: i + 1 }))
+            .reverse()
+            .map(({ entry, applied }) => (
+              <li key={applied}>
+                <button onClick={() => onJump(applied)} className={rowClass(applied)}>
+                  <span className="float-right text-slate-400">{new Date(entry.time).toLocaleTimeString()}</span>
+                  {entry.changes.slice(0, SHOWN_CHANGES).map((c) => (
+                    <span key={c.param} className="block">
+                      {c.label} <span className="font-mono">{c.from} → {c.to}</span>
+                    </span>
+                  ))}
+                  {entry.changes.length > SHOWN_CHANGES && (
+                    <span className="block text-slate-400">and {entry.changes.length - SHOWN_CHANGES} more</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          <li>
+            <button onClick={() => onJump(0)} className={rowClass(0)}>Start</button>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryMenu;
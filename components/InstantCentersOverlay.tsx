@@ -0,0 +1,72 @@
+import React from 'react';
+import { InstantCenterId, InstantCenters, MechanismPose, Point } from '../types';
+
+interface InstantCentersOverlayProps {
+  pose: MechanismPose;
+  centers: InstantCenters;
+  fixedCentrode: Point[][] | null; // Hidden when null
+  movingCentrode: Point[][] | null; // Placed on the coupler in its current pose
+}
+
+export const INSTANT_CENTER_COLOR = '#0d9488';
+export const FIXED_CENTRODE_COLOR = '#475569';
+export const MOVING_CENTRODE_COLOR = '#0d9488';
+const STROKE = 0.03;
+const TEXT_SIZE = 0.2;
+
+export const INSTANT_CENTER_LABELS: Record<InstantCenterId, string> = {
+  I12: 'I₁₂',
+  I13: 'I₁₃',
+  I14: 'I₁₄',
+  I23: 'I₂₃',
+  I24: 'I₂₄',
+  I34: 'I₃₄',
+};
+
+const toPath = (runs: Point[][]) =>
+  runs.map((run) => run.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${(-p.y).toFixed(3)}`).join(' ')).join(' ');
+
+/**
+ * Canvas layer for Kennedy's construction: the six instant centers, dashed lines from the
+ * pin joints out to I13 and I24, and optionally the coupler's fixed and moving centrodes.
+ */
+const InstantCentersOverlay: React.FC<InstantCentersOverlayProps> = ({ pose, centers, fixedCentrode, movingCentrode }) => {
+  const { A_star, B_star, A, B } = pose;
+  const construction: [Point, Point][] = [];
+  if (centers.I13) construction.push([A_star, centers.I13], [B_star, centers.I13]);
+  if (centers.I24) construction.push([A_star, centers.I24], [B_star, centers.I24], [A, centers.I24], [B, centers.I24]);
+
+  return (
+    <g>
+      {fixedCentrode && (
+        <path d={toPath(fixedCentrode)} fill="none" stroke={FIXED_CENTRODE_COLOR} strokeWidth={STROKE * 2} strokeOpacity={0.6} strokeLinejoin="round" />
+      )}
+      {movingCentrode && (
+        <path d={toPath(movingCentrode)} fill="none" stroke={MOVING_CENTRODE_COLOR} strokeWidth={STROKE * 2} strokeOpacity={0.8} strokeLinejoin="round" />
+      )}
+      {construction.map(([p, q], i) => (
+        <line
+          key={i}
+          x1={p.x} y1={-p.y} x2={q.x} y2={-q.y}
+          stroke={INSTANT_CENTER_COLOR} strokeWidth={STROKE} strokeOpacity={0.6} strokeDasharray={`${STROKE * 3},${STROKE * 3}`}
+        />
+      ))}
+      {(Object.keys(INSTANT_CENTER_LABELS) as InstantCenterId[]).map((id) => {
+        const p = centers[id];
+        if (!p) return null;
+        return (
+          <g key={id}>
+            <circle cx={p.x} cy={-p.y} r={0.09} fill="none" stroke={INSTANT_CENTER_COLOR} strokeWidth={STROKE * 1.5} />
+            <text
+              x={p.x + 0.12} y={-p.y + 0.28}
+              fill={INSTANT_CENTER_COLOR} fontSize={TEXT_SIZE} fontFamily="sans-serif" fontWeight="bold"
+              className="select-none"
+            >{INSTANT_CENTER_LABELS[id]}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default InstantCentersOverlay;
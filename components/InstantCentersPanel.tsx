@@ -0,0 +1,111 @@
+import React from 'react';
+import { InstantCenterId, InstantCenters, LinkageSolution } from '../types';
+import { velocityRatioFromI24 } from '../utils/instantCenters';
+import { FIXED_CENTRODE_COLOR, INSTANT_CENTER_LABELS, MOVING_CENTRODE_COLOR } from './InstantCentersOverlay';
+
+interface InstantCentersPanelProps {
+  centers: InstantCenters | null; // Null when the linkage cannot assemble
+  solution: LinkageSolution;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  showCentrodes: boolean;
+  onShowCentrodesChange: (show: boolean) => void;
+}
+
+// Bodies each center joins: link 1 is the ground, 2 the crank, 3 the coupler, 4 the rocker
+const JOINS: Record<InstantCenterId, string> = {
+  I12: 'A*',
+  I14: 'B*',
+  I23: 'A',
+  I34: 'B',
+  I13: 'I₁₂I₂₃ × I₁₄I₃₄',
+  I24: 'I₁₂I₁₄ × I₂₃I₃₄',
+};
+
+const InstantCentersPanel: React.FC<InstantCentersPanelProps> = ({
+  centers,
+  solution,
+  showOverlay,
+  onShowOverlayChange,
+  showCentrodes,
+  onShowCentrodesChange,
+}) => {
+  const ratio = centers && velocityRatioFromI24(centers);
+  const solved = solution.omega4 / solution.omega2;
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Instant Centers</h4>
+        <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            onChange={(e) => onShowOverlayChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Show on canvas
+        </label>
+      </div>
+
+      {!centers ? (
+        <p className="text-xs text-slate-400">Instant centers need an assembled linkage.</p>
+      ) : (
+        <>
+          <table className="w-full text-xs font-mono mb-2">
+            <thead>
+              <tr className="text-slate-400 font-sans">
+                <th className="text-left font-medium" />
+                <th className="text-left font-medium">From</th>
+                <th className="text-right font-medium">x</th>
+                <th className="text-right font-medium">y</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(INSTANT_CENTER_LABELS) as InstantCenterId[]).map((id) => {
+                const p = centers[id];
+                return (
+                  <tr key={id}>
+                    <td className="font-sans font-medium pr-1">{INSTANT_CENTER_LABELS[id]}</td>
+                    <td className="font-sans text-slate-500">{JOINS[id]}</td>
+                    {p ? (
+                      <>
+                        <td className="text-right">{p.x.toFixed(3)}</td>
+                        <td className="text-right">{p.y.toFixed(3)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={2} className="text-right font-sans text-slate-400">at infinity</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex justify-between text-xs mb-3">
+            <span>ω₄/ω₂ from I₂₄ (solved):</span>
+            <span className="font-mono">
+              {ratio === null ? '-' : ratio.toFixed(4)} ({Number.isFinite(solved) ? solved.toFixed(4) : '-'})
+            </span>
+          </div>
+          <label className="flex items-center gap-1.5 text-xs cursor-pointer mb-2">
+            <input
+              type="checkbox"
+              checked={showCentrodes}
+              onChange={(e) => onShowCentrodesChange(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Show coupler centrodes
+          </label>
+          <p className="text-xs text-slate-400">
+            I₁₃ traces the <span style={{ color: FIXED_CENTRODE_COLOR }}>fixed centrode</span> on the ground and
+            the <span style={{ color: MOVING_CENTRODE_COLOR }}>moving centrode</span> on the coupler, which rolls on
+            it without slipping. A center at infinity means the two links it joins are translating relative to
+            each other.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InstantCentersPanel;
@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { GroundLink, LinkageConfig, LinkageSolution, MechanismPose, TrajectorySegment } from '../types';
+import { grashofType, GRASHOF_LABELS } from '../utils/classification';
+import { fixedJoints, INVERSION_LABELS, invertPose, poseFromSolution, poseFromTrajectoryPoint } from '../utils/inversion';
+
+interface InversionsPanelProps {
+  config: LinkageConfig;
+  solution: LinkageSolution;
+  trajectory: TrajectorySegment[];
+  groundLink: GroundLink;
+  onSelect: (ground: GroundLink) => void;
+}
+
+const INVERSIONS: GroundLink[] = [1, 2, 3, 4];
+
+const LINKS: { joints: [keyof MechanismPose, keyof MechanismPose]; color: string; link: GroundLink }[] = [
+  { joints: ['A_star', 'B_star'], color: '#64748b', link: 1 },
+  { joints: ['A_star', 'A'], color: '#3b82f6', link: 2 },
+  { joints: ['A', 'B'], color: '#a855f7', link: 3 },
+  { joints: ['B_star', 'B'], color: '#10b981', link: 4 },
+];
+
+/**
+ * Thumbnail of one inversion: the current pose and the coupler point path, both
+ * expressed in the frame of the grounded link and fitted to the cell.
+ */
+const InversionThumbnail: React.FC<{
+  config: LinkageConfig;
+  pose: MechanismPose | null;
+  trajectory: TrajectorySegment[];
+  ground: GroundLink;
+}> = ({ config, pose, trajectory, ground }) => {
+  const { path, viewBox, stroke } = useMemo(() => {
+    const poses = trajectory.flatMap((seg) => seg.points.map((pt) => invertPose(poseFromTrajectoryPoint(config, pt), ground)));
+    const xs = poses.flatMap((p) => [p.A_star.x, p.B_star.x, p.A.x, p.B.x, p.C.x]);
+    const ys = poses.flatMap((p) => [p.A_star.y, p.B_star.y, p.A.y, p.B.y, p.C.y]);
+    if (xs.length === 0) return { path: '', viewBox: '-1 -1 2 2', stroke: 0.02 };
+
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+    const size = Math.max(maxX - minX, maxY - minY) * 1.15 || 1;
+    const cx = (minX + maxX) / 2;
+    const cy = (minY + maxY) / 2;
+
+    let d = '';
+    let i = 0;
+    trajectory.forEach((seg) => {
+      seg.points.forEach((_, j) => {
+        const c = poses[i++].C;
+        d += `${j === 0 ? 'M' : 'L'} ${c.x.toFixed(3)} ${(-c.y).toFixed(3)} `;
+      });
+    });
+
+    return {
+      path: d,
+      viewBox: `${cx - size / 2} ${-cy - size / 2} ${size} ${size}`,
+      stroke: size / 80,
+    };
+  }, [config, trajectory, ground]);
+
+  const fixed = fixedJoints(ground);
+
+  return (
+    <svg viewBox={viewBox} className="w-full aspect-square bg-slate-50 rounded">
+      <path d={path} fill="none" stroke="#db2777" strokeWidth={stroke * 1.5} strokeOpacity={0.7} />
+      {pose && LINKS.map(({ joints: [p, q], color, link }) => (
+        <line
+          key={link}
+          x1={pose[p].x} y1={-pose[p].y}
+          x2={pose[q].x} y2={-pose[q].y}
+          stroke={link === ground ? '#94a3b8' : color}
+          strokeWidth={link === ground ? stroke : stroke * 2.5}
+          strokeDasharray={link === ground ? `${stroke * 3},${stroke * 3}` : undefined}
+          strokeLinecap="round"
+        />
+      ))}
+      {pose && fixed.map((j) => (
+        <circle key={j} cx={pose[j].x} cy={-pose[j].y} r={stroke * 3} fill="#1e293b" />
+      ))}
+      {pose && <circle cx={pose.C.x} cy={-pose.C.y} r={stroke * 2.5} fill="#ec4899" />}
+    </svg>
+  );
+};
+
+/**
+ * Side-by-side view of the four inversions of the current link set.
+ * Clicking a cell grounds that link in the main view.
+ */
+const InversionsPanel: React.FC<InversionsPanelProps> = ({ config, solution, trajectory, groundLink, onSelect }) => {
+  const basePose = solution.isValid ? poseFromSolution(config, solution) : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200">
+        <h3 className="text-sm font-bold text-slate-700">Kinematic Inversions</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-2 p-3">
+        {INVERSIONS.map((ground) => (
+          <button
+            key={ground}
+            onClick={() => onSelect(ground)}
+            className={`p-1.5 rounded-lg border text-left transition-colors ${
+              ground === groundLink ? 'border-blue-500 ring-1 ring-blue-500' : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <InversionThumbnail
+              config={config}
+              pose={basePose && invertPose(basePose, ground)}
+              trajectory={trajectory}
+              ground={ground}
+            />
+            <p className="text-[11px] font-semibold text-slate-700 mt-1">{INVERSION_LABELS[ground]}</p>
+            <p className="text-[10px] text-slate-500">{GRASHOF_LABELS[grashofType(config, ground).type]}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default InversionsPanel;
@@ -1,24 +1,126 @@
-import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { LinkageConfig, LinkageSolution, TrajectoryPoint } from '../types';
+import React, { useMemo, useState, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import {
+  AnimationExportOptions,
+  EditableJoint,
+  EditLocks,
+  GroundLink,
+  LinkageConfig,
+  LinkageSolution,
+  LockableDimension,
+  MechanismPose,
+  Point,
+  SixBarConfig,
+  SixBarType,
+  SliderPoint,
+  SliderType,
+  TrajectorySegment,
+  TransmissionLimits,
+  ViewBox,
+} from '../types';
+import { fixedJoints, INVERSION_LABELS, invertPose, poseFromSolution, poseFromTrajectoryPoint } from '../utils/inversion';
+import { JOINT_DIMENSIONS, snapToGrid } from '../utils/editing';
+import { downloadFile } from '../utils/download';
+import { encodeApng, ExportRegion, serializeSvg, svgToPng, zipFiles } from '../utils/imageExport';
+import { solveLinkage } from '../utils/math';
+import { solveSixBar } from '../utils/sixBar';
+import { solveSlider } from '../utils/slider';
+import { frameAngles } from '../utils/trajectory';
+import ExportMenu from './ExportMenu';
+import SliderLinkage from './SliderLinkage';
 
 interface LinkageCanvasProps {
   config: LinkageConfig;
   solution: LinkageSolution;
-  trajectory: TrajectoryPoint[];
+  trajectory: TrajectorySegment[];
+  transmissionLimits: TransmissionLimits;
+  groundLink: GroundLink;
+  viewBox: ViewBox; // Visible area in SVG coordinates, owned by the parent so designs can restore it
+  onViewBoxChange: (viewBox: ViewBox) => void;
+  overlay?: React.ReactNode; // Extra SVG content, drawn in canvas coordinates (y flipped)
+  onCanvasClick?: (point: Point) => void; // Clicks without a drag, in math coordinates
+  onJointDrag?: (joint: EditableJoint, point: Point, locks: EditLocks) => void; // Enables joint editing (original ground only)
+  sixBar?: { type: SixBarType; config: SixBarConfig }; // Second dyad, drawn on the original ground only
+  slider?: { type: SliderType; offset: number; assemblyMode: 1 | -1; cycle: SliderPoint[][] }; // Drawn instead of the four-bar
 }
 
-const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, trajectory }) => {
-  const { r1 } = config;
-  const { Ax, Ay, Bx, By, Cx, Cy, isValid } = solution;
+// Pointer travel (pixels) below which a press is treated as a click rather than a pan
+const CLICK_TOLERANCE = 4;
+// Grab radius around an editable joint (world units)
+const HANDLE_RADIUS = 0.25;
+
+const NO_LOCKS: EditLocks = { r1: false, r2: false, r3: false, r4: false, r6: false, beta: false };
+
+const DIMENSION_LABELS: Record<LockableDimension, string> = {
+  r1: 'r₁',
+  r2: 'r₂',
+  r3: 'r₃',
+  r4: 'r₄',
+  r6: 'r₆',
+  beta: 'β',
+};
+
+// Where each dimension's live readout sits while a joint is dragged
+const READOUT_SEGMENTS: Record<LockableDimension, [keyof MechanismPose, keyof MechanismPose]> = {
+  r1: ['A_star', 'B_star'],
+  r2: ['A_star', 'A'],
+  r3: ['A', 'B'],
+  r4: ['B_star', 'B'],
+  r6: ['A', 'C'],
+  beta: ['C', 'C'],
+};
+
+// Offset of a dimension callout from its link (world units)
+const CALLOUT_OFFSET = 0.4;
+const CALLOUT_DIMENSIONS: Exclude<LockableDimension, 'beta'>[] = ['r1', 'r2', 'r3', 'r4', 'r6'];
+
+const LinkageCanvas: React.FC<LinkageCanvasProps> = ({
+  config,
+  solution,
+  trajectory,
+  transmissionLimits,
+  groundLink,
+  viewBox,
+  onViewBoxChange,
+  overlay,
+  onCanvasClick,
+  onJointDrag,
+  sixBar,
+  slider,
+}) => {
+  // While an animation is exported, each frame replaces the live pose
+  const [frame, setFrame] = useState<{ config: LinkageConfig; solution: LinkageSolution } | null>(null);
+  const drawn = frame ?? { config, solution };
+  const sliderSolution = useMemo(
+    () => slider && solveSlider(slider.type, drawn.config, slider.offset, slider.assemblyMode),
+    [slider, drawn.config]
+  );
+  const { mu } = drawn.solution;
+  const isValid = sliderSolution ? sliderSolution.isValid : drawn.solution.isValid;
+  // Joint positions in the frame of the grounded link
+  const pose = useMemo(
+    () => invertPose(poseFromSolution(drawn.config, drawn.solution), groundLink),
+    [drawn.config.r1, drawn.config.groundX, drawn.config.groundY, drawn.config.theta1, drawn.solution, groundLink]
+  );
+  const fixed = fixedJoints(groundLink);
+  const sixBarSolution = useMemo(
+    () => (sixBar && groundLink === 1 ? solveSixBar(sixBar.type, drawn.config, drawn.solution, sixBar.config) : null),
+    [sixBar, groundLink, drawn.config, drawn.solution]
+  );
   const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
 
-  // View state: center x, center y, and zoom level (scale)
-  // Scale: pixels per unit.
-  // We'll manage viewBox directly: [minX, minY, width, height]
-  // Initial view: Centered around (1, 1) with width ~8 units
-  const [viewBox, setViewBox] = useState({ x: -2, y: -2, w: 8, h: 8 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const [draggedJoint, setDraggedJoint] = useState<EditableJoint | null>(null);
+  const [locks, setLocks] = useState<EditLocks>(NO_LOCKS);
+  const [snap, setSnap] = useState(true);
+  const [isExportOpen, setExportOpen] = useState(false);
+  const [showDimensions, setShowDimensions] = useState(false);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+  // Joints can only be edited in the original frame, where A* and B* are the fixed pivots
+  const isEditable = !!onJointDrag && groundLink === 1 && !onCanvasClick && !slider;
 
   // Coordinate transform: Math (y up) to SVG (y down)
   // We will perform the flip in the SVG rendering by negating Y values.
@@ -31,11 +133,21 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
     y: -y, 
   });
 
-  const A_star = toSvg(0, 0);
-  const B_star = toSvg(r1, 0);
-  const A = toSvg(Ax, Ay);
-  const B = toSvg(Bx, By);
-  const C = toSvg(Cx, Cy);
+  const A_star = toSvg(pose.A_star.x, pose.A_star.y);
+  const B_star = toSvg(pose.B_star.x, pose.B_star.y);
+  const A = toSvg(pose.A.x, pose.A.y);
+  const B = toSvg(pose.B.x, pose.B.y);
+  const C = toSvg(pose.C.x, pose.C.y);
+  const jointSvg = { A_star, B_star, A, B, C };
+  const [ground1, ground2] = fixed.map((j) => jointSvg[j]);
+  const isFixed = (joint: keyof typeof jointSvg) => fixed.includes(joint);
+  const dyad = sixBar && sixBarSolution && {
+    D: toSvg(sixBarSolution.D.x, sixBarSolution.D.y),
+    F: toSvg(sixBarSolution.F.x, sixBarSolution.F.y),
+    E_star: toSvg(sixBarSolution.E_star.x, sixBarSolution.E_star.y),
+    isWatt: sixBar.type === 'watt2',
+    isValid: sixBarSolution.isValid,
+  };
 
   // Visual constants (in world units)
   // Adjusted for better visibility at 5x zoom
@@ -48,14 +160,40 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
   const TEXT_SIZE = 0.25;
   const LABEL_OFFSET = 0.3;
 
-  // Generate path string for trajectory
+  // Generate path string for trajectory, one subpath per segment so gaps stay open
   const trajectoryPath = useMemo(() => {
-    if (trajectory.length === 0) return '';
-    return trajectory.map((pt, i) => {
-      const coord = toSvg(pt.Cx, pt.Cy);
-      return `${i === 0 ? 'M' : 'L'} ${coord.x.toFixed(3)} ${coord.y.toFixed(3)}`;
+    return trajectory.map(({ points, closed }) => {
+      const d = points.map((pt, i) => {
+        const c = groundLink === 1 ? { x: pt.Cx, y: pt.Cy } : invertPose(poseFromTrajectoryPoint(config, pt), groundLink).C;
+        const coord = toSvg(c.x, c.y);
+        return `${i === 0 ? 'M' : 'L'} ${coord.x.toFixed(3)} ${coord.y.toFixed(3)}`;
+      }).join(' ');
+      return closed ? `${d} Z` : d;
     }).join(' ');
-  }, [trajectory]);
+  }, [trajectory, groundLink, config.r1, config.r2, config.r3, config.groundX, config.groundY, config.theta1]);
+
+  // Transmission angle arc at B, swept from BA to BB* (math coords, CCW positive)
+  const MU_ARC_RADIUS = 0.45;
+  const muOutOfRange = mu < transmissionLimits.min || mu > transmissionLimits.max;
+  const muColor = muOutOfRange ? '#ef4444' : '#0ea5e9';
+  const muArc = useMemo(() => {
+    if (!isValid) return null;
+    const { x: Bx, y: By } = pose.B;
+    const toA = Math.atan2(pose.A.y - By, pose.A.x - Bx);
+    const toBStar = Math.atan2(pose.B_star.y - By, pose.B_star.x - Bx);
+    // Sweep the short way (μ ≤ 180°) from BA towards BB*
+    let sweep = toBStar - toA;
+    while (sweep <= -Math.PI) sweep += 2 * Math.PI;
+    while (sweep > Math.PI) sweep -= 2 * Math.PI;
+    const start = toSvg(Bx + MU_ARC_RADIUS * Math.cos(toA), By + MU_ARC_RADIUS * Math.sin(toA));
+    const end = toSvg(Bx + MU_ARC_RADIUS * Math.cos(toA + sweep), By + MU_ARC_RADIUS * Math.sin(toA + sweep));
+    const mid = toA + sweep / 2;
+    // Y is flipped in SVG, so a CCW sweep in math coords is sweep-flag 0
+    return {
+      d: `M ${B.x} ${B.y} L ${start.x} ${start.y} A ${MU_ARC_RADIUS} ${MU_ARC_RADIUS} 0 0 ${sweep > 0 ? 0 : 1} ${end.x} ${end.y} Z`,
+      label: toSvg(Bx + (MU_ARC_RADIUS + 0.25) * Math.cos(mid), By + (MU_ARC_RADIUS + 0.25) * Math.sin(mid)),
+    };
+  }, [pose, isValid]);
 
   // --- Interaction Handlers ---
 
@@ -77,20 +215,40 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
     const dx = (viewBox.w - newW) / 2;
     const dy = (viewBox.h - newH) / 2;
 
-    setViewBox(prev => ({
-      x: prev.x + dx,
-      y: prev.y + dy,
+    onViewBoxChange({
+      x: viewBox.x + dx,
+      y: viewBox.y + dy,
       w: newW,
       h: newH
-    }));
+    });
+  };
+
+  const toMath = (clientX: number, clientY: number): Point | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const p = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: p.x, y: -p.y };
+  };
+
+  // Pressing a joint drags it; Shift-drag pans from anywhere
+  const handleJointMouseDown = (joint: EditableJoint) => (e: React.MouseEvent) => {
+    if (e.shiftKey) return;
+    e.stopPropagation();
+    setDraggedJoint(joint);
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     setIsDragging(true);
     setDragStart({ x: e.clientX, y: e.clientY });
+    pressRef.current = { x: e.clientX, y: e.clientY };
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (draggedJoint && onJointDrag) {
+      const p = toMath(e.clientX, e.clientY);
+      if (p) onJointDrag(draggedJoint, snap ? snapToGrid(p) : p, locks);
+      return;
+    }
     if (!isDragging) return;
     
     // Calculate delta in pixels
@@ -110,38 +268,127 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
       // or move camera up (decrease min-y) to see higher elements?
       // Standard drag-pan: Mouse moves right, we want to see left content -> shift viewBox left (decrease x)
       
-      setViewBox(prev => ({
-        ...prev,
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
+      onViewBoxChange({
+        ...viewBox,
+        x: viewBox.x + dx,
+        y: viewBox.y + dy
+      });
       
       setDragStart({ x: e.clientX, y: e.clientY });
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
     setIsDragging(false);
+    setDraggedJoint(null);
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (!onCanvasClick || !press || e.type !== 'mouseup') return;
+    if (Math.hypot(e.clientX - press.x, e.clientY - press.y) > CLICK_TOLERANCE) return;
+
+    const p = toMath(e.clientX, e.clientY);
+    if (p) onCanvasClick(p);
+  };
+
+  const readout = (dimension: LockableDimension) => {
+    const value = dimension === 'beta' ? `${config.beta.toFixed(1)}°` : config[dimension].toFixed(2);
+    const extra = dimension === 'r2' ? `, θ₂ ${solution.theta2.toFixed(1)}°` : '';
+    return `${DIMENSION_LABELS[dimension]} ${value}${extra}${locks[dimension] ? ' 🔒' : ''}`;
   };
 
   const resetView = () => {
-     setViewBox({ x: -2, y: -4, w: 8, h: 8 }); // Y starts at -4 to show positive Y area (since SVG Y is flipped)
+     // Y starts at -4 to show positive Y area (since SVG Y is flipped); follows the first fixed pivot
+     onViewBoxChange({ x: ground1.x - 2, y: ground1.y - 4, w: 8, h: 8 });
+  };
+
+  // The part of the drawing currently on screen, which the container may show beyond the view box
+  const exportRegion = (): { region: ExportRegion; aspect: number } | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !(rect.width > 0) || !(rect.height > 0)) return null;
+    const scale = Math.min(rect.width / viewBox.w, rect.height / viewBox.h);
+    const w = rect.width / scale;
+    const h = rect.height / scale;
+    return { region: { x: viewBox.x - (w - viewBox.w) / 2, y: viewBox.y - (h - viewBox.h) / 2, w, h }, aspect: h / w };
+  };
+
+  const exportSvg = () => {
+    const view = exportRegion();
+    if (!svgRef.current || !view) return;
+    const width = 1000;
+    const markup = serializeSvg(svgRef.current, view.region, width, Math.round(width * view.aspect));
+    downloadFile('linkage.svg', markup, 'image/svg+xml');
+  };
+
+  const exportPng = async (width: number) => {
+    const view = exportRegion();
+    if (!svgRef.current || !view) return;
+    const height = Math.round(width * view.aspect);
+    setExportProgress('Rendering PNG…');
+    try {
+      const png = await svgToPng(serializeSvg(svgRef.current, view.region, width, height), width, height);
+      downloadFile('linkage.png', png, 'image/png');
+      setExportProgress(null);
+    } catch (err) {
+      setExportProgress(`PNG export failed: ${(err as Error).message}`);
+    }
   };
 
-  // On mount, set initial view that makes sense (Math (0,0) is center, Y up)
-  // SVG (0,0) is top-left.
-  // We render A* at (0,0) svg.
-  // We want A* to be visible.
-  // ViewBox: minX, minY, w, h
-  // If minX=-4, w=8, X range is [-4, 4].
-  // If minY=-4, h=8, Y range is [-4, 4].
-  // Rendered A* is (0,0). So it is centered.
-  useEffect(() => {
-      // Set initial view centered on the mechanism roughly
-      // Mechanism is mostly in Quadrant 1 (x>0, y>0 math) -> (x>0, y<0 svg)
-      // So let's center around x=2, y=-2 (svg)
-      setViewBox({ x: -2, y: -6, w: 8, h: 8 });
-  }, []);
+  // Steps the crank through the frames, drawing each synchronously before capturing it
+  const exportAnimation = async ({ frames, format, fps, width }: AnimationExportOptions) => {
+    const view = exportRegion();
+    if (!svgRef.current || !view) return;
+    const height = Math.round(width * view.aspect);
+    const assemblyMode = solution.mode === 'open' ? 1 : -1;
+    // A slider mechanism's crank is stepped through a whole turn, frames that cannot assemble included
+    const angles = slider ? Array.from({ length: frames }, (_, i) => (360 * i) / frames) : frameAngles(config, frames);
+    if (angles.length === 0) {
+      setExportProgress('The crank cannot move: no frames to export.');
+      return;
+    }
+
+    const images: Uint8Array[] = [];
+    try {
+      for (const [i, theta2] of angles.entries()) {
+        setExportProgress(`Rendering frame ${i + 1} of ${angles.length}…`);
+        const frameConfig: LinkageConfig = { ...config, driver: 'crank', theta2 };
+        flushSync(() => setFrame({ config: frameConfig, solution: solveLinkage(frameConfig, assemblyMode) }));
+        const svg = svgRef.current;
+        if (!svg) throw new Error('Canvas is gone');
+        images.push(await svgToPng(serializeSvg(svg, view.region, width, height), width, height));
+      }
+    } catch (err) {
+      setFrame(null);
+      setExportProgress(`Animation export failed: ${(err as Error).message}`);
+      return;
+    }
+    setFrame(null);
+
+    if (format === 'apng') {
+      downloadFile('linkage.png', encodeApng(images, 1000 / fps), 'image/apng');
+    } else {
+      const digits = String(images.length).length;
+      const files = images.map((data, i) => ({ name: `frame-${String(i + 1).padStart(digits, '0')}.png`, data }));
+      downloadFile('linkage-frames.zip', zipFiles(files), 'application/zip');
+    }
+    setExportProgress(null);
+  };
+
+  // Dimension callouts: a line parallel to each link, offset to one side, labelled with its length
+  const callouts = showDimensions
+    ? CALLOUT_DIMENSIONS.flatMap((d) => {
+        const [p, q] = READOUT_SEGMENTS[d];
+        const a = jointSvg[p];
+        const b = jointSvg[q];
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
+        if (!(len > 0)) return [];
+        const n = { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+        const at = (pt: Point, k: number) => ({ x: pt.x + n.x * k, y: pt.y + n.y * k });
+        const label = `${DIMENSION_LABELS[d]} = ${drawn.config[d].toFixed(2)}${
+          d === 'r6' ? `, β = ${drawn.config.beta.toFixed(1)}°` : ''
+        }`;
+        return [{ d, a, b, from: at(a, CALLOUT_OFFSET), to: at(b, CALLOUT_OFFSET), text: at({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, CALLOUT_OFFSET + 0.15), label }];
+      })
+    : [];
 
   return (
     <div 
@@ -156,10 +403,66 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
        <div className="absolute top-4 left-4 z-10 flex flex-col gap-2 pointer-events-none">
          <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-md border border-slate-200 shadow-sm">
            <p className="text-xs font-mono text-slate-500 mb-1">Grid: 0.1 units</p>
-           <p className="text-xs text-slate-400">Scroll to Zoom • Drag to Pan</p>
+           <p className="text-xs text-slate-400">
+             {isEditable ? 'Scroll to Zoom • Drag joints to edit • Drag empty space or Shift-drag to Pan' : 'Scroll to Zoom • Drag to Pan'}
+           </p>
+           {onCanvasClick && (
+             <p className="text-xs font-semibold text-blue-600 mt-1">Click to place</p>
+           )}
+           {groundLink !== 1 && (
+             <p className="text-xs font-semibold text-amber-600 mt-1">Inversion: {INVERSION_LABELS[groundLink]}</p>
+           )}
          </div>
        </div>
        
+       {isEditable && (
+         <div
+           className="absolute bottom-4 left-4 z-10 flex items-center gap-1 bg-white/90 backdrop-blur px-2 py-1.5 rounded-md border border-slate-200 shadow-sm text-xs"
+           onMouseDown={(e) => e.stopPropagation()}
+         >
+           <button
+             onClick={() => setSnap(!snap)}
+             className={`px-2 py-0.5 rounded font-medium transition-colors ${snap ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+             title="Snap dragged joints to the 0.1 grid"
+           >
+             Snap
+           </button>
+           <span className="text-slate-400 ml-1">Lock:</span>
+           {(Object.keys(DIMENSION_LABELS) as LockableDimension[]).map((d) => (
+             <button
+               key={d}
+               onClick={() => setLocks({ ...locks, [d]: !locks[d] })}
+               className={`px-1.5 py-0.5 rounded font-mono transition-colors ${locks[d] ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+               title={`Keep ${DIMENSION_LABELS[d]} fixed while dragging`}
+             >
+               {DIMENSION_LABELS[d]}
+             </button>
+           ))}
+         </div>
+       )}
+
+       <button
+         onClick={() => setExportOpen(!isExportOpen)}
+         onMouseDown={(e) => e.stopPropagation()}
+         className={`absolute bottom-4 right-16 z-10 shadow-sm border p-2 rounded-full transition-colors ${
+           isExportOpen ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'
+         }`}
+         title="Export Drawing"
+       >
+         <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>
+       </button>
+       {isExportOpen && (
+         <ExportMenu
+           showDimensions={showDimensions}
+           onShowDimensionsChange={setShowDimensions}
+           onExportSvg={exportSvg}
+           onExportPng={exportPng}
+           onExportAnimation={exportAnimation}
+           progress={exportProgress}
+           onClose={() => setExportOpen(false)}
+         />
+       )}
+
        <button 
          onClick={resetView}
          className="absolute bottom-4 right-4 z-10 bg-white shadow-sm border border-slate-200 p-2 rounded-full hover:bg-slate-50 text-slate-500"
@@ -168,17 +471,18 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/></svg>
        </button>
 
-      {!isValid && (
+      {(!isValid || sixBarSolution?.isValid === false) && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
             <div className="bg-red-50/80 backdrop-blur px-4 py-2 rounded-lg border border-red-200 text-red-600 text-sm font-semibold shadow-sm">
-                Mechanism assembly broken
+                {isValid ? 'Second loop cannot assemble' : 'Mechanism assembly broken'}
             </div>
         </div>
       )}
 
       <svg
+        ref={svgRef}
         viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.w} ${viewBox.h}`}
-        className={`w-full h-full ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+        className={`w-full h-full ${draggedJoint ? 'cursor-move' : isDragging ? 'cursor-grabbing' : onCanvasClick ? 'cursor-crosshair' : 'cursor-grab'}`}
         preserveAspectRatio="xMidYMid meet"
       >
         <defs>
@@ -200,106 +504,238 @@ const LinkageCanvas: React.FC<LinkageCanvasProps> = ({ config, solution, traject
         <line x1="-0.2" y1="0" x2="0.2" y2="0" stroke="#cbd5e1" strokeWidth={STROKE_THIN} />
         <line x1="0" y1="-0.2" x2="0" y2="0.2" stroke="#cbd5e1" strokeWidth={STROKE_THIN} />
 
-        {/* Ground Line */}
-        <line 
-          x1={A_star.x} y1={A_star.y} 
-          x2={B_star.x} y2={B_star.y} 
-          stroke="#94a3b8" 
-          strokeWidth={STROKE_THIN} 
-          strokeLinecap="round" 
-          strokeDasharray={`${STROKE_THICK},${STROKE_THICK}`} 
-        />
-
-        {/* Trajectory */}
-        <path 
-          d={trajectoryPath} 
-          fill="none" 
-          stroke="#db2777" 
-          strokeWidth={0.12} 
-          strokeOpacity="0.8" 
-          strokeLinecap="round" 
-          strokeLinejoin="round"
-        />
-
-        {/* Link 2 (Crank) */}
-        <line 
-          x1={A_star.x} y1={A_star.y} 
-          x2={A.x} y2={A.y} 
-          stroke="#3b82f6" 
-          strokeWidth={STROKE_THICK} 
-          strokeLinecap="round" 
-        />
-
-        {/* Link 3 (Coupler) including triangle to C */}
-        <path 
-          d={`M ${A.x} ${A.y} L ${B.x} ${B.y} L ${C.x} ${C.y} Z`} 
-          fill="rgba(168, 85, 247, 0.1)" 
-          stroke="none" 
-        />
-        <line 
-          x1={A.x} y1={A.y} 
-          x2={B.x} y2={B.y} 
-          stroke="#a855f7" 
-          strokeWidth={STROKE_THICK} 
-          strokeLinecap="round" 
-        />
-        <line 
-          x1={A.x} y1={A.y} 
-          x2={C.x} y2={C.y} 
-          stroke="#a855f7" 
-          strokeWidth={STROKE_MED} 
-          strokeDasharray={`${STROKE_MED},${STROKE_MED}`} 
-        />
-        <line 
-          x1={B.x} y1={B.y} 
-          x2={C.x} y2={C.y} 
-          stroke="#a855f7" 
-          strokeWidth={STROKE_MED} 
-          strokeDasharray={`${STROKE_MED},${STROKE_MED}`} 
-        />
+        {slider && sliderSolution ? (
+          <SliderLinkage type={slider.type} config={drawn.config} solution={sliderSolution} cycle={slider.cycle} />
+        ) : (
+          <>
+          {/* Ground Line (whichever link is held fixed) */}
+          <line 
+            x1={ground1.x} y1={ground1.y} 
+            x2={ground2.x} y2={ground2.y} 
+            stroke="#94a3b8" 
+            strokeWidth={STROKE_THIN} 
+            strokeLinecap="round" 
+            strokeDasharray={`${STROKE_THICK},${STROKE_THICK}`} 
+          />
+
+          {/* Trajectory */}
+          <path 
+            d={trajectoryPath} 
+            fill="none" 
+            stroke="#db2777" 
+            strokeWidth={0.12} 
+            strokeOpacity="0.8" 
+            strokeLinecap="round" 
+            strokeLinejoin="round"
+          />
+
+          {/* Link 1 (Original ground), moving in an inversion */}
+          {groundLink !== 1 && (
+            <line 
+              x1={A_star.x} y1={A_star.y} 
+              x2={B_star.x} y2={B_star.y} 
+              stroke="#64748b" 
+              strokeWidth={STROKE_THICK} 
+              strokeLinecap="round" 
+            />
+          )}
+
+          {/* Link 2 (Crank) */}
+          {groundLink !== 2 && (
+            <line 
+              x1={A_star.x} y1={A_star.y} 
+              x2={A.x} y2={A.y} 
+              stroke="#3b82f6" 
+              strokeWidth={STROKE_THICK} 
+              strokeLinecap="round" 
+            />
+          )}
+
+          {/* Link 3 (Coupler) including triangle to C */}
+          <path 
+            d={`M ${A.x} ${A.y} L ${B.x} ${B.y} L ${C.x} ${C.y} Z`} 
+            fill="rgba(168, 85, 247, 0.1)" 
+            stroke="none" 
+          />
+          {groundLink !== 3 && (
+            <line 
+              x1={A.x} y1={A.y} 
+              x2={B.x} y2={B.y} 
+              stroke="#a855f7" 
+              strokeWidth={STROKE_THICK} 
+              strokeLinecap="round" 
+            />
+          )}
+          <line 
+            x1={A.x} y1={A.y} 
+            x2={C.x} y2={C.y} 
+            stroke="#a855f7" 
+            strokeWidth={STROKE_MED} 
+            strokeDasharray={`${STROKE_MED},${STROKE_MED}`} 
+          />
+          <line 
+            x1={B.x} y1={B.y} 
+            x2={C.x} y2={C.y} 
+            stroke="#a855f7" 
+            strokeWidth={STROKE_MED} 
+            strokeDasharray={`${STROKE_MED},${STROKE_MED}`} 
+          />
         
-        {/* Link 4 (Output) */}
-        <line 
-          x1={B_star.x} y1={B_star.y} 
-          x2={B.x} y2={B.y} 
-          stroke="#10b981" 
-          strokeWidth={STROKE_THICK} 
-          strokeLinecap="round" 
-        />
-
-        {/* Joints */}
-        <circle cx={A_star.x} cy={A_star.y} r={JOINT_RADIUS_FIXED} fill="#1e293b" /> 
-        <circle cx={B_star.x} cy={B_star.y} r={JOINT_RADIUS_FIXED} fill="#1e293b" /> 
-        <circle cx={A.x} cy={A.y} r={JOINT_RADIUS_MOVING} fill="white" stroke="#3b82f6" strokeWidth={STROKE_THIN} /> 
-        <circle cx={B.x} cy={B.y} r={JOINT_RADIUS_MOVING} fill="white" stroke="#10b981" strokeWidth={STROKE_THIN} /> 
-        <circle cx={C.x} cy={C.y} r={JOINT_RADIUS_TRACE} fill="#ec4899" stroke="white" strokeWidth={STROKE_THIN / 2} /> 
-
-        {/* Labels - scaling factor applied to keep them readable but positioned correctly */}
-        <text 
-          x={A_star.x - LABEL_OFFSET} y={A_star.y + LABEL_OFFSET} 
-          fill="#64748b" fontSize={TEXT_SIZE} fontFamily="sans-serif"
-          className="select-none"
-        >A*</text>
-        <text 
-          x={B_star.x + LABEL_OFFSET/2} y={B_star.y + LABEL_OFFSET} 
-          fill="#64748b" fontSize={TEXT_SIZE} fontFamily="sans-serif"
-          className="select-none"
-        >B*</text>
-        <text 
-          x={A.x - LABEL_OFFSET/2} y={A.y - LABEL_OFFSET/2} 
-          fill="#2563eb" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
-          className="select-none"
-        >A</text>
-        <text 
-          x={B.x + LABEL_OFFSET/2} y={B.y - LABEL_OFFSET/2} 
-          fill="#059669" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
-          className="select-none"
-        >B</text>
-        <text 
-          x={C.x + LABEL_OFFSET/2} y={C.y} 
-          fill="#db2777" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
-          className="select-none"
-        >C</text>
+          {/* Link 4 (Output) */}
+          {groundLink !== 4 && (
+            <line 
+              x1={B_star.x} y1={B_star.y} 
+              x2={B.x} y2={B.y} 
+              stroke="#10b981" 
+              strokeWidth={STROKE_THICK} 
+              strokeLinecap="round" 
+            />
+          )}
+
+          {/* Second dyad of a six-bar: link 5 from D (on link 4) or C to F, link 6 from E* to F */}
+          {dyad && (
+            <g>
+              {dyad.isWatt && isValid && (
+                <>
+                  <path d={`M ${B_star.x} ${B_star.y} L ${B.x} ${B.y} L ${dyad.D.x} ${dyad.D.y} Z`} fill="rgba(16, 185, 129, 0.1)" stroke="none" />
+                  <line x1={B_star.x} y1={B_star.y} x2={dyad.D.x} y2={dyad.D.y} stroke="#10b981" strokeWidth={STROKE_THICK} strokeLinecap="round" />
+                  <line
+                    x1={B.x} y1={B.y} x2={dyad.D.x} y2={dyad.D.y}
+                    stroke="#10b981" strokeWidth={STROKE_MED} strokeDasharray={`${STROKE_MED},${STROKE_MED}`}
+                  />
+                </>
+              )}
+              {dyad.isValid && (
+                <>
+                  <line x1={dyad.D.x} y1={dyad.D.y} x2={dyad.F.x} y2={dyad.F.y} stroke="#f97316" strokeWidth={STROKE_THICK} strokeLinecap="round" />
+                  <line x1={dyad.E_star.x} y1={dyad.E_star.y} x2={dyad.F.x} y2={dyad.F.y} stroke="#0d9488" strokeWidth={STROKE_THICK} strokeLinecap="round" />
+                  <circle cx={dyad.F.x} cy={dyad.F.y} r={JOINT_RADIUS_MOVING} fill="white" stroke="#0d9488" strokeWidth={STROKE_THIN} />
+                  <text
+                    x={dyad.F.x + LABEL_OFFSET / 2} y={dyad.F.y - LABEL_OFFSET / 2}
+                    fill="#0f766e" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
+                    className="select-none"
+                  >F</text>
+                </>
+              )}
+              {dyad.isWatt && isValid && (
+                <>
+                  <circle cx={dyad.D.x} cy={dyad.D.y} r={JOINT_RADIUS_MOVING} fill="white" stroke="#f97316" strokeWidth={STROKE_THIN} />
+                  <text
+                    x={dyad.D.x + LABEL_OFFSET / 2} y={dyad.D.y - LABEL_OFFSET / 2}
+                    fill="#059669" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
+                    className="select-none"
+                  >D</text>
+                </>
+              )}
+              <circle cx={dyad.E_star.x} cy={dyad.E_star.y} r={JOINT_RADIUS_FIXED} fill="#1e293b" />
+              <text
+                x={dyad.E_star.x + LABEL_OFFSET / 2} y={dyad.E_star.y + LABEL_OFFSET}
+                fill="#64748b" fontSize={TEXT_SIZE} fontFamily="sans-serif"
+                className="select-none"
+              >E*</text>
+            </g>
+          )}
+
+          {/* Transmission Angle μ */}
+          {muArc && (
+            <g>
+              <path d={muArc.d} fill={muColor} fillOpacity={0.15} stroke={muColor} strokeWidth={STROKE_THIN} />
+              <text
+                x={muArc.label.x} y={muArc.label.y}
+                fill={muColor} fontSize={TEXT_SIZE * 0.8} fontFamily="sans-serif"
+                textAnchor="middle" dominantBaseline="middle"
+                className="select-none"
+              >μ {mu.toFixed(0)}°</text>
+            </g>
+          )}
+
+          {/* Joints */}
+          {([['A_star', '#64748b'], ['B_star', '#64748b'], ['A', '#3b82f6'], ['B', '#10b981']] as const).map(([joint, color]) => (
+            isFixed(joint)
+              ? <circle key={joint} cx={jointSvg[joint].x} cy={jointSvg[joint].y} r={JOINT_RADIUS_FIXED} fill="#1e293b" />
+              : <circle key={joint} cx={jointSvg[joint].x} cy={jointSvg[joint].y} r={JOINT_RADIUS_MOVING} fill="white" stroke={color} strokeWidth={STROKE_THIN} />
+          ))}
+          <circle cx={C.x} cy={C.y} r={JOINT_RADIUS_TRACE} fill="#ec4899" stroke="white" strokeWidth={STROKE_THIN / 2} /> 
+
+          {/* Labels - scaling factor applied to keep them readable but positioned correctly */}
+          <text 
+            x={A_star.x - LABEL_OFFSET} y={A_star.y + LABEL_OFFSET} 
+            fill="#64748b" fontSize={TEXT_SIZE} fontFamily="sans-serif"
+            className="select-none"
+          >A*</text>
+          <text 
+            x={B_star.x + LABEL_OFFSET/2} y={B_star.y + LABEL_OFFSET} 
+            fill="#64748b" fontSize={TEXT_SIZE} fontFamily="sans-serif"
+            className="select-none"
+          >B*</text>
+          <text 
+            x={A.x - LABEL_OFFSET/2} y={A.y - LABEL_OFFSET/2} 
+            fill="#2563eb" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
+            className="select-none"
+          >A</text>
+          <text 
+            x={B.x + LABEL_OFFSET/2} y={B.y - LABEL_OFFSET/2} 
+            fill="#059669" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
+            className="select-none"
+          >B</text>
+          <text 
+            x={C.x + LABEL_OFFSET/2} y={C.y} 
+            fill="#db2777" fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif"
+            className="select-none"
+          >C</text>
+
+          {callouts.map(({ d, a, b, from, to, text, label }) => (
+            <g key={d} stroke="#475569" strokeWidth={STROKE_THIN / 2}>
+              <line x1={a.x} y1={a.y} x2={from.x} y2={from.y} strokeDasharray={`${STROKE_THIN},${STROKE_THIN}`} />
+              <line x1={b.x} y1={b.y} x2={to.x} y2={to.y} strokeDasharray={`${STROKE_THIN},${STROKE_THIN}`} />
+              <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} />
+              <circle cx={from.x} cy={from.y} r={STROKE_THIN} fill="#475569" />
+              <circle cx={to.x} cy={to.y} r={STROKE_THIN} fill="#475569" />
+              <text
+                x={text.x} y={text.y}
+                fill="#1e293b" stroke="white" strokeWidth={STROKE_THIN * 2} paintOrder="stroke"
+                fontSize={TEXT_SIZE * 0.7} fontFamily="sans-serif" textAnchor="middle" dominantBaseline="middle"
+                className="select-none"
+              >
+                {label}
+              </text>
+            </g>
+          ))}
+          </>
+        )}
+
+        {/* The overlay shows live state, so it is left out of animation frames */}
+        {!frame && overlay}
+
+        {/* Drag handles and live readouts of the dimensions being edited */}
+        {isEditable && isValid && (['B_star', 'A', 'B', 'C'] as const).map((joint) => (
+          <circle
+            key={joint}
+            data-export-skip
+            cx={jointSvg[joint].x}
+            cy={jointSvg[joint].y}
+            r={HANDLE_RADIUS}
+            fill={draggedJoint === joint ? 'rgba(59, 130, 246, 0.15)' : 'transparent'}
+            className="cursor-move"
+            onMouseDown={handleJointMouseDown(joint)}
+          />
+        ))}
+        {draggedJoint && JOINT_DIMENSIONS[draggedJoint].map((d) => {
+          const [p, q] = READOUT_SEGMENTS[d];
+          const at = { x: (pose[p].x + pose[q].x) / 2, y: (pose[p].y + pose[q].y) / 2 + (d === 'beta' ? -LABEL_OFFSET : 0) };
+          return (
+            <text
+              key={d}
+              data-export-skip
+              x={at.x} y={-at.y - LABEL_OFFSET / 2}
+              fill="#1e293b" stroke="white" strokeWidth={STROKE_THIN * 2} paintOrder="stroke"
+              fontSize={TEXT_SIZE * 0.8} fontFamily="sans-serif" textAnchor="middle"
+              className="select-none pointer-events-none"
+            >
+              {readout(d)}
+            </text>
+          );
+        })}
       </svg>
     </div>
   );
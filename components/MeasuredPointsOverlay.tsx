@@ -0,0 +1,26 @@
+import React from 'react';
+import { Point } from '../types';
+
+interface MeasuredPointsOverlayProps {
+  points: Point[];
+}
+
+const MEASURED_COLOR = '#0d9488';
+const STROKE = 0.025;
+const MARK = 0.07;
+
+/**
+ * Canvas layer marking imported measured coupler points with small diagonal crosses.
+ */
+const MeasuredPointsOverlay: React.FC<MeasuredPointsOverlayProps> = ({ points }) => (
+  <g stroke={MEASURED_COLOR} strokeWidth={STROKE}>
+    {points.map((p, i) => (
+      <g key={i}>
+        <line x1={p.x - MARK} y1={-p.y - MARK} x2={p.x + MARK} y2={-p.y + MARK} />
+        <line x1={p.x - MARK} y1={-p.y + MARK} x2={p.x + MARK} y2={-p.y - MARK} />
+      </g>
+    ))}
+  </g>
+);
+
+export default MeasuredPointsOverlay;
@@ -0,0 +1,189 @@
+import React from 'react';
+import { PathOptimizerProgress, PathTarget } from '../types';
+import { PathDesign, PathFit } from '../utils/pathSynthesis';
+
+interface PathSynthesisPanelProps {
+  targets: PathTarget[];
+  onTargetsChange: (targets: PathTarget[]) => void;
+  isPlacing: boolean;
+  onTogglePlacing: () => void;
+  fit: PathFit | null; // Fit of the optimized design, or of the current linkage
+  result: { progress: PathOptimizerProgress; design: PathDesign } | null;
+  isRunning: boolean;
+  message: string | null;
+  onOptimize: () => void;
+  onCancel: () => void;
+  onLoad: () => void;
+  onDiscard: () => void;
+}
+
+const cellInput = 'w-full min-w-0 px-1.5 py-0.5 text-xs text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono disabled:opacity-50';
+
+const PathSynthesisPanel: React.FC<PathSynthesisPanelProps> = ({
+  targets,
+  onTargetsChange,
+  isPlacing,
+  onTogglePlacing,
+  fit,
+  result,
+  isRunning,
+  message,
+  onOptimize,
+  onCancel,
+  onLoad,
+  onDiscard,
+}) => {
+  const update = (index: number, patch: Partial<PathTarget>) =>
+    onTargetsChange(targets.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  const remove = (index: number) => onTargetsChange(targets.filter((_, i) => i !== index));
+  const design = result?.design;
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Path Generation</h4>
+        <div className="flex gap-1">
+          <button
+            onClick={onTogglePlacing}
+            disabled={isRunning}
+            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors disabled:opacity-50 ${
+              isPlacing ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+          >
+            {isPlacing ? 'Done' : 'Add on canvas'}
+          </button>
+          <button
+            onClick={() => onTargetsChange([])}
+            disabled={isRunning || targets.length === 0}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {targets.length === 0 ? (
+        <p className="text-xs text-slate-400 mb-3">Click “Add on canvas”, then click the points the coupler should pass through.</p>
+      ) : (
+        <table className="w-full text-xs mb-3">
+          <thead>
+            <tr className="text-slate-400">
+              <th className="text-left font-medium">#</th>
+              <th className="font-medium">x</th>
+              <th className="font-medium">y</th>
+              <th className="font-medium" title="Crank rotation from the first timed point; leave empty for untimed">Δθ₂ (°)</th>
+              <th className="text-right font-medium">Error</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {targets.map((t, i) => (
+              <tr key={i}>
+                <td className="pr-1 font-bold text-rose-500">{i + 1}</td>
+                <td className="px-0.5 py-0.5">
+                  <input type="number" step={0.1} value={Math.round(t.x * 1000) / 1000} disabled={isRunning} className={cellInput}
+                    onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) update(i, { x: v }); }} />
+                </td>
+                <td className="px-0.5 py-0.5">
+                  <input type="number" step={0.1} value={Math.round(t.y * 1000) / 1000} disabled={isRunning} className={cellInput}
+                    onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) update(i, { y: v }); }} />
+                </td>
+                <td className="px-0.5 py-0.5">
+                  <input type="number" step={5} value={t.timing ?? ''} placeholder="—" disabled={isRunning} className={cellInput}
+                    onChange={(e) => { const v = parseFloat(e.target.value); update(i, { timing: isNaN(v) ? null : v }); }} />
+                </td>
+                <td className="text-right font-mono">
+                  {fit && Number.isFinite(fit.errors[i]) ? fit.errors[i].toFixed(3) : '-'}
+                </td>
+                <td className="pl-1 text-right">
+                  <button onClick={() => remove(i)} disabled={isRunning} className="text-slate-400 hover:text-red-600 disabled:opacity-50" title="Remove">×</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {fit && (
+        <p className="text-xs mb-3">
+          {fit.rejected
+            ? <span className="text-red-600">{fit.rejected}</span>
+            : <>RMS error {design ? '(optimized)' : '(current linkage)'}: <span className="font-mono">{fit.rms.toFixed(4)}</span></>}
+        </p>
+      )}
+
+      {result && (
+        <ul className="space-y-1 text-xs mb-3">
+          <li className="flex justify-between">
+            <span>Iteration / evaluations:</span>
+            <span className="font-mono">{result.progress.iteration} / {result.progress.evaluations}</span>
+          </li>
+          {design && (
+            <>
+              <li className="flex justify-between">
+                <span>r₁ / r₂ / r₃ / r₄:</span>
+                <span className="font-mono">
+                  {[design.config.r1, design.config.r2, design.config.r3, design.config.r4].map((r) => r.toFixed(3)).join(' / ')}
+                </span>
+              </li>
+              <li className="flex justify-between">
+                <span>r₆ / β:</span>
+                <span className="font-mono">{design.config.r6.toFixed(3)} / {design.config.beta.toFixed(1)}°</span>
+              </li>
+              <li className="flex justify-between">
+                <span>A* / ground angle:</span>
+                <span className="font-mono">
+                  ({design.pose.x.toFixed(2)}, {design.pose.y.toFixed(2)}) / {design.pose.angle.toFixed(1)}°
+                </span>
+              </li>
+            </>
+          )}
+        </ul>
+      )}
+
+      {message && <p className="text-xs text-red-600 mb-2">{message}</p>}
+
+      <div className="flex gap-2">
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-amber-100 text-amber-700 hover:bg-amber-200 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onOptimize}
+            disabled={targets.length < 2}
+            className="flex-1 py-2 px-4 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Optimize
+          </button>
+        )}
+        {result && !isRunning && (
+          <>
+            <button
+              onClick={onLoad}
+              className="py-2 px-3 rounded-md text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+            >
+              Load
+            </button>
+            <button
+              onClick={onDiscard}
+              className="py-2 px-3 rounded-md text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+            >
+              Discard
+            </button>
+          </>
+        )}
+      </div>
+      {result && !isRunning && (
+        <p className="text-xs text-slate-400 mt-2">
+          Loading grounds the linkage where the fit placed it; the targets stay put.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PathSynthesisPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { PathTarget, Point } from '../types';
+import { PathFit } from '../utils/pathSynthesis';
+
+interface PathTargetsOverlayProps {
+  targets: PathTarget[];
+  fit: PathFit | null;
+  candidateCurve: Point[][] | null; // Coupler curve of an optimized design not yet loaded
+}
+
+const TARGET_COLOR = '#e11d48';
+const STROKE = 0.03;
+const MARK = 0.12;
+
+/**
+ * Canvas layer for path generation: target points (timed ones ringed), the error of each
+ * against its matched coupler point, and the optimized coupler curve before it is loaded.
+ */
+const PathTargetsOverlay: React.FC<PathTargetsOverlayProps> = ({ targets, fit, candidateCurve }) => (
+  <g>
+    {candidateCurve && (
+      <path
+        d={candidateCurve
+          .map((run) => run.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${(-p.y).toFixed(3)}`).join(' '))
+          .join(' ')}
+        fill="none"
+        stroke="#6366f1"
+        strokeWidth={0.05}
+        strokeDasharray="0.12,0.08"
+      />
+    )}
+    {targets.map((t, i) => {
+      const match = fit && !fit.rejected ? fit.matches[i] : null;
+      return (
+        <g key={i}>
+          {match && (
+            <line x1={t.x} y1={-t.y} x2={match.x} y2={-match.y} stroke={TARGET_COLOR} strokeWidth={STROKE} strokeDasharray={`${STROKE},${STROKE}`} />
+          )}
+          <line x1={t.x - MARK} y1={-t.y} x2={t.x + MARK} y2={-t.y} stroke={TARGET_COLOR} strokeWidth={STROKE * 1.5} />
+          <line x1={t.x} y1={-t.y - MARK} x2={t.x} y2={-t.y + MARK} stroke={TARGET_COLOR} strokeWidth={STROKE * 1.5} />
+          {t.timing !== null && <circle cx={t.x} cy={-t.y} r={MARK * 0.8} fill="none" stroke={TARGET_COLOR} strokeWidth={STROKE} />}
+          <text x={t.x + MARK} y={-t.y - MARK} fill={TARGET_COLOR} fontSize={0.2} fontWeight="bold" fontFamily="sans-serif" className="select-none">
+            {i + 1}
+          </text>
+        </g>
+      );
+    })}
+  </g>
+);
+
+export default PathTargetsOverlay;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { DesignSnapshot } from '../types';
+import { embedSnippet, writeUrlState } from '../utils/urlState';
+
+interface ShareMenuProps {
+  snapshot: DesignSnapshot;
+  onClose: () => void;
+}
+
+const fieldClass =
+  'w-full px-1.5 py-1 bg-slate-50 border border-slate-200 rounded font-mono text-[11px] focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Popover with a link to the current state, and an iframe snippet for embedding it in a page
+ * through `embed=true`.
+ */
+const ShareMenu: React.FC<ShareMenuProps> = ({ snapshot, onClose }) => {
+  const [size, setSize] = useState({ width: 800, height: 500 });
+  const [autoplay, setAutoplay] = useState(true);
+  const [copied, setCopied] = useState<'link' | 'embed' | null>(null);
+  const [copyFailed, setCopyFailed] = useState(false);
+
+  const base = `${window.location.origin}${window.location.pathname}`;
+  const link = `${base}${writeUrlState(snapshot)}`;
+  const snippet = embedSnippet(`${base}${writeUrlState(snapshot, { embed: true, play: autoplay })}`, size.width, size.height);
+  useEffect(() => setCopied(null), [link, snippet]);
+
+  const copy = async (text: string, what: 'link' | 'embed') => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(what);
+      setCopyFailed(false);
+    } catch {
+      setCopyFailed(true);
+    }
+  };
+
+  const sizeField = (key: 'width' | 'height', label: string) => (
+    <label className="flex items-center gap-1">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={200}
+        max={4000}
+        value={size[key]}
+        onChange={(e) => {
+          const v = parseInt(e.target.value, 10);
+          if (!isNaN(v)) setSize({ ...size, [key]: Math.min(4000, Math.max(200, v)) });
+        }}
+        className="w-16 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className="absolute top-4 right-16 z-30 w-80 bg-white rounded-lg border border-slate-200 shadow-lg p-3 text-xs text-slate-600 space-y-3"
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-800">Share</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">✕</button>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="font-semibold text-slate-700">Link</p>
+        <input readOnly value={link} onFocus={(e) => e.target.select()} className={fieldClass} />
+        <button
+          onClick={() => copy(link, 'link')}
+          className="w-full px-2 py-1 rounded font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          {copied === 'link' ? 'Copied' : 'Copy share link'}
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="font-semibold text-slate-700">Embed</p>
+        <div className="flex items-center justify-between gap-2">
+          {sizeField('width', 'W')}
+          {sizeField('height', 'H')}
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={autoplay} onChange={(e) => setAutoplay(e.target.checked)} className="accent-blue-600" />
+            Autoplay
+          </label>
+        </div>
+        <textarea readOnly value={snippet} rows={4} onFocus={(e) => e.target.select()} className={`${fieldClass} resize-none`} />
+        <button
+          onClick={() => copy(snippet, 'embed')}
+          className="w-full px-2 py-1 rounded font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+        >
+          {copied === 'embed' ? 'Copied' : 'Copy embed snippet'}
+        </button>
+      </div>
+
+      <p className={copyFailed ? 'text-amber-600' : 'text-slate-400'}>
+        {copyFailed
+          ? 'The clipboard is not available here; select the text and copy it instead.'
+          : 'Links carry the linkage, assembly mode, speed and view. Embeds open without the sidebar.'}
+      </p>
+    </div>
+  );
+};
+
+export default ShareMenu;
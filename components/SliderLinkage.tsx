@@ -0,0 +1,148 @@
+import React from 'react';
+import { LinkageConfig, Point, SliderPoint, SliderSolution, SliderType } from '../types';
+import { groundPivots, toRad } from '../utils/math';
+
+interface SliderLinkageProps {
+  type: SliderType;
+  config: LinkageConfig;
+  solution: SliderSolution;
+  cycle: SliderPoint[][]; // Sets the guide's drawn length and the coupler curve
+}
+
+const STROKE_THICK = 0.08;
+const STROKE_MED = 0.06;
+const STROKE_THIN = 0.03;
+const JOINT_RADIUS_FIXED = 0.12;
+const JOINT_RADIUS_MOVING = 0.1;
+const JOINT_RADIUS_TRACE = 0.08;
+const TEXT_SIZE = 0.25;
+const LABEL_OFFSET = 0.3;
+const BLOCK_LENGTH = 0.6;
+const BLOCK_WIDTH = 0.36;
+// Guide length beyond the slider's travel at each end
+const GUIDE_MARGIN = 0.6;
+
+const svg = (p: Point) => ({ x: p.x, y: -p.y });
+
+const Label = ({ at, color, bold, children }: { at: Point; color: string; bold?: boolean; children: React.ReactNode }) => (
+  <text
+    x={at.x} y={at.y}
+    fill={color} fontSize={TEXT_SIZE} fontWeight={bold ? 'bold' : undefined} fontFamily="sans-serif"
+    className="select-none"
+  >{children}</text>
+);
+
+/**
+ * Canvas drawing of a slider-crank or inverted slider-crank in place of the four-bar: the
+ * guide, the slider block, the links and the coupler curve, in canvas coordinates (y flipped).
+ */
+const SliderLinkage: React.FC<SliderLinkageProps> = ({ type, config, solution, cycle }) => {
+  const { A_star, B_star } = groundPivots(config);
+  const travel = cycle.flat().map((p) => p.s);
+  const sMin = Math.min(0, ...travel) - GUIDE_MARGIN;
+  const sMax = Math.max(0, ...travel) + GUIDE_MARGIN;
+
+  const curve = cycle
+    .map((run) => run.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.Cx.toFixed(3)} ${(-p.Cy).toFixed(3)}`).join(' '))
+    .join(' ');
+
+  // Guide line through the foot, along θ4; fixed for a slider-crank, on link 4 when inverted
+  const guideAngle = toRad(type === 'slider-crank' ? config.theta1 : solution.theta4);
+  const u = { x: Math.cos(guideAngle), y: Math.sin(guideAngle) };
+  const n = { x: -u.y, y: u.x };
+  const along = (s: number, across = 0): Point => ({
+    x: solution.guideFoot.x + s * u.x + across * n.x,
+    y: solution.guideFoot.y + s * u.y + across * n.y,
+  });
+  const blockCorners = [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([i, j]) => {
+    const p = svg({
+      x: solution.B.x + (i * BLOCK_LENGTH * u.x + j * BLOCK_WIDTH * n.x) / 2,
+      y: solution.B.y + (i * BLOCK_LENGTH * u.y + j * BLOCK_WIDTH * n.y) / 2,
+    });
+    return `${p.x},${p.y}`;
+  });
+
+  const a = svg(solution.A);
+  const b = svg(solution.B);
+  const c = svg(solution.C);
+  const aStar = svg(A_star);
+  const bStar = svg(B_star);
+  const foot = svg(solution.guideFoot);
+  const guideStart = svg(along(sMin));
+  const guideEnd = svg(along(sMax));
+  const isInverted = type === 'inverted-slider-crank';
+
+  return (
+    <g>
+      <path d={curve} fill="none" stroke="#db2777" strokeWidth={0.12} strokeOpacity="0.8" strokeLinecap="round" strokeLinejoin="round" />
+
+      {isInverted ? (
+        <>
+          {/* Ground A*B* and link 4, with its guide offset from B* */}
+          <line
+            x1={aStar.x} y1={aStar.y} x2={bStar.x} y2={bStar.y}
+            stroke="#94a3b8" strokeWidth={STROKE_THIN} strokeLinecap="round" strokeDasharray={`${STROKE_THICK},${STROKE_THICK}`}
+          />
+          {solution.isValid && (
+            <>
+              <line x1={bStar.x} y1={bStar.y} x2={foot.x} y2={foot.y} stroke="#10b981" strokeWidth={STROKE_THICK} strokeLinecap="round" />
+              <line
+                x1={guideStart.x} y1={guideStart.y} x2={guideEnd.x} y2={guideEnd.y}
+                stroke="#10b981" strokeWidth={STROKE_THICK} strokeLinecap="round"
+              />
+            </>
+          )}
+        </>
+      ) : (
+        // Fixed guide: a channel either side of the slider's line of travel
+        [-1, 1].map((side) => {
+          const p = svg(along(sMin, (side * BLOCK_WIDTH) / 2 + side * STROKE_THIN));
+          const q = svg(along(sMax, (side * BLOCK_WIDTH) / 2 + side * STROKE_THIN));
+          return <line key={side} x1={p.x} y1={p.y} x2={q.x} y2={q.y} stroke="#94a3b8" strokeWidth={STROKE_MED} strokeLinecap="round" />;
+        })
+      )}
+
+      {solution.isValid && (
+        <>
+          {/* Crank, connecting rod and coupler point */}
+          <line x1={aStar.x} y1={aStar.y} x2={a.x} y2={a.y} stroke="#3b82f6" strokeWidth={STROKE_THICK} strokeLinecap="round" />
+          {!isInverted && (
+            <>
+              <path d={`M ${a.x} ${a.y} L ${b.x} ${b.y} L ${c.x} ${c.y} Z`} fill="rgba(168, 85, 247, 0.1)" stroke="none" />
+              <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#a855f7" strokeWidth={STROKE_THICK} strokeLinecap="round" />
+            </>
+          )}
+          <line
+            x1={a.x} y1={a.y} x2={c.x} y2={c.y}
+            stroke="#a855f7" strokeWidth={STROKE_MED} strokeDasharray={`${STROKE_MED},${STROKE_MED}`}
+          />
+
+          <polygon points={blockCorners.join(' ')} fill="white" stroke="#f59e0b" strokeWidth={STROKE_MED} strokeLinejoin="round" />
+          <circle cx={a.x} cy={a.y} r={JOINT_RADIUS_MOVING} fill="white" stroke="#3b82f6" strokeWidth={STROKE_THIN} />
+          {!isInverted && <circle cx={b.x} cy={b.y} r={JOINT_RADIUS_MOVING} fill="white" stroke="#a855f7" strokeWidth={STROKE_THIN} />}
+          <circle cx={c.x} cy={c.y} r={JOINT_RADIUS_TRACE} fill="#ec4899" stroke="white" strokeWidth={STROKE_THIN / 2} />
+
+          <Label at={{ x: a.x - LABEL_OFFSET / 2, y: a.y - LABEL_OFFSET / 2 }} color="#2563eb" bold>A</Label>
+          {!isInverted && <Label at={{ x: b.x + LABEL_OFFSET / 2, y: b.y - LABEL_OFFSET }} color="#d97706" bold>B</Label>}
+          <Label at={{ x: c.x + LABEL_OFFSET / 2, y: c.y }} color="#db2777" bold>C</Label>
+        </>
+      )}
+
+      <circle cx={aStar.x} cy={aStar.y} r={JOINT_RADIUS_FIXED} fill="#1e293b" />
+      <Label at={{ x: aStar.x - LABEL_OFFSET, y: aStar.y + LABEL_OFFSET }} color="#64748b">A*</Label>
+      {isInverted && (
+        <>
+          <circle cx={bStar.x} cy={bStar.y} r={JOINT_RADIUS_FIXED} fill="#1e293b" />
+          <Label at={{ x: bStar.x + LABEL_OFFSET / 2, y: bStar.y + LABEL_OFFSET }} color="#64748b">B*</Label>
+        </>
+      )}
+    </g>
+  );
+};
+
+export default SliderLinkage;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { solveLinkage } from '../utils/math';
+import { DRIVER_LABELS, solveLinkage, withInputAngle } from '../utils/math';
 import { LinkageConfig } from '../types';
 
 interface SolutionTableProps {
@@ -17,17 +17,24 @@ const SolutionTable: React.FC<SolutionTableProps> = ({ config, assemblyMode }) =
     const displayAngle = angle < 0 ? `${angle}°` : `${angle}°`;
     const normalizedAngle = angle < 0 ? 360 + angle : angle;
     
-    const sol = solveLinkage({ ...config, theta2: normalizedAngle }, assemblyMode);
+    const sol = solveLinkage(withInputAngle(config, normalizedAngle), assemblyMode);
     
     return {
       angle: displayAngle,
-      theta2: normalizedAngle,
+      theta2: sol.isValid ? sol.theta2.toFixed(2) : 'N/A',
       theta3: sol.isValid ? sol.theta3.toFixed(2) : 'N/A',
       theta4: sol.isValid ? sol.theta4.toFixed(2) : 'N/A',
       isValid: sol.isValid
     };
   });
 
+  // Output columns: every link angle except the driver's
+  const columns = ([
+    { key: 'theta2', label: 'θ₂ (Crank)', color: 'text-blue-600', link: 'crank' },
+    { key: 'theta3', label: 'θ₃ (Coupler)', color: 'text-violet-600', link: 'coupler' },
+    { key: 'theta4', label: 'θ₄ (Output)', color: 'text-emerald-600', link: 'rocker' },
+  ] as const).filter((c) => c.link !== config.driver);
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
       <div className="bg-slate-50 px-4 py-3 border-b border-slate-200">
@@ -36,21 +43,21 @@ const SolutionTable: React.FC<SolutionTableProps> = ({ config, assemblyMode }) =
       <table className="w-full text-sm text-left">
         <thead className="bg-slate-50 text-slate-500 font-medium">
           <tr>
-            <th className="px-4 py-2">θ₂ (Input)</th>
-            <th className="px-4 py-2">θ₃ (Coupler)</th>
-            <th className="px-4 py-2">θ₄ (Output)</th>
+            <th className="px-4 py-2">{DRIVER_LABELS[config.driver].angle} (Input)</th>
+            {columns.map((c) => (
+              <th key={c.key} className="px-4 py-2">{c.label}</th>
+            ))}
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100">
           {results.map((res, idx) => (
             <tr key={idx} className="hover:bg-slate-50">
               <td className="px-4 py-2 font-mono text-slate-700">{res.angle}</td>
-              <td className={`px-4 py-2 font-mono ${res.isValid ? 'text-violet-600' : 'text-slate-400'}`}>
-                {res.theta3}°
-              </td>
-              <td className={`px-4 py-2 font-mono ${res.isValid ? 'text-emerald-600' : 'text-slate-400'}`}>
-                {res.theta4}°
-              </td>
+              {columns.map((c) => (
+                <td key={c.key} className={`px-4 py-2 font-mono ${res.isValid ? c.color : 'text-slate-400'}`}>
+                  {res[c.key]}°
+                </td>
+              ))}
             </tr>
           ))}
         </tbody>
@@ -0,0 +1,101 @@
+import React from 'react';
+import { MechanismPose, Point, StaticForces, StaticLoad } from '../types';
+import { loadVector } from '../utils/statics';
+
+interface StaticsOverlayProps {
+  pose: MechanismPose;
+  load: StaticLoad;
+  forces: StaticForces | null;
+}
+
+const LOAD_COLOR = '#e11d48';
+const REACTION_COLOR = '#7c3aed';
+const TORQUE_COLOR = '#0369a1';
+const STROKE = 0.035;
+const HEAD = 0.12;
+const TEXT_SIZE = 0.2;
+const TORQUE_RADIUS = 0.35;
+
+const Arrow = ({ from, vector, color, label }: { from: Point; vector: Point; color: string; label: string }) => {
+  const length = Math.hypot(vector.x, vector.y);
+  if (!(length > 1e-9)) return null;
+  const ux = vector.x / length;
+  const uy = vector.y / length;
+  const tip = { x: from.x + vector.x, y: from.y + vector.y };
+  const head = Math.min(HEAD, length * 0.5);
+  const base = { x: tip.x - ux * head, y: tip.y - uy * head };
+  const side = { x: -uy * head * 0.5, y: ux * head * 0.5 };
+  return (
+    <g>
+      <line x1={from.x} y1={-from.y} x2={base.x} y2={-base.y} stroke={color} strokeWidth={STROKE} strokeLinecap="round" />
+      <polygon
+        points={`${tip.x},${-tip.y} ${base.x + side.x},${-(base.y + side.y)} ${base.x - side.x},${-(base.y - side.y)}`}
+        fill={color}
+      />
+      <text x={tip.x + ux * 0.1} y={-(tip.y + uy * 0.1)} fill={color} fontSize={TEXT_SIZE} fontFamily="sans-serif" textAnchor="middle" dominantBaseline="middle" className="select-none">
+        {label}
+      </text>
+    </g>
+  );
+};
+
+// Three-quarter circle around a pivot, with the head showing the torque's sense
+const TorqueArc = ({ at, torque, color, label }: { at: Point; torque: number; color: string; label: string }) => {
+  if (torque === 0) return null;
+  const sense = torque > 0 ? 1 : -1;
+  const start = -Math.PI / 4;
+  const end = start + sense * 1.5 * Math.PI;
+  const point = (a: number) => ({ x: at.x + TORQUE_RADIUS * Math.cos(a), y: at.y + TORQUE_RADIUS * Math.sin(a) });
+  const p0 = point(start);
+  const p1 = point(end);
+  // Tangent at the end of the arc, in the direction of travel
+  const t = { x: -Math.sin(end) * sense, y: Math.cos(end) * sense };
+  const side = { x: -t.y * HEAD * 0.5, y: t.x * HEAD * 0.5 };
+  const tip = { x: p1.x + t.x * HEAD, y: p1.y + t.y * HEAD };
+  return (
+    <g>
+      <path
+        d={`M ${p0.x} ${-p0.y} A ${TORQUE_RADIUS} ${TORQUE_RADIUS} 0 1 ${sense > 0 ? 0 : 1} ${p1.x} ${-p1.y}`}
+        fill="none"
+        stroke={color}
+        strokeWidth={STROKE}
+      />
+      <polygon points={`${tip.x},${-tip.y} ${p1.x + side.x},${-(p1.y + side.y)} ${p1.x - side.x},${-(p1.y - side.y)}`} fill={color} />
+      <text x={at.x} y={-(at.y + TORQUE_RADIUS + 0.12)} fill={color} fontSize={TEXT_SIZE} fontFamily="sans-serif" textAnchor="middle" className="select-none">
+        {label}
+      </text>
+    </g>
+  );
+};
+
+/**
+ * Canvas layer for statics: the applied load at C, the pin forces (Fᵢⱼ is the force of link i
+ * on link j) and the crank and output torques. Arrows share one scale, with the largest force
+ * drawn at half the ground link length.
+ */
+const StaticsOverlay: React.FC<StaticsOverlayProps> = ({ pose, load, forces }) => {
+  const F = loadVector(load);
+  const ground = Math.hypot(pose.B_star.x - pose.A_star.x, pose.B_star.y - pose.A_star.y);
+  const vectors = forces ? [F, forces.F12, forces.F23, forces.F34, forces.F14] : [F];
+  const largest = Math.max(...vectors.map((v) => Math.hypot(v.x, v.y)));
+  const scale = largest > 0 ? (0.5 * ground) / largest : 0;
+  const scaled = (v: Point) => ({ x: v.x * scale, y: v.y * scale });
+
+  return (
+    <g>
+      <Arrow from={pose.C} vector={scaled(F)} color={LOAD_COLOR} label="F" />
+      <TorqueArc at={pose.B_star} torque={load.torque4} color={LOAD_COLOR} label="T₄" />
+      {forces && (
+        <>
+          <Arrow from={pose.A_star} vector={scaled(forces.F12)} color={REACTION_COLOR} label="F₁₂" />
+          <Arrow from={pose.A} vector={scaled(forces.F23)} color={REACTION_COLOR} label="F₂₃" />
+          <Arrow from={pose.B} vector={scaled(forces.F34)} color={REACTION_COLOR} label="F₃₄" />
+          <Arrow from={pose.B_star} vector={scaled(forces.F14)} color={REACTION_COLOR} label="F₁₄" />
+          <TorqueArc at={pose.A_star} torque={forces.torque2} color={TORQUE_COLOR} label="T₂" />
+        </>
+      )}
+    </g>
+  );
+};
+
+export default StaticsOverlay;
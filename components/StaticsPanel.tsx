@@ -0,0 +1,116 @@
+import React from 'react';
+import { Point, StaticForces, StaticLoad } from '../types';
+
+interface StaticsPanelProps {
+  load: StaticLoad;
+  onChange: (load: StaticLoad) => void;
+  forces: StaticForces | null; // At the current pose; null at a toggle position
+  isValid: boolean; // The linkage assembles at the current input
+  peakTorque: number | null; // Largest |T2| over the cycle
+  showArrows: boolean;
+  onShowArrowsChange: (show: boolean) => void;
+}
+
+const FIELDS: { key: keyof StaticLoad; label: string; step: number }[] = [
+  { key: 'force', label: 'Force at C |F|', step: 0.1 },
+  { key: 'direction', label: 'Direction (°)', step: 5 },
+  { key: 'torque4', label: 'Torque on link 4 T₄', step: 0.1 },
+];
+
+const PINS: { label: string; key: keyof Pick<StaticForces, 'F12' | 'F23' | 'F34' | 'F14'> }[] = [
+  { label: 'A*', key: 'F12' },
+  { label: 'A', key: 'F23' },
+  { label: 'B', key: 'F34' },
+  { label: 'B*', key: 'F14' },
+];
+
+const formatVector = (v: Point) => [v.x, v.y, Math.hypot(v.x, v.y)].map((n) => n.toFixed(3));
+
+const StaticsPanel: React.FC<StaticsPanelProps> = ({ load, onChange, forces, isValid, peakTorque, showArrows, onShowArrowsChange }) => (
+  <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+    <div className="flex items-center justify-between mb-3">
+      <h4 className="font-bold text-slate-800">Static Forces</h4>
+      <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showArrows}
+          onChange={(e) => onShowArrowsChange(e.target.checked)}
+          className="accent-blue-600"
+        />
+        Show arrows
+      </label>
+    </div>
+
+    <div className="space-y-1 mb-3 text-xs">
+      {FIELDS.map(({ key, label, step }) => (
+        <label key={key} className="flex items-center justify-between gap-2">
+          <span>{label}</span>
+          <input
+            type="number"
+            step={step}
+            value={load[key]}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (!isNaN(v)) onChange({ ...load, [key]: v });
+            }}
+            className="w-20 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+          />
+        </label>
+      ))}
+    </div>
+    <p className="text-xs text-slate-400 mb-3">Massless links, frictionless pins; angles and torques CCW positive.</p>
+
+    {!isValid ? (
+      <p className="text-xs text-red-600">The linkage does not assemble at this input.</p>
+    ) : !forces ? (
+      <p className="text-xs text-amber-600">Toggle position: no finite crank torque holds the load.</p>
+    ) : (
+      <>
+        <ul className="space-y-1 text-xs mb-3">
+          <li className="flex justify-between">
+            <span>Crank torque T₂:</span>
+            <span className="font-mono">{forces.torque2.toFixed(3)}</span>
+          </li>
+          <li className="flex justify-between">
+            <span>Peak |T₂| over cycle:</span>
+            <span className="font-mono">{peakTorque !== null ? peakTorque.toFixed(3) : '-'}</span>
+          </li>
+          <li className="flex justify-between">
+            <span title="|T₄ / T₂|">Mechanical advantage (torque):</span>
+            <span className="font-mono">{forces.torqueRatio !== null ? forces.torqueRatio.toFixed(3) : '-'}</span>
+          </li>
+          <li className="flex justify-between">
+            <span title="|F| per unit tangential effort at A">Mechanical advantage (force):</span>
+            <span className="font-mono">{forces.forceRatio !== null ? forces.forceRatio.toFixed(3) : '-'}</span>
+          </li>
+        </ul>
+
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-400 font-sans">
+              <th className="text-left font-medium">Pin</th>
+              <th className="text-right font-medium">Fx</th>
+              <th className="text-right font-medium">Fy</th>
+              <th className="text-right font-medium">|F|</th>
+            </tr>
+          </thead>
+          <tbody>
+            {PINS.map(({ label, key }) => (
+              <tr key={key}>
+                <td className="font-sans font-medium text-violet-600">{label}</td>
+                {formatVector(forces[key]).map((n, i) => (
+                  <td key={i} className="text-right">{n}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-400 mt-2">
+          Reactions at A* and B* act from ground on the crank and rocker; at A, from the crank on the coupler; at B, from the coupler on the rocker.
+        </p>
+      </>
+    )}
+  </div>
+);
+
+export default StaticsPanel;
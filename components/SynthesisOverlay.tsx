@@ -0,0 +1,86 @@
+import React from 'react';
+import { Point, SynthesisState, SynthesizedPivots } from '../types';
+import { bodyPointAt, BurmesterCurves } from '../utils/synthesis';
+import { toRad } from '../utils/math';
+
+interface SynthesisOverlayProps {
+  state: SynthesisState;
+  pivots: SynthesizedPivots | null;
+  curves: BurmesterCurves | null;
+}
+
+const POSITION_COLOR = '#f97316';
+const CIRCLE_CURVE_COLOR = '#f59e0b';
+const CENTER_CURVE_COLOR = '#0d9488';
+const ARROW_LENGTH = 0.6;
+const STROKE = 0.03;
+const TEXT_SIZE = 0.22;
+
+const polyline = (points: Point[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(3)} ${(-p.y).toFixed(3)}`).join(' ');
+
+/**
+ * Canvas layer for motion generation: the prescribed body positions, the Burmester curves
+ * (four positions) and the synthesized dyads drawn in every position.
+ */
+const SynthesisOverlay: React.FC<SynthesisOverlayProps> = ({ state, pivots, curves }) => {
+  const { positions } = state;
+
+  return (
+    <g>
+      {curves && (
+        <>
+          <path d={curves.circlePoints.map(polyline).join(' ')} fill="none" stroke={CIRCLE_CURVE_COLOR} strokeWidth={STROKE} />
+          <path d={curves.centerPoints.map(polyline).join(' ')} fill="none" stroke={CENTER_CURVE_COLOR} strokeWidth={STROKE} />
+        </>
+      )}
+
+      {/* Dyads in each prescribed position */}
+      {pivots && positions.map((_, j) => {
+        const A = bodyPointAt(positions, pivots.A, j);
+        const B = bodyPointAt(positions, pivots.B, j);
+        const P = positions[j];
+        return (
+          <g key={j} opacity={j === 0 ? 0.9 : 0.4}>
+            <path
+              d={`M ${A.x} ${-A.y} L ${B.x} ${-B.y} L ${P.x} ${-P.y} Z`}
+              fill="rgba(249, 115, 22, 0.08)"
+              stroke={POSITION_COLOR}
+              strokeWidth={STROKE}
+              strokeDasharray={`${STROKE * 2},${STROKE * 2}`}
+            />
+            <line x1={pivots.A_star.x} y1={-pivots.A_star.y} x2={A.x} y2={-A.y} stroke="#3b82f6" strokeWidth={STROKE} />
+            <line x1={pivots.B_star.x} y1={-pivots.B_star.y} x2={B.x} y2={-B.y} stroke="#10b981" strokeWidth={STROKE} />
+            <circle cx={A.x} cy={-A.y} r={0.06} fill="white" stroke="#3b82f6" strokeWidth={STROKE} />
+            <circle cx={B.x} cy={-B.y} r={0.06} fill="white" stroke="#10b981" strokeWidth={STROKE} />
+          </g>
+        );
+      })}
+      {pivots && ([['A*', pivots.A_star], ['B*', pivots.B_star]] as const).map(([label, p]) => (
+        <g key={label}>
+          <rect x={p.x - 0.08} y={-p.y - 0.08} width={0.16} height={0.16} fill={CENTER_CURVE_COLOR} />
+          <text x={p.x + 0.12} y={-p.y + 0.25} fill={CENTER_CURVE_COLOR} fontSize={TEXT_SIZE} fontFamily="sans-serif" className="select-none">
+            {label}
+          </text>
+        </g>
+      ))}
+
+      {/* Prescribed positions: precision point and body direction */}
+      {positions.map((p, j) => {
+        const angle = toRad(p.angle);
+        const tip = { x: p.x + ARROW_LENGTH * Math.cos(angle), y: p.y + ARROW_LENGTH * Math.sin(angle) };
+        return (
+          <g key={j}>
+            <line x1={p.x} y1={-p.y} x2={tip.x} y2={-tip.y} stroke={POSITION_COLOR} strokeWidth={STROKE * 2} strokeLinecap="round" />
+            <circle cx={p.x} cy={-p.y} r={0.08} fill={POSITION_COLOR} />
+            <text x={p.x - 0.1} y={-p.y - 0.15} fill={POSITION_COLOR} fontSize={TEXT_SIZE} fontWeight="bold" fontFamily="sans-serif" textAnchor="end" className="select-none">
+              {j + 1}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default SynthesisOverlay;
@@ -0,0 +1,213 @@
+import React from 'react';
+import { BodyPosition, BurmesterDyad, Point, SynthesisPickTarget, SynthesisState } from '../types';
+import { grashofType, GRASHOF_LABELS } from '../utils/classification';
+import { SynthesizedLinkage, withPositionCount } from '../utils/synthesis';
+
+interface SynthesisPanelProps {
+  state: SynthesisState;
+  onChange: (state: SynthesisState) => void;
+  result: SynthesizedLinkage | null;
+  pickTarget: SynthesisPickTarget | null;
+  onPick: (target: SynthesisPickTarget | null) => void;
+  onLoad: () => void;
+}
+
+const NumberField = ({ value, step, onChange }: { value: number; step: number; onChange: (v: number) => void }) => (
+  <input
+    type="number"
+    step={step}
+    value={Number.isFinite(value) ? Math.round(value * 1000) / 1000 : ''}
+    onChange={(e) => {
+      const v = parseFloat(e.target.value);
+      if (!isNaN(v)) onChange(v);
+    }}
+    className="w-full min-w-0 px-1.5 py-0.5 text-xs text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+  />
+);
+
+const PickButton = ({ active, onClick }: { active: boolean; onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className={`px-1.5 py-0.5 rounded text-xs font-medium transition-colors ${
+      active ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+    }`}
+    title="Place by clicking the canvas"
+  >
+    {active ? 'Click…' : 'Pick'}
+  </button>
+);
+
+const isPicking = (current: SynthesisPickTarget | null, target: SynthesisPickTarget) =>
+  current !== null && JSON.stringify(current) === JSON.stringify(target);
+
+const SynthesisPanel: React.FC<SynthesisPanelProps> = ({ state, onChange, result, pickTarget, onPick, onLoad }) => {
+  const { positions, method } = state;
+  const isFourPosition = positions.length === 4;
+
+  const togglePick = (target: SynthesisPickTarget) => onPick(isPicking(pickTarget, target) ? null : target);
+  const updatePosition = (index: number, key: keyof BodyPosition, value: number) =>
+    onChange({ ...state, positions: positions.map((p, i) => (i === index ? { ...p, [key]: value } : p)) });
+  const updatePivot = (key: 'pivotA' | 'pivotB', axis: keyof Point, value: number) =>
+    onChange({ ...state, [key]: { ...state[key], [axis]: value } });
+  const updateDyad = (key: 'dyadA' | 'dyadB', dyad: BurmesterDyad) => onChange({ ...state, [key]: dyad });
+
+  const pivotLabels = method === 'moving-pivots' ? ['A (pos. 1)', 'B (pos. 1)'] : ['A*', 'B*'];
+  const grashof = result && grashofType(result.config, 1);
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Motion Generation</h4>
+        <div className="flex rounded-md bg-slate-100 p-0.5">
+          {([3, 4] as const).map((n) => (
+            <button
+              key={n}
+              onClick={() => {
+                onPick(null);
+                onChange(withPositionCount(state, n));
+              }}
+              className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${
+                positions.length === n ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+              }`}
+            >
+              {n} positions
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <table className="w-full text-xs mb-4">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-medium">#</th>
+            <th className="font-medium">x</th>
+            <th className="font-medium">y</th>
+            <th className="font-medium">angle (°)</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {positions.map((p, i) => (
+            <tr key={i}>
+              <td className="pr-1 font-bold text-orange-500">{i + 1}</td>
+              <td className="px-0.5 py-0.5"><NumberField value={p.x} step={0.1} onChange={(v) => updatePosition(i, 'x', v)} /></td>
+              <td className="px-0.5 py-0.5"><NumberField value={p.y} step={0.1} onChange={(v) => updatePosition(i, 'y', v)} /></td>
+              <td className="px-0.5 py-0.5"><NumberField value={p.angle} step={1} onChange={(v) => updatePosition(i, 'angle', v)} /></td>
+              <td className="pl-1 text-right">
+                <PickButton
+                  active={isPicking(pickTarget, { kind: 'position', index: i })}
+                  onClick={() => togglePick({ kind: 'position', index: i })}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {!isFourPosition ? (
+        <div className="mb-4">
+          <div className="flex rounded-md bg-slate-100 p-0.5 mb-2">
+            {(['moving-pivots', 'fixed-pivots'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => onChange({ ...state, method: m })}
+                className={`flex-1 py-1 text-xs font-medium rounded transition-colors ${
+                  method === m ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'
+                }`}
+              >
+                {m === 'moving-pivots' ? 'Choose A, B' : 'Choose A*, B*'}
+              </button>
+            ))}
+          </div>
+          {(['pivotA', 'pivotB'] as const).map((key, i) => (
+            <div key={key} className="flex items-center gap-1 mb-1 text-xs">
+              <span className="w-20 flex-shrink-0">{pivotLabels[i]}</span>
+              <NumberField value={state[key].x} step={0.1} onChange={(v) => updatePivot(key, 'x', v)} />
+              <NumberField value={state[key].y} step={0.1} onChange={(v) => updatePivot(key, 'y', v)} />
+              <PickButton
+                active={isPicking(pickTarget, { kind: 'pivot', dyad: i === 0 ? 'A' : 'B' })}
+                onClick={() => togglePick({ kind: 'pivot', dyad: i === 0 ? 'A' : 'B' })}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="mb-4">
+          <p className="text-xs text-slate-400 mb-2">
+            Pick each dyad on the <span className="text-amber-500 font-medium">circle-point</span> or{' '}
+            <span className="text-teal-600 font-medium">center-point</span> curve, or set its crank rotation β₂.
+          </p>
+          {(['dyadA', 'dyadB'] as const).map((key, i) => (
+            <div key={key} className="flex items-center gap-1 mb-1 text-xs">
+              <span className="w-12 flex-shrink-0">Dyad {i === 0 ? 'A' : 'B'}</span>
+              <input
+                type="range"
+                min={0.5}
+                max={359.5}
+                step={0.5}
+                value={state[key].beta2}
+                onChange={(e) => updateDyad(key, { ...state[key], beta2: parseFloat(e.target.value) })}
+                className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600 min-w-0"
+              />
+              <span className="w-12 text-right font-mono">{state[key].beta2.toFixed(1)}°</span>
+              <button
+                onClick={() => updateDyad(key, { ...state[key], branch: state[key].branch === 1 ? -1 : 1 })}
+                className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200"
+                title="Switch branch of the compatibility linkage"
+              >
+                {state[key].branch === 1 ? 'I' : 'II'}
+              </button>
+              <PickButton
+                active={isPicking(pickTarget, { kind: 'pivot', dyad: i === 0 ? 'A' : 'B' })}
+                onClick={() => togglePick({ kind: 'pivot', dyad: i === 0 ? 'A' : 'B' })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result ? (
+        <>
+          <ul className="space-y-1 text-xs mb-3">
+            <li className="flex justify-between">
+              <span>r₁ / r₂ / r₃ / r₄:</span>
+              <span className="font-mono">
+                {[result.config.r1, result.config.r2, result.config.r3, result.config.r4].map((r) => r.toFixed(3)).join(' / ')}
+              </span>
+            </li>
+            <li className="flex justify-between">
+              <span>r₆ / β:</span>
+              <span className="font-mono">{result.config.r6.toFixed(3)} / {result.config.beta.toFixed(1)}°</span>
+            </li>
+            <li className="flex justify-between">
+              <span>θ₂ in position 1:</span>
+              <span className="font-mono">{result.config.theta2.toFixed(1)}° ({result.assemblyMode === 1 ? 'Open' : 'Crossed'})</span>
+            </li>
+            {grashof && (
+              <li className="flex justify-between">
+                <span>Grashof Type:</span>
+                <span>{GRASHOF_LABELS[grashof.type]}</span>
+              </li>
+            )}
+          </ul>
+          {result.branchDefect && (
+            <p className="text-xs text-amber-600 mb-2">
+              Branch defect: the positions are not all reached on the same assembly branch.
+            </p>
+          )}
+          <button
+            onClick={onLoad}
+            className="w-full py-2 px-4 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            Load into linkage
+          </button>
+          <p className="text-xs text-slate-400 mt-2">Loaded with its ground pivots where they were placed.</p>
+        </>
+      ) : (
+        <p className="text-xs text-red-600">No dyad for these choices (pivots at infinity or no real solution).</p>
+      )}
+    </div>
+  );
+};
+
+export default SynthesisPanel;
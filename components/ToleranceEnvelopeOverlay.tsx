@@ -0,0 +1,40 @@
+import React from 'react';
+import { Point, ToleranceStudy } from '../types';
+
+interface ToleranceEnvelopeOverlayProps {
+  envelope: ToleranceStudy['envelope'];
+}
+
+export const ENVELOPE_COLOR = '#e11d48';
+const STROKE = 0.02;
+
+const toPath = (points: Point[]) => points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(4)} ${(-p.y).toFixed(4)}`).join(' ');
+
+/**
+ * Canvas layer shading the band the coupler path can lie in under the tolerances. A closed
+ * path's band is the ring between its two offset curves; an open one's joins them at the ends.
+ */
+const ToleranceEnvelopeOverlay: React.FC<ToleranceEnvelopeOverlayProps> = ({ envelope }) => (
+  <g>
+    {envelope.map(({ inner, outer, closed }, i) => (
+      <g key={i}>
+        <path
+          d={closed ? `${toPath(outer)} Z ${toPath(inner)} Z` : `${toPath([...outer, ...[...inner].reverse()])} Z`}
+          fill={ENVELOPE_COLOR}
+          fillOpacity={0.2}
+          fillRule="evenodd"
+          stroke="none"
+        />
+        {[inner, outer].map((edge, j) => (
+          <path
+            key={j}
+            d={`${toPath(edge)}${closed ? ' Z' : ''}`}
+            fill="none" stroke={ENVELOPE_COLOR} strokeWidth={STROKE} strokeOpacity={0.7} strokeLinejoin="round"
+          />
+        ))}
+      </g>
+    ))}
+  </g>
+);
+
+export default ToleranceEnvelopeOverlay;
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Sensitivity, ToleranceParam, ToleranceSpec, ToleranceStudy } from '../types';
+import { TOLERANCE_PARAMS } from '../utils/tolerance';
+import { ENVELOPE_COLOR } from './ToleranceEnvelopeOverlay';
+
+interface TolerancePanelProps {
+  spec: ToleranceSpec;
+  onSpecChange: (spec: ToleranceSpec) => void;
+  study: ToleranceStudy | null; // Null until the study is switched on and has finished
+  progress: number | null; // Trials done while the study runs; null when it is not running
+  sensitivities: Sensitivity[] | null; // Null when the linkage cannot assemble
+  showStudy: boolean;
+  onShowStudyChange: (show: boolean) => void;
+}
+
+const PARAM_LABELS: Record<ToleranceParam, string> = {
+  r1: 'r₁',
+  r2: 'r₂',
+  r3: 'r₃',
+  r4: 'r₄',
+  r6: 'r₆',
+  beta: 'β (°)',
+};
+
+const FIELDS: { key: keyof ToleranceSpec; label: string; step: number }[] = [
+  ...TOLERANCE_PARAMS.map((key) => ({ key, label: `± ${PARAM_LABELS[key]}`, step: key === 'beta' ? 0.1 : 0.005 })),
+  { key: 'clearance', label: 'Pin clearance', step: 0.001 },
+  { key: 'trials', label: 'Trials', step: 50 },
+];
+
+// Upper limit on trials, which each re-solve the whole cycle
+const MAX_TRIALS = 2000;
+
+const TolerancePanel: React.FC<TolerancePanelProps> = ({
+  spec,
+  onSpecChange,
+  study,
+  progress,
+  sensitivities,
+  showStudy,
+  onShowStudyChange,
+}) => {
+  // Pin clearance adds up to ± 2c to the effective length of r₁–r₄
+  const band = (param: ToleranceParam) => spec[param] + (param === 'r6' || param === 'beta' ? 0 : 2 * spec.clearance);
+  const stack = (term: (s: Sensitivity) => number) => {
+    const terms = (sensitivities ?? []).map((s) => Math.abs(term(s)) * band(s.param));
+    return { worst: terms.reduce((a, b) => a + b, 0), rss: Math.sqrt(terms.reduce((a, b) => a + b * b, 0)) };
+  };
+  const positionStack = stack((s) => Math.hypot(s.dC.x, s.dC.y));
+  const angleStack = stack((s) => s.dTheta4);
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-600">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-bold text-slate-800">Tolerances</h4>
+        <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showStudy}
+            onChange={(e) => onShowStudyChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Monte Carlo on canvas
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs mb-3">
+        {FIELDS.map(({ key, label, step }) => (
+          <label key={key} className="flex items-center justify-between gap-2">
+            <span>{label}</span>
+            <input
+              type="number"
+              step={step}
+              min={key === 'trials' ? 1 : 0}
+              value={spec[key]}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (isNaN(v) || v < 0) return;
+                onSpecChange({ ...spec, [key]: key === 'trials' ? Math.min(Math.max(Math.round(v), 1), MAX_TRIALS) : v });
+              }}
+              className="w-16 px-1.5 py-0.5 text-right bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+            />
+          </label>
+        ))}
+      </div>
+
+      {progress !== null && (
+        <div className="mb-3">
+          <div className="flex justify-between text-xs mb-1">
+            <span>Running trials…</span>
+            <span className="font-mono">
+              {progress} / {spec.trials}
+            </span>
+          </div>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${(100 * progress) / spec.trials}%` }} />
+          </div>
+        </div>
+      )}
+
+      {study && (
+        <ul className="space-y-1 text-xs mb-3">
+          <li className="flex justify-between">
+            <span style={{ color: ENVELOPE_COLOR }}>Largest coupler point error:</span>
+            <span className="font-mono">{study.maxDeviation.toFixed(4)}</span>
+          </li>
+          <li className="flex justify-between">
+            <span>Largest θ₄ error:</span>
+            <span className="font-mono">{study.maxTheta4Error.toFixed(3)}°</span>
+          </li>
+          <li className="flex justify-between">
+            <span>Trials failing to assemble:</span>
+            <span className={`font-mono ${study.failures > 0 ? 'text-amber-600' : ''}`}>
+              {study.failures} / {spec.trials}
+            </span>
+          </li>
+        </ul>
+      )}
+
+      {!sensitivities ? (
+        <p className="text-xs text-slate-400">Sensitivities need an assembled linkage.</p>
+      ) : (
+        <>
+          <table className="w-full text-xs font-mono mb-2">
+            <thead>
+              <tr className="text-slate-400 font-sans">
+                <th className="text-left font-medium">At θ₂</th>
+                <th className="text-right font-medium">∂Cx</th>
+                <th className="text-right font-medium">∂Cy</th>
+                <th className="text-right font-medium">∂θ₄ (°)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sensitivities.map((s) => (
+                <tr key={s.param}>
+                  <td className="font-sans font-medium">∂/∂{PARAM_LABELS[s.param]}</td>
+                  <td className="text-right">{s.dC.x.toFixed(3)}</td>
+                  <td className="text-right">{s.dC.y.toFixed(3)}</td>
+                  <td className="text-right">{s.dTheta4.toFixed(3)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-100">
+                <td className="font-sans font-medium">Worst case</td>
+                <td colSpan={2} className="text-right">|ΔC| {positionStack.worst.toFixed(4)}</td>
+                <td className="text-right">{angleStack.worst.toFixed(3)}</td>
+              </tr>
+              <tr>
+                <td className="font-sans font-medium">RSS</td>
+                <td colSpan={2} className="text-right">|ΔC| {positionStack.rss.toFixed(4)}</td>
+                <td className="text-right">{angleStack.rss.toFixed(3)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-400">
+            Trials draw each length and β uniformly within its tolerance; each pin's clearance changes the effective
+            length of both links it joins. The first-order stacks use the same bands. Trials often fail near dead
+            points, where the sensitivities also grow without bound.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TolerancePanel;
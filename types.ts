@@ -3,33 +3,539 @@ export interface Point {
   y: number;
 }
 
+export type DriverLink = 'crank' | 'coupler' | 'rocker';
+
 export interface LinkageConfig {
   r1: number; // Ground A*B*
+  groundX: number; // Ground pivot A*, in global coordinates
+  groundY: number;
+  theta1: number; // Angle of the ground link A*B* from the global x axis (degrees); θ2–θ4 are measured from that axis too
   r2: number; // Crank A*A
   r3: number; // Coupler AB
   r4: number; // Output B*B
   r6: number; // Coupler point distance AC
   beta: number; // Angle of AC relative to AB (degrees)
-  theta2: number; // Driver angle (degrees)
+  driver: DriverLink; // Link whose angle is prescribed
+  theta2: number; // Crank angle, the input when driver is 'crank' (degrees)
+  theta3: number; // Coupler angle, the input when driver is 'coupler' (degrees)
+  theta4: number; // Rocker angle, the input when driver is 'rocker' (degrees)
+  inputOmega: number; // Driver angular velocity (rad/s, CCW positive)
+  inputAlpha: number; // Driver angular acceleration (rad/s^2)
+  crankSpeed: number; // Constant crank speed for the inverse dynamics (rad/s)
+  massProperties: Record<DriverLink, LinkMassProperties>; // Moving links: crank, coupler, rocker
+}
+
+export interface LinkMassProperties {
+  mass: number;
+  centroid: number; // Distance from the link's base joint (A* for the crank, A for the coupler, B* for the rocker)
+  centroidAngle: number; // Angle of the centroid offset from the link line (degrees)
+  inertia: number; // Moment of inertia about the centroid
+}
+
+export type SixBarType = 'watt2' | 'stephenson3';
+
+// Four-bars with a slider: on a fixed guide (slider-crank), or on link 4 (inverted slider-crank)
+export type SliderType = 'slider-crank' | 'inverted-slider-crank';
+
+export type MechanismType = 'four-bar' | SixBarType | SliderType;
+
+// Second dyad D–F–E* added to the four-bar. Watt II drives it from a point D on link 4;
+// Stephenson III drives it from the coupler point C.
+export interface SixBarConfig {
+  rD: number; // Watt II: distance B*D from the rocker pivot to D
+  gammaD: number; // Watt II: angle of B*D from B*B (degrees)
+  r5: number; // Link 5, from the drive point (D or C) to F
+  r6: number; // Link 6, the output, from E* to F
+  groundX: number; // Ground pivot E* of link 6, in global coordinates
+  groundY: number;
+  assemblyMode: 1 | -1; // Branch of the second loop, independent of the four-bar's
 }
 
 export interface LinkageSolution {
-  Ax: number;
+  Ax: number; // Positions, velocities and link angles are all global
   Ay: number;
   Bx: number;
   By: number;
   Cx: number;
   Cy: number;
+  theta2: number; // degrees
   theta3: number; // degrees
   theta4: number; // degrees
+  mu: number; // Transmission angle between BA and BB*, degrees in [0, 180]
+  omega2: number; // rad/s
+  omega3: number; // rad/s
+  omega4: number; // rad/s
+  alpha2: number; // rad/s^2
+  alpha3: number; // rad/s^2
+  alpha4: number; // rad/s^2
+  vA: Point; // Velocity of A
+  vB: Point; // Velocity of B
+  vC: Point; // Velocity of C
+  aA: Point; // Acceleration of A
+  aB: Point; // Acceleration of B
+  aC: Point; // Acceleration of C
   isValid: boolean;
   mode: 'open' | 'crossed';
 }
 
+export interface SixBarSolution {
+  D: Point; // Drive point of the second dyad: on link 4 (Watt II) or C (Stephenson III)
+  F: Point;
+  E_star: Point;
+  theta5: number; // Global link angles (degrees): D→F and E*→F
+  theta6: number;
+  mu: number; // Transmission angle between FD and FE*, degrees in [0, 180]
+  omega5: number; // rad/s
+  omega6: number;
+  alpha5: number; // rad/s^2
+  alpha6: number;
+  vF: Point;
+  aF: Point;
+  isValid: boolean;
+}
+
+export interface SliderSolution {
+  A: Point; // Crank pin
+  B: Point; // Slider block: on the fixed guide (slider-crank), or at A riding link 4 (inverted)
+  C: Point; // Coupler point, on the connecting rod or on the block
+  guideFoot: Point; // Foot of the perpendicular from A* (slider-crank) or B* (inverted) to the guide line
+  theta3: number; // Connecting rod, or the block, which turns with link 4 (degrees)
+  theta4: number; // Guide direction: θ1 (slider-crank) or link 4 (inverted)
+  omega3: number; // rad/s
+  omega4: number;
+  alpha3: number; // rad/s^2
+  alpha4: number;
+  s: number; // Slider position along the guide, from the guide foot
+  v: number; // ds/dt
+  a: number; // d²s/dt²
+  isValid: boolean;
+}
+
+export interface SliderPoint {
+  input: number; // Crank angle θ2 (degrees)
+  s: number;
+  v: number;
+  a: number;
+  theta4: number; // Unwrapped within a run
+  Cx: number;
+  Cy: number;
+}
+
+export interface SliderMotion {
+  sMin: number; // Slider travel limits over the crank's cycle
+  sMax: number;
+  stroke: number; // sMax − sMin
+  timeRatio: number | null; // Slower stroke over quicker, by crank rotation; null unless the crank turns fully and the output reciprocates
+}
+
+export interface SixBarPoint {
+  input: number; // Driver angle of the base four-bar (degrees)
+  theta5: number; // Unwrapped within a run
+  theta6: number;
+  mu: number;
+  omega6: number;
+  alpha6: number;
+}
+
 export interface TrajectoryPoint {
+  input: number; // Driver angle (degrees, in [0, 360])
   theta2: number;
   theta3: number;
   theta4: number;
   Cx: number;
   Cy: number;
+  mu: number;
+  omega2: number;
+  omega3: number;
+  omega4: number;
+  alpha2: number;
+  alpha3: number;
+  alpha4: number;
+  speedC: number; // |vC|
+  accelC: number; // |aC|
+  branch: 1 | -1; // Assembly mode the point was solved on
+}
+
+export interface TrajectorySegment {
+  points: TrajectoryPoint[]; // θ3 and θ4 unwrapped (continuous) within the segment
+  closed: boolean; // True when the coupler curve closes on itself
+}
+
+export type GrashofType =
+  | 'crank-rocker'
+  | 'double-crank'
+  | 'double-rocker'
+  | 'change-point'
+  | 'triple-rocker';
+
+export interface AngleRange {
+  start: number; // degrees, in [0, 360)
+  end: number; // degrees, end > start (may exceed 360 when the range wraps through 0°)
+}
+
+export interface LimitPosition {
+  theta2: number; // degrees, in [0, 360)
+  theta4: number; // degrees
+}
+
+export interface TransmissionExtreme {
+  mu: number; // degrees
+  theta2: number[]; // Crank angles (degrees) where the extreme occurs
+}
+
+export interface TransmissionLimits {
+  min: number; // degrees
+  max: number; // degrees
+}
+
+export interface MechanismClassification {
+  type: GrashofType;
+  isGrashof: boolean;
+  shortestLink: 1 | 2 | 3 | 4;
+  grashofSum: number; // (s + l) - (p + q); negative for Grashof linkages
+  inputFullRotation: boolean;
+  outputFullRotation: boolean;
+  canAssemble: boolean;
+  inputRanges: AngleRange[]; // Allowed driver angle intervals
+  inputLimits: number[]; // Driver angles (degrees) at the dead points, where the driven dyad is collinear
+  outputLimits: LimitPosition[]; // θ2 where crank and coupler are collinear (extremes of θ4)
+  muMin: TransmissionExtreme | null;
+  muMax: TransmissionExtreme | null;
+}
+
+export type GroundLink = 1 | 2 | 3 | 4; // Link held fixed: 1 ground, 2 crank, 3 coupler, 4 output
+
+export interface MechanismPose {
+  A_star: Point;
+  B_star: Point;
+  A: Point;
+  B: Point;
+  C: Point;
+}
+
+export type InstantCenterId = 'I12' | 'I13' | 'I14' | 'I23' | 'I24' | 'I34';
+
+export type InstantCenters = Record<InstantCenterId, Point | null>; // Null when the center lies at infinity
+
+export interface Centrodes {
+  fixed: Point[][]; // Path of I13 on the ground, in global coordinates
+  moving: Point[][]; // Path of I13 on the coupler, in the coupler's frame (origin A, x along AB)
+}
+
+export interface CurvaturePoint {
+  input: number;
+  kappa: number | null; // Signed curvature along the direction of travel; null near a cusp, where it is unbounded
+}
+
+export interface CurveCusp {
+  point: Point;
+  input: number;
+}
+
+export interface CurveCrunode {
+  point: Point;
+  inputs: [number, number]; // Driver angles at the two passes through the point
+}
+
+export interface CurveSpan {
+  kind: 'straight' | 'circular';
+  inputFrom: number;
+  inputTo: number;
+  points: Point[];
+  length: number;
+  deviation: number; // Largest distance of the path from the line or circle
+  center: Point | null; // Circular spans only
+  radius: number | null;
+}
+
+export interface CouplerCurveProperties {
+  arcLength: number;
+  area: number | null; // Area enclosed by the closed segments, each loop counted once; null when none closes
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  curvature: CurvaturePoint[][];
+  cusps: CurveCusp[];
+  crunodes: CurveCrunode[];
+  spans: CurveSpan[]; // Approximately straight or circular stretches within the tolerance
+}
+
+export type ToleranceParam = 'r1' | 'r2' | 'r3' | 'r4' | 'r6' | 'beta';
+
+export interface ToleranceSpec {
+  r1: number; // ± on each length
+  r2: number;
+  r3: number;
+  r4: number;
+  r6: number;
+  beta: number; // ± (degrees)
+  clearance: number; // Radial clearance at each pin joint
+  trials: number;
+}
+
+export interface ToleranceBandPoint {
+  input: number;
+  theta4: number; // Nominal
+  theta4Min: number;
+  theta4Max: number;
+}
+
+export interface ToleranceStudy {
+  envelope: { inner: Point[]; outer: Point[]; closed: boolean }[]; // Per trajectory segment, offset across the nominal path
+  band: ToleranceBandPoint[][];
+  maxDeviation: number; // Largest distance of the coupler point from nominal at the same input
+  maxTheta4Error: number; // Degrees
+  failures: number; // Trials that cannot assemble somewhere along the nominal cycle
+}
+
+export interface Sensitivity {
+  param: ToleranceParam;
+  dC: Point; // ∂C per unit length, or per degree of β
+  dTheta4: number; // ∂θ4 in degrees, on the same basis
+}
+
+export interface BodyPosition {
+  x: number; // Precision point
+  y: number;
+  angle: number; // Body orientation (degrees)
+}
+
+export interface BurmesterDyad {
+  beta2: number; // Rotation of the dyad's crank from position 1 to 2 (degrees)
+  branch: 1 | -1; // Branch of the compatibility linkage
+}
+
+export interface SynthesisState {
+  positions: BodyPosition[]; // Three or four prescribed coupler positions
+  method: 'moving-pivots' | 'fixed-pivots'; // Which pivots are chosen for three positions
+  pivotA: Point; // Chosen pivot of dyad A (A in position 1, or A*)
+  pivotB: Point; // Chosen pivot of dyad B (B in position 1, or B*)
+  dyadA: BurmesterDyad; // Four-position dyad selections
+  dyadB: BurmesterDyad;
+}
+
+export interface SynthesizedPivots {
+  A_star: Point;
+  B_star: Point;
+  A: Point; // Moving pivots in position 1
+  B: Point;
+}
+
+// What the next canvas click places while synthesizing
+export type SynthesisPickTarget =
+  | { kind: 'position'; index: number }
+  | { kind: 'pivot'; dyad: 'A' | 'B' }
+  | { kind: 'target' }; // Path generation targets, added on every click
+
+export interface FunctionSpec {
+  expression: string; // Target y = f(x), in JavaScript syntax with Math functions
+  xStart: number;
+  xEnd: number;
+  theta2Start: number; // Input angle at xStart (degrees, from A*B*)
+  theta2Range: number; // Input swing over the x range (degrees)
+  theta4Start: number; // Output angle at f(xStart)
+  theta4Range: number; // Output swing over the y range
+  points: number; // Precision points (3 exact, more by least squares)
+  r1: number; // Ground length, which sets the scale
+}
+
+export interface PrecisionPoint {
+  x: number;
+  y: number;
+  theta2: number;
+  theta4: number;
+}
+
+export interface FunctionGenerator {
+  spec: FunctionSpec;
+  crankOffset: 0 | 180; // Added to the designed θ2 when Freudenstein gives a negative r2
+  outputOffset: 0 | 180; // Likewise for θ4 and r4
+}
+
+export interface StructuralErrorPoint {
+  input: number; // Crank angle θ2 (degrees)
+  desired: number; // Ideal θ4 for f(x)
+  theta4: number | null; // θ4 produced by the linkage
+  error: number | null; // θ4 − desired (degrees)
+  yError: number | null; // Generated y − f(x)
+}
+
+export interface PathTarget {
+  x: number;
+  y: number;
+  timing: number | null; // Crank rotation from the first timed point (degrees), null if untimed
+}
+
+export interface GroundPose {
+  x: number; // A* position
+  y: number;
+  angle: number; // Direction of A*B* (degrees)
+}
+
+export interface PathOptimizerProgress {
+  iteration: number;
+  evaluations: number;
+  rms: number; // Best RMS distance to the targets so far
+  done: boolean;
+}
+
+export interface StaticLoad {
+  force: number; // External force magnitude at coupler point C
+  direction: number; // Direction of that force (degrees, CCW from +x)
+  torque4: number; // External torque on link 4 (CCW positive)
+}
+
+export interface StaticForces {
+  torque2: number; // Crank torque needed for equilibrium (CCW positive)
+  F12: Point; // Ground on link 2, at A*
+  F23: Point; // Link 2 on link 3, at A
+  F34: Point; // Link 3 on link 4, at B
+  F14: Point; // Ground on link 4, at B*
+  torqueRatio: number | null; // |T4 / T2|, when a torque acts on link 4
+  forceRatio: number | null; // |F| / (|T2| / r2), load at C per unit tangential effort at A
+}
+
+export interface StaticsPoint {
+  input: number;
+  torque2: number;
+  reactionA_star: number; // Pin force magnitudes
+  reactionA: number;
+  reactionB: number;
+  reactionB_star: number;
+}
+
+export interface DynamicForces {
+  torque2: number; // Input torque on the crank (CCW positive)
+  F12: Point; // Ground on link 2, at A*
+  F23: Point; // Link 2 on link 3, at A
+  F34: Point; // Link 3 on link 4, at B
+  F14: Point; // Ground on link 4, at B*
+  shakingForce: Point; // Net force of the moving links on the frame
+  shakingMoment: number; // Net moment on the frame about A*
+}
+
+export interface DynamicsPoint {
+  input: number; // Crank angle θ2 (degrees)
+  torque2: number;
+  shakingForce: number; // Magnitude
+  shakingMoment: number;
+  reactionA_star: number; // Pin force magnitudes
+  reactionA: number;
+  reactionB: number;
+  reactionB_star: number;
+}
+
+export interface CycleStats {
+  rms: number;
+  peak: number; // Largest magnitude
+}
+
+export type DynamicsStats = Record<Exclude<keyof DynamicsPoint, 'input'>, CycleStats>;
+
+export type AtlasParameter = 'r1' | 'r2' | 'r3' | 'r4' | 'r6' | 'beta';
+
+export interface AtlasAxis {
+  parameter: AtlasParameter;
+  min: number;
+  max: number;
+  count: number; // Number of grid cells along this axis
+}
+
+export type EditableJoint = 'B_star' | 'A' | 'B' | 'C';
+
+export type LockableDimension = 'r1' | 'r2' | 'r3' | 'r4' | 'r6' | 'beta';
+
+export type EditLocks = Record<LockableDimension, boolean>;
+
+export type AnimationFormat = 'apng' | 'png-sequence';
+
+export interface AnimationExportOptions {
+  frames: number; // Evenly spaced crank angles
+  format: AnimationFormat;
+  fps: number;
+  width: number; // Pixels; the height follows the visible canvas
+}
+
+export type TrajectoryColumn =
+  | 'input'
+  | 'theta2'
+  | 'theta3'
+  | 'theta4'
+  | 'mu'
+  | 'Ax'
+  | 'Ay'
+  | 'Bx'
+  | 'By'
+  | 'Cx'
+  | 'Cy'
+  | 'omega2'
+  | 'omega3'
+  | 'omega4'
+  | 'alpha2'
+  | 'alpha3'
+  | 'alpha4'
+  | 'speedC'
+  | 'accelC'
+  | 'branch';
+
+export interface TrajectoryExportOptions {
+  step: number; // Driver angle spacing (degrees)
+  columns: TrajectoryColumn[];
+  angleUnit: 'deg' | 'rad';
+}
+
+export interface MeasuredPoints {
+  name: string; // Source file name
+  points: Point[]; // In global coordinates
+}
+
+export interface ViewBox {
+  x: number; // Canvas view in SVG coordinates (y down)
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AnimationSettings {
+  isPlaying: boolean;
+  speed: number; // Multiplier on the base driver speed
+  followBranches: boolean;
+}
+
+// Everything a saved design restores
+export interface DesignSnapshot {
+  config: LinkageConfig;
+  assemblyMode: 1 | -1;
+  viewBox: ViewBox;
+  animation: AnimationSettings;
+}
+
+export interface SavedDesign extends DesignSnapshot {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp of the last save or rename
+}
+
+// The part of the app state that undo and redo step through
+export interface EditState {
+  config: LinkageConfig;
+  assemblyMode: 1 | -1;
+}
+
+export interface ParameterChange {
+  param: string; // Config key, or a dotted path into the mass properties
+  label: string;
+  from: string; // Formatted values
+  to: string;
+}
+
+export interface HistoryEntry {
+  before: EditState;
+  after: EditState;
+  changes: ParameterChange[];
+  time: number; // When the entry was last extended (ms)
+  gesture: number | null; // Pointer gesture that made the entry; null for keyboard edits
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number; // Entries before this one are applied; those from it on can be redone
 }
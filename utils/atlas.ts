@@ -0,0 +1,67 @@
+import { AtlasAxis, AtlasParameter, LinkageConfig, Point } from '../types';
+import { computeTrajectory } from './trajectory';
+
+export interface AtlasCell {
+  x: number; // Value of the horizontal axis parameter
+  y: number; // Value of the vertical axis parameter
+  curve: Point[][]; // Coupler curve, one run per trajectory segment
+}
+
+export const ATLAS_PARAMETERS: Record<AtlasParameter, { label: string; unit: string }> = {
+  r1: { label: 'Ground r₁', unit: '' },
+  r2: { label: 'Crank r₂', unit: '' },
+  r3: { label: 'Coupler r₃', unit: '' },
+  r4: { label: 'Output r₄', unit: '' },
+  r6: { label: 'Distance AC r₆', unit: '' },
+  beta: { label: 'Angle β', unit: '°' },
+};
+
+// Coarser than the main view: the atlas solves a full trajectory for every cell
+const ATLAS_STEP = 4;
+
+/**
+ * Evenly spaced values from min to max inclusive.
+ */
+export const axisValues = ({ min, max, count }: AtlasAxis): number[] =>
+  count <= 1 ? [min] : Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+
+/**
+ * A sensible span for a parameter: β around the full circle, lengths from half to one and a half
+ * times their current value (r₆ from a quarter to one and a half coupler lengths).
+ */
+export const defaultAxisRange = (config: LinkageConfig, parameter: AtlasParameter): { min: number; max: number } => {
+  if (parameter === 'beta') return { min: -150, max: 180 };
+  if (parameter === 'r6') return { min: 0.25 * config.r3, max: 1.5 * config.r3 };
+  return { min: 0.5 * config[parameter], max: 1.5 * config[parameter] };
+};
+
+/**
+ * The default Hrones–Nelson layout: β across and r₆ down.
+ */
+export const defaultAtlasAxes = (config: LinkageConfig): { x: AtlasAxis; y: AtlasAxis } => ({
+  x: { parameter: 'beta', ...defaultAxisRange(config, 'beta'), count: 12 },
+  y: { parameter: 'r6', ...defaultAxisRange(config, 'r6'), count: 6 },
+});
+
+/**
+ * Coupler curves over a grid of two parameters, every other parameter fixed from `config`.
+ * Rows run from the largest y value down, so the grid reads like a plotted y axis.
+ */
+export const buildAtlas = (
+  config: LinkageConfig,
+  xAxis: AtlasAxis,
+  yAxis: AtlasAxis,
+  assemblyMode: 1 | -1,
+  followBranches: boolean
+): AtlasCell[][] => {
+  const xs = axisValues(xAxis);
+  return axisValues(yAxis)
+    .reverse()
+    .map((y) =>
+      xs.map((x) => {
+        const cellConfig = { ...config, [yAxis.parameter]: y, [xAxis.parameter]: x };
+        const segments = computeTrajectory(cellConfig, assemblyMode, { step: ATLAS_STEP, followBranches });
+        return { x, y, curve: segments.map(({ points }) => points.map((p) => ({ x: p.Cx, y: p.Cy }))) };
+      })
+    );
+};
@@ -0,0 +1,246 @@
+import {
+  AngleRange,
+  DriverLink,
+  GrashofType,
+  GroundLink,
+  LimitPosition,
+  LinkageConfig,
+  MechanismClassification,
+  TransmissionExtreme,
+} from '../types';
+import { solveLinkage, toDeg, transmissionAngle } from './math';
+
+const EPS = 1e-9;
+
+export const GRASHOF_LABELS: Record<GrashofType, string> = {
+  'crank-rocker': 'Crank-Rocker',
+  'double-crank': 'Double-Crank',
+  'double-rocker': 'Double-Rocker',
+  'change-point': 'Change-Point',
+  'triple-rocker': 'Triple-Rocker',
+};
+
+const normalizeAngle = (deg: number) => ((deg % 360) + 360) % 360;
+
+/**
+ * A link pinned to ground can make a full turn when the distance from its moving
+ * pivot to the far ground pivot, which sweeps [|ground - link|, ground + link],
+ * always stays reachable by the dyad (a, b) closing the loop.
+ */
+const canFullyRotate = (ground: number, link: number, a: number, b: number) =>
+  Math.abs(ground - link) >= Math.abs(a - b) - EPS && ground + link <= a + b + EPS;
+
+/**
+ * Angle between the ground (length g) and a grounded link (length b) at which the
+ * diagonal closing their triangle has length d (law of cosines). Returns a value in [0, 180].
+ */
+const angleForDiagonal = (g: number, b: number, d: number) => {
+  const c = (g ** 2 + b ** 2 - d ** 2) / (2 * g * b);
+  return toDeg(Math.acos(Math.max(-1, Math.min(1, c))));
+};
+
+/**
+ * Each driver sweeps a diagonal of length d² = g² + b² − 2·g·b·cos(φ) that the
+ * remaining dyad (p, q) must close, where φ = input angle + offset:
+ * - crank:   d = |AB*|, φ = θ2
+ * - rocker:  d = |BA*|, φ = θ4 + 180°
+ * - coupler: d = |A*(B* − AB)|, φ = θ3
+ */
+const DRIVER_GEOMETRY: Record<DriverLink, (c: LinkageConfig) => { b: number; p: number; q: number; offset: number }> = {
+  crank: ({ r2, r3, r4 }) => ({ b: r2, p: r3, q: r4, offset: 0 }),
+  rocker: ({ r2, r3, r4 }) => ({ b: r4, p: r2, q: r3, offset: 180 }),
+  coupler: ({ r2, r3, r4 }) => ({ b: r3, p: r2, q: r4, offset: 0 }),
+};
+
+/**
+ * Allowed input intervals and dead points for the driver, in the driver's own angle.
+ * φ is measured from the ground link, so the ground angle θ1 adds to every result.
+ */
+const findInputRanges = (config: LinkageConfig) => {
+  const g = config.r1;
+  const geometry = DRIVER_GEOMETRY[config.driver](config);
+  const { b, p, q } = geometry;
+  const offset = geometry.offset - config.theta1;
+  const ranges: AngleRange[] = [];
+  const limits: number[] = [];
+
+  const dLo = Math.max(Math.abs(p - q), Math.abs(g - b));
+  const dHi = Math.min(p + q, g + b);
+  if (dLo > dHi + EPS) return { canAssemble: false, ranges, limits };
+
+  const hasLower = Math.abs(p - q) > Math.abs(g - b) + EPS;
+  const hasUpper = p + q < g + b - EPS;
+  const phiLo = hasLower ? angleForDiagonal(g, b, dLo) : 0;
+  const phiHi = hasUpper ? angleForDiagonal(g, b, dHi) : 180;
+
+  if (!hasLower && !hasUpper) {
+    ranges.push({ start: 0, end: 360 });
+  } else if (!hasLower) {
+    ranges.push({ start: 360 - phiHi, end: 360 + phiHi });
+  } else if (!hasUpper) {
+    ranges.push({ start: phiLo, end: 360 - phiLo });
+  } else {
+    ranges.push({ start: phiLo, end: phiHi }, { start: 360 - phiHi, end: 360 - phiLo });
+  }
+  if (hasLower) limits.push(phiLo, 360 - phiLo);
+  if (hasUpper) limits.push(phiHi, 360 - phiHi);
+
+  // Shift from φ back to the driver angle
+  const shifted = ranges.map(({ start, end }) => {
+    const from = normalizeAngle(start - offset);
+    return { start: from, end: from + (end - start) };
+  });
+  const isFull = shifted.length === 1 && shifted[0].end - shifted[0].start >= 360 - EPS;
+  return {
+    canAssemble: true,
+    ranges: isFull ? [{ start: 0, end: 360 }] : shifted.sort((x, y) => x.start - y.start),
+    limits: limits.map((l) => normalizeAngle(l - offset)).sort((x, y) => x - y),
+  };
+};
+
+/**
+ * Crank angles at which crank and coupler are collinear (extended or folded),
+ * i.e. the positions where the output link momentarily stops.
+ * Only those on the requested assembly branch are returned.
+ * Found with the ground along +x from the origin, then turned by θ1.
+ */
+const findOutputLimits = (config: LinkageConfig, assemblyMode: 1 | -1): LimitPosition[] => {
+  const { r1, r2, r3, r4 } = config;
+  const local: LinkageConfig = { ...config, groundX: 0, groundY: 0, theta1: 0 };
+  const limits: LimitPosition[] = [];
+  const tol = 1e-6 * (r1 + r2 + r3 + r4);
+
+  // |A*B| = r2 + r3 (extended) or |r3 - r2| (folded)
+  for (const L of [r2 + r3, Math.abs(r3 - r2)]) {
+    if (L < EPS) continue;
+    const x = (L ** 2 - r4 ** 2 + r1 ** 2) / (2 * r1);
+    const y2 = L ** 2 - x ** 2;
+    if (y2 < -tol) continue;
+    const y = Math.sqrt(Math.max(0, y2));
+
+    for (const By of y === 0 ? [0] : [y, -y]) {
+      let theta2 = toDeg(Math.atan2(By, x));
+      // Folded with the coupler longer than the crank: A points away from B
+      if (L !== r2 + r3 && r3 > r2) theta2 += 180;
+      theta2 = normalizeAngle(theta2);
+
+      const sol = solveLinkage({ ...local, driver: 'crank', theta2 }, assemblyMode);
+      if (!sol.isValid) continue;
+      if (Math.hypot(sol.Bx - x, sol.By - By) > 100 * tol) continue;
+      if (limits.some((l) => Math.abs(l.theta2 - theta2) < 1e-6)) continue;
+      limits.push({ theta2, theta4: sol.theta4 });
+    }
+  }
+
+  return limits
+    .map((l) => ({ theta2: normalizeAngle(l.theta2 + config.theta1), theta4: ((l.theta4 + config.theta1 + 540) % 360) - 180 }))
+    .sort((a, b) => a.theta2 - b.theta2);
+};
+
+/**
+ * Grashof type of the linkage with the given link held fixed. The sum s + l − (p + q)
+ * is the same for every inversion; only the position of the shortest link relative
+ * to the ground changes the type.
+ */
+export const grashofType = (config: LinkageConfig, ground: GroundLink) => {
+  const links = [config.r1, config.r2, config.r3, config.r4];
+  const sorted = [...links].sort((a, b) => a - b);
+  const grashofSum = sorted[0] + sorted[3] - (sorted[1] + sorted[2]);
+  const shortestLink = (links.indexOf(sorted[0]) + 1) as GroundLink;
+  const scale = sorted[3] || 1;
+
+  let type: GrashofType;
+  if (Math.abs(grashofSum) < 1e-9 * scale) {
+    type = 'change-point';
+  } else if (grashofSum > 0) {
+    type = 'triple-rocker';
+  } else if (shortestLink === ground) {
+    type = 'double-crank';
+  } else if (Math.abs(shortestLink - ground) === 2) {
+    type = 'double-rocker';
+  } else {
+    type = 'crank-rocker';
+  }
+  return { type, grashofSum, shortestLink };
+};
+
+/**
+ * Grashof classification plus the driver's input range and limit positions.
+ * r1 is the ground, r2 the crank, r3 the coupler and r4 the output; the Grashof type,
+ * output limits and transmission extremes are always reported relative to the crank.
+ */
+export const classifyLinkage = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1 = 1
+): MechanismClassification => {
+  const { r1, r2, r3, r4 } = config;
+  const { type, grashofSum, shortestLink } = grashofType(config, 1);
+  const scale = Math.max(r1, r2, r3, r4) || 1;
+
+  const { canAssemble, ranges: inputRanges, limits: inputLimits } = findInputRanges(config);
+
+  // μ depends only on the diagonal |AB*|, which grows with θ2 on [0°, 180°],
+  // so its extremes sit at the ends of the crank's reachable range of |AB*|
+  let muMin: TransmissionExtreme | null = null;
+  let muMax: TransmissionExtreme | null = null;
+  const dLo = Math.max(Math.abs(r3 - r4), Math.abs(r1 - r2));
+  const dHi = Math.min(r3 + r4, r1 + r2);
+  if (canAssemble) {
+    const atAngle = (theta: number) =>
+      (theta < EPS || theta > 180 - EPS ? [theta] : [theta, 360 - theta]).map((t) => normalizeAngle(t + config.theta1));
+    muMin = { mu: transmissionAngle(r3, r4, dLo), theta2: atAngle(angleForDiagonal(r1, r2, dLo)) };
+    muMax = { mu: transmissionAngle(r3, r4, dHi), theta2: atAngle(angleForDiagonal(r1, r2, dHi)) };
+  }
+
+  return {
+    type,
+    isGrashof: grashofSum <= 1e-9 * scale,
+    shortestLink,
+    grashofSum,
+    inputFullRotation: canFullyRotate(r1, r2, r3, r4),
+    outputFullRotation: canFullyRotate(r1, r4, r2, r3),
+    canAssemble,
+    inputRanges,
+    inputLimits,
+    outputLimits: canAssemble ? findOutputLimits(config, assemblyMode) : [],
+    muMin,
+    muMax,
+  };
+};
+
+/**
+ * Formats an input range for display, showing wrapped ranges as -a° … b°.
+ */
+export const formatAngleRange = ({ start, end }: AngleRange) => {
+  if (end - start >= 360 - EPS) return '0° … 360° (full)';
+  const from = end > 360 ? start - 360 : start;
+  const to = end > 360 ? end - 360 : end;
+  return `${from.toFixed(1)}° … ${to.toFixed(1)}°`;
+};
+
+/**
+ * Complement of the allowed input ranges within [0, 360], as [from, to] pairs.
+ * Used to shade the dead zones of the crank.
+ */
+export const blockedInputIntervals = (ranges: AngleRange[]): [number, number][] => {
+  if (ranges.length === 0) return [[0, 360]];
+
+  const allowed: [number, number][] = [];
+  for (const { start, end } of ranges) {
+    if (end > 360) {
+      allowed.push([start, 360], [0, end - 360]);
+    } else {
+      allowed.push([start, end]);
+    }
+  }
+  allowed.sort((a, b) => a[0] - b[0]);
+
+  const blocked: [number, number][] = [];
+  let cursor = 0;
+  for (const [from, to] of allowed) {
+    if (from > cursor + EPS) blocked.push([cursor, from]);
+    cursor = Math.max(cursor, to);
+  }
+  if (cursor < 360 - EPS) blocked.push([cursor, 360]);
+  return blocked;
+};
@@ -0,0 +1,97 @@
+import { LinkageConfig, LinkageSolution, MechanismPose } from '../types';
+import { poseFromSolution } from './inversion';
+import { groundPivots, solveLinkage, toDeg, toRad } from './math';
+
+export interface Cognate {
+  config: LinkageConfig; // Grounded where it sits alongside the original
+  assemblyMode: 1 | -1;
+}
+
+/**
+ * Joint positions of a cognate, or null if it does not assemble.
+ */
+export const cognatePose = (cognate: Cognate): MechanismPose | null => {
+  const sol = solveLinkage(cognate.config, cognate.assemblyMode);
+  return sol.isValid ? poseFromSolution(cognate.config, sol) : null;
+};
+
+/**
+ * The two Roberts–Chebyshev cognates of the linkage in its current pose. With the coupler
+ * triangle written as C − A = k·(B − A), the third ground pivot is O_C = A* + k·(B* − A*), and
+ *  - cognate 1 (A*, O_C) is every link of the original rotated by β and scaled by |k|, except its
+ *    crank, which is parallel to AC;
+ *  - cognate 2 (O_C, B*) is scaled by |1 − k|, with its rocker parallel to BC.
+ * Each is returned crank-driven and grounded in place, on the branch that matches the original pose,
+ * with its input speed set so that it moves in step with the original. Null when the linkage
+ * does not assemble or the coupler point lies on line AB at A or B, where a cognate degenerates.
+ */
+export const cognates = (config: LinkageConfig, sol: LinkageSolution): [Cognate, Cognate] | null => {
+  if (!sol.isValid) return null;
+  const { r1, r2, r3, r4, r6, beta } = config;
+  const kAbs = r6 / r3;
+  const b = toRad(beta);
+  // 1 − k
+  const mx = 1 - kAbs * Math.cos(b);
+  const my = -kAbs * Math.sin(b);
+  const mAbs = Math.hypot(mx, my);
+  if (!(kAbs > 1e-9) || !(mAbs > 1e-9)) return null;
+  const phi = toDeg(Math.atan2(my, mx));
+  const kAngle = beta;
+  const { A_star } = groundPivots(config);
+  const t1 = toRad(config.theta1);
+  const oc = {
+    x: A_star.x + r1 * kAbs * Math.cos(t1 + b),
+    y: A_star.y + r1 * kAbs * Math.sin(t1 + b),
+  };
+
+  // Link angles carry over as derived above, turned with each cognate's ground: cognate 1 has
+  // θ2' = θ3, θ3' = θ2, θ4' = θ4 plus β; cognate 2 has θ2'' = θ2, θ3'' = θ4 + 180°,
+  // θ4'' = θ3 + 180° plus arg(1 − k).
+  const first: LinkageConfig = {
+    ...config,
+    theta1: config.theta1 + kAngle,
+    r1: kAbs * r1,
+    r2: r6,
+    r3: kAbs * r2,
+    r4: kAbs * r4,
+    r6: r2,
+    beta: -beta,
+    driver: 'crank',
+    theta2: sol.theta3 + kAngle,
+    theta3: sol.theta2 + kAngle,
+    theta4: sol.theta4 + kAngle,
+    inputOmega: sol.omega3,
+    inputAlpha: sol.alpha3,
+  };
+  const second: LinkageConfig = {
+    ...config,
+    groundX: oc.x,
+    groundY: oc.y,
+    theta1: config.theta1 + phi,
+    r1: mAbs * r1,
+    r2: mAbs * r2,
+    r3: mAbs * r4,
+    r4: mAbs * r3,
+    r6: kAbs * r4,
+    // arg(k / (k − 1))
+    beta: kAngle - toDeg(Math.atan2(-my, -mx)),
+    driver: 'crank',
+    theta2: sol.theta2 + phi,
+    theta3: sol.theta4 + 180 + phi,
+    theta4: sol.theta3 + 180 + phi,
+    inputOmega: sol.omega2,
+    inputAlpha: sol.alpha2,
+  };
+
+  // The branch on which the cognate's coupler point lands on the original's
+  const withBranch = (cognate: LinkageConfig): Cognate => {
+    const candidates = ([1, -1] as const).map((assemblyMode) => {
+      const c = cognatePose({ config: cognate, assemblyMode })?.C;
+      return { assemblyMode, error: c ? Math.hypot(c.x - sol.Cx, c.y - sol.Cy) : Infinity };
+    });
+    const best = candidates[0].error <= candidates[1].error ? candidates[0] : candidates[1];
+    return { config: cognate, assemblyMode: best.assemblyMode };
+  };
+
+  return [withBranch(first), withBranch(second)];
+};
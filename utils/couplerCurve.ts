@@ -0,0 +1,319 @@
+import {
+  CouplerCurveProperties,
+  CurvaturePoint,
+  CurveCrunode,
+  CurveCusp,
+  CurveSpan,
+  LinkageConfig,
+  Point,
+  TrajectorySegment,
+} from '../types';
+import { solveLinkage, withInputAngle } from './math';
+
+// Curvature beyond this many times the inverse path size is left off the curvature chart
+const CURVATURE_LIMIT = 200;
+// Shortest straight or circular span reported, as a fraction of its segment's arc length
+const MIN_SPAN_FRACTION = 0.1;
+// Largest circle radius reported, in path sizes; flatter arcs count as straight or not at all
+const MAX_RADIUS = 10;
+// Crossings between path edges closer than this many samples apart are sampling artifacts,
+// where the path doubles back at a cusp or turns round at a toggle
+const MIN_CROSSING_GAP = 4;
+// Edges meeting at less than this angle (sine) overlap where the path retraces itself,
+// rather than cross
+const MIN_CROSSING_SINE = Math.sin((2 * Math.PI) / 180);
+
+interface PathSample {
+  p: Point;
+  input: number;
+  v: Point; // dC/dθ along the direction of travel
+  kappa: number;
+}
+
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Signed change of driver angle between samples, across the wrap at 360°
+const inputStep = (from: number, to: number) => ((((to - from) % 360) + 540) % 360) - 180;
+
+/**
+ * Coupler point velocity and curvature at each sample, per unit driver rotation. Segments
+ * traced back along the other branch run the driver backwards, so the velocity is turned
+ * to point along the direction of travel.
+ */
+const samplePath = (config: LinkageConfig, segment: TrajectorySegment): PathSample[] => {
+  const { points } = segment;
+  return points.map((pt, i) => {
+    const sol = solveLinkage({ ...withInputAngle(config, pt.input), inputOmega: 1, inputAlpha: 0 }, pt.branch);
+    const ahead = i + 1 < points.length ? inputStep(pt.input, points[i + 1].input) : 0;
+    const behind = i > 0 ? inputStep(points[i - 1].input, pt.input) : 0;
+    const direction = (ahead || behind) < 0 ? -1 : 1;
+    const v = { x: direction * sol.vC.x, y: direction * sol.vC.y };
+    const speed = Math.hypot(v.x, v.y);
+    return { p: { x: pt.Cx, y: pt.Cy }, input: pt.input, v, kappa: cross(v, sol.aC) / speed ** 3 };
+  });
+};
+
+const polylineLength = (points: Point[], from: number, to: number) => {
+  let length = 0;
+  for (let k = from; k < to; k++) length += dist(points[k], points[k + 1]);
+  return length;
+};
+
+/**
+ * Largest distance of points[from..to] from the line through its end points.
+ */
+const lineDeviation = (points: Point[], from: number, to: number) => {
+  const a = points[from];
+  const chord = sub(points[to], a);
+  const length = Math.hypot(chord.x, chord.y);
+  if (length < 1e-12) return Infinity;
+  let worst = 0;
+  for (let k = from + 1; k < to; k++) worst = Math.max(worst, Math.abs(cross(chord, sub(points[k], a))) / length);
+  return worst;
+};
+
+/**
+ * Circle through three points, or null when they are collinear.
+ */
+const circleThrough = (a: Point, b: Point, c: Point): { center: Point; radius: number } | null => {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-12) return null;
+  const a2 = a.x ** 2 + a.y ** 2;
+  const b2 = b.x ** 2 + b.y ** 2;
+  const c2 = c.x ** 2 + c.y ** 2;
+  const center = {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d,
+  };
+  return { center, radius: dist(center, a) };
+};
+
+/**
+ * Circle through the ends and middle of points[from..to], with the largest distance of the
+ * stretch from it.
+ */
+const circleFit = (points: Point[], from: number, to: number) => {
+  const circle = circleThrough(points[from], points[Math.round((from + to) / 2)], points[to]);
+  if (!circle) return null;
+  let deviation = 0;
+  for (let k = from; k <= to; k++) deviation = Math.max(deviation, Math.abs(dist(points[k], circle.center) - circle.radius));
+  return { ...circle, deviation };
+};
+
+/**
+ * Maximal stretches of consecutive samples that `fits` accepts, grown greedily from each
+ * start and kept when at least `minLength` long.
+ */
+const findStretches = (points: Point[], fits: (from: number, to: number) => boolean, minLength: number) => {
+  const stretches: [number, number][] = [];
+  let from = 0;
+  while (from < points.length - 2) {
+    let to = from + 2;
+    if (!fits(from, to)) {
+      from++;
+      continue;
+    }
+    while (to + 1 < points.length && fits(from, to + 1)) to++;
+    if (polylineLength(points, from, to) >= minLength) {
+      stretches.push([from, to]);
+      from = to;
+    } else {
+      from++;
+    }
+  }
+  return stretches;
+};
+
+/**
+ * Approximately straight and circular spans of one segment's path. A closed path is scanned
+ * from its sharpest point, so a span is not cut in two where the samples start.
+ */
+const findSpans = (samples: PathSample[], closed: boolean, tolerance: number, size: number): CurveSpan[] => {
+  let ordered = samples;
+  if (closed && samples.length > 0) {
+    const sharpest = samples.reduce((best, s, i) => (Math.abs(s.kappa) > Math.abs(samples[best].kappa) ? i : best), 0);
+    ordered = [...samples.slice(sharpest), ...samples.slice(0, sharpest + 1)];
+  }
+  const points = ordered.map((s) => s.p);
+  const minLength = MIN_SPAN_FRACTION * polylineLength(points, 0, points.length - 1);
+  const isStraight = (from: number, to: number) => lineDeviation(points, from, to) <= tolerance;
+  const isCircular = (from: number, to: number) => {
+    const fit = circleFit(points, from, to);
+    return !!fit && fit.deviation <= tolerance && fit.radius <= MAX_RADIUS * size;
+  };
+  const span = (kind: CurveSpan['kind'], [from, to]: [number, number]): CurveSpan => {
+    const fit = kind === 'circular' ? circleFit(points, from, to) : null;
+    return {
+      kind,
+      inputFrom: ordered[from].input,
+      inputTo: ordered[to].input,
+      points: points.slice(from, to + 1),
+      length: polylineLength(points, from, to),
+      deviation: fit ? fit.deviation : lineDeviation(points, from, to),
+      center: fit && fit.center,
+      radius: fit && fit.radius,
+    };
+  };
+
+  // A stretch of a reported arc is not also reported as straight, and an arc lying mostly
+  // along a straight span is left out, as is one that is straight within the tolerance
+  const overlap = ([a, b]: [number, number], [c, d]: [number, number]) => Math.max(0, Math.min(b, d) - Math.max(a, c));
+  const arcs = findStretches(points, isCircular, minLength).filter(([from, to]) => !isStraight(from, to));
+  const straights = findStretches(points, isStraight, minLength).filter(
+    (s) => !arcs.some((arc) => overlap(s, arc) === s[1] - s[0])
+  );
+  return [
+    ...straights.map((s) => span('straight', s)),
+    ...arcs.filter((arc) => !straights.some((s) => overlap(s, arc) > (arc[1] - arc[0]) / 2)).map((s) => span('circular', s)),
+  ];
+};
+
+/**
+ * Cusps, where the coupler point stops and the path's tangent reverses between samples.
+ * Each is placed at the slower of the two samples.
+ */
+const findCusps = (samples: PathSample[], closed: boolean): CurveCusp[] => {
+  const cusps: CurveCusp[] = [];
+  const count = closed ? samples.length : samples.length - 1;
+  for (let i = 0; i < count; i++) {
+    const a = samples[i];
+    const b = samples[(i + 1) % samples.length];
+    if (dot(a.v, b.v) < 0) {
+      const slower = Math.hypot(a.v.x, a.v.y) < Math.hypot(b.v.x, b.v.y) ? a : b;
+      cusps.push({ point: slower.p, input: slower.input });
+    }
+  }
+  return cusps;
+};
+
+/**
+ * Crossing of edges p1→p2 and q1→q2, as the fraction along each, or null when they miss or
+ * run nearly parallel.
+ */
+const edgeCrossing = (p1: Point, p2: Point, q1: Point, q2: Point) => {
+  const u = sub(p2, p1);
+  const w = sub(q2, q1);
+  const det = cross(u, w);
+  if (!(Math.abs(det) > MIN_CROSSING_SINE * Math.hypot(u.x, u.y) * Math.hypot(w.x, w.y))) return null;
+  const d = sub(q1, p1);
+  const s = cross(d, w) / det;
+  const t = cross(d, u) / det;
+  return s >= 0 && s < 1 && t >= 0 && t < 1 ? { s, t } : null;
+};
+
+/**
+ * Area enclosed by a closed path, counting every loop once whichever way it is traced. The
+ * path is split at its first self-crossing into the loop that closes there and the rest,
+ * until no piece crosses itself; a figure eight's lobes would cancel in a single shoelace sum.
+ */
+const loopArea = (points: Point[]): number => {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + MIN_CROSSING_GAP; j < n && n - (j - i) >= MIN_CROSSING_GAP; j++) {
+      const hit = edgeCrossing(points[i], points[i + 1], points[j], points[(j + 1) % n]);
+      if (!hit) continue;
+      const edge = sub(points[i + 1], points[i]);
+      const at = { x: points[i].x + hit.s * edge.x, y: points[i].y + hit.s * edge.y };
+      return loopArea([at, ...points.slice(i + 1, j + 1)]) + loopArea([...points.slice(0, i + 1), at, ...points.slice(j + 1)]);
+    }
+  }
+  let twice = 0;
+  points.forEach((p, i) => (twice += cross(p, points[(i + 1) % n])));
+  return Math.abs(twice) / 2;
+};
+
+/**
+ * Crunodes, where the path crosses itself, from crossings between its edges. Edges of the
+ * same segment only a few samples apart are skipped.
+ */
+const findCrunodes = (paths: { samples: PathSample[]; closed: boolean }[]): CurveCrunode[] => {
+  const edges = paths.flatMap(({ samples, closed }, path) => {
+    const count = closed ? samples.length : samples.length - 1;
+    return Array.from({ length: Math.max(count, 0) }, (_, i) => ({
+      path,
+      index: i,
+      count: samples.length,
+      from: samples[i],
+      to: samples[(i + 1) % samples.length],
+    }));
+  });
+
+  const crunodes: CurveCrunode[] = [];
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const e = edges[i];
+      const f = edges[j];
+      if (e.path === f.path) {
+        const gap = f.index - e.index;
+        if (Math.min(gap, paths[e.path].closed ? e.count - gap : Infinity) < MIN_CROSSING_GAP) continue;
+      }
+      const hit = edgeCrossing(e.from.p, e.to.p, f.from.p, f.to.p);
+      if (!hit) continue;
+      const at = (edge: typeof e, k: number) => edge.from.input + k * inputStep(edge.from.input, edge.to.input);
+      const wrap = (t: number) => ((t % 360) + 360) % 360;
+      crunodes.push({
+        point: { x: e.from.p.x + hit.s * (e.to.p.x - e.from.p.x), y: e.from.p.y + hit.s * (e.to.p.y - e.from.p.y) },
+        inputs: [wrap(at(e, hit.s)), wrap(at(f, hit.t))],
+      });
+    }
+  }
+  return crunodes;
+};
+
+/**
+ * Geometric properties of the coupler curve: its length, enclosed area and extent, the
+ * curvature along it, its cusps and crunodes, and the stretches that stay within
+ * `tolerance` of a straight line or a circle.
+ */
+export const couplerCurveProperties = (
+  config: LinkageConfig,
+  segments: TrajectorySegment[],
+  tolerance: number
+): CouplerCurveProperties | null => {
+  const all = segments.flatMap((s) => s.points);
+  if (all.length < 2) return null;
+
+  const xs = all.map((p) => p.Cx);
+  const ys = all.map((p) => p.Cy);
+  const bounds = { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  const size = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1e-9);
+
+  const sampled = segments.map((segment) => samplePath(config, segment));
+  // A closed segment repeats its first sample at the end when it spans a full turn
+  const paths = segments.map((segment, i) => {
+    const samples = sampled[i];
+    const n = samples.length;
+    const repeated = segment.closed && n > 1 && dist(samples[0].p, samples[n - 1].p) < 1e-9;
+    return { samples: repeated ? samples.slice(0, -1) : samples, closed: segment.closed };
+  });
+
+  let arcLength = 0;
+  let area: number | null = null;
+  paths.forEach(({ samples, closed }) => {
+    const points = samples.map((s) => s.p);
+    arcLength += polylineLength(points, 0, points.length - 1);
+    if (!closed || points.length < 3) return;
+    arcLength += dist(points[points.length - 1], points[0]);
+    area = (area ?? 0) + loopArea(points);
+  });
+
+  const curvature: CurvaturePoint[][] = sampled.map((samples) =>
+    samples.map((s) => ({
+      input: s.input,
+      kappa: Number.isFinite(s.kappa) && Math.abs(s.kappa) * size <= CURVATURE_LIMIT ? s.kappa : null,
+    }))
+  );
+
+  return {
+    arcLength,
+    area,
+    bounds,
+    curvature,
+    cusps: paths.flatMap(({ samples, closed }) => findCusps(samples, closed)),
+    crunodes: findCrunodes(paths),
+    spans: paths.flatMap(({ samples, closed }) => findSpans(samples, closed, tolerance, size)),
+  };
+};
@@ -0,0 +1,212 @@
+import {
+  LinkageConfig,
+  Point,
+  TrajectoryColumn,
+  TrajectoryExportOptions,
+  TrajectoryPoint,
+  TrajectorySegment,
+} from '../types';
+import { poseFromTrajectoryPoint } from './inversion';
+import { toRad } from './math';
+import { computeTrajectory } from './trajectory';
+
+type ColumnKind = 'angle' | 'length' | 'angularVelocity' | 'angularAcceleration' | 'speed' | 'acceleration' | 'count';
+
+export const TRAJECTORY_COLUMNS: Record<TrajectoryColumn, { label: string; kind: ColumnKind }> = {
+  input: { label: 'Input angle', kind: 'angle' },
+  theta2: { label: 'θ₂', kind: 'angle' },
+  theta3: { label: 'θ₃', kind: 'angle' },
+  theta4: { label: 'θ₄', kind: 'angle' },
+  mu: { label: 'μ', kind: 'angle' },
+  Ax: { label: 'Ax', kind: 'length' },
+  Ay: { label: 'Ay', kind: 'length' },
+  Bx: { label: 'Bx', kind: 'length' },
+  By: { label: 'By', kind: 'length' },
+  Cx: { label: 'Cx', kind: 'length' },
+  Cy: { label: 'Cy', kind: 'length' },
+  omega2: { label: 'ω₂', kind: 'angularVelocity' },
+  omega3: { label: 'ω₃', kind: 'angularVelocity' },
+  omega4: { label: 'ω₄', kind: 'angularVelocity' },
+  alpha2: { label: 'α₂', kind: 'angularAcceleration' },
+  alpha3: { label: 'α₃', kind: 'angularAcceleration' },
+  alpha4: { label: 'α₄', kind: 'angularAcceleration' },
+  speedC: { label: '|vC|', kind: 'speed' },
+  accelC: { label: '|aC|', kind: 'acceleration' },
+  branch: { label: 'Branch', kind: 'count' },
+};
+
+export const DEFAULT_EXPORT_COLUMNS: TrajectoryColumn[] = ['input', 'theta2', 'theta3', 'theta4', 'Cx', 'Cy'];
+
+// Finest driver angle step exported (degrees); finer ones would build tables of millions of rows
+export const MIN_EXPORT_STEP = 0.1;
+
+const unitOf = (kind: ColumnKind, angleUnit: 'deg' | 'rad') =>
+  ({
+    angle: angleUnit,
+    length: 'length',
+    angularVelocity: 'rad/s',
+    angularAcceleration: 'rad/s^2',
+    speed: 'length/s',
+    acceleration: 'length/s^2',
+    count: '-',
+  })[kind];
+
+const columnValue = (config: LinkageConfig, pt: TrajectoryPoint, column: TrajectoryColumn): number => {
+  switch (column) {
+    case 'Ax':
+    case 'Ay':
+    case 'Bx':
+    case 'By': {
+      const joint = poseFromTrajectoryPoint(config, pt)[column[0] as 'A' | 'B'];
+      return column[1] === 'x' ? joint.x : joint.y;
+    }
+    default:
+      return pt[column];
+  }
+};
+
+/**
+ * The trajectory as a table: a segment index, then the chosen columns, with angles in the
+ * chosen unit. Segments are the runs `computeTrajectory` splits the cycle into. Steps finer
+ * than the minimum are raised to it.
+ */
+const trajectoryTable = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  followBranches: boolean,
+  { step: requested, columns, angleUnit }: TrajectoryExportOptions
+) => {
+  const step = Math.max(requested, MIN_EXPORT_STEP);
+  const segments: TrajectorySegment[] = computeTrajectory(config, assemblyMode, { step, followBranches });
+  const header = ['segment', ...columns];
+  const units = ['-', ...columns.map((c) => unitOf(TRAJECTORY_COLUMNS[c].kind, angleUnit))];
+  const rows = segments.flatMap(({ points }, s) =>
+    points.map((pt) => [
+      s + 1,
+      ...columns.map((c) => {
+        const v = columnValue(config, pt, c);
+        return TRAJECTORY_COLUMNS[c].kind === 'angle' && angleUnit === 'rad' ? toRad(v) : v;
+      }),
+    ])
+  );
+  const metadata = { config, assemblyMode, followBranches, step, angleUnit };
+  return { header, units, rows, metadata };
+};
+
+/**
+ * CSV of the trajectory, with the config and assembly mode in `#` comment lines ahead of the
+ * header so MATLAB (`CommentStyle`) and pandas (`comment='#'`) skip them.
+ */
+export const trajectoryCsv = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  followBranches: boolean,
+  options: TrajectoryExportOptions
+): string => {
+  const { header, units, rows, metadata } = trajectoryTable(config, assemblyMode, followBranches, options);
+  return [
+    `# assemblyMode: ${metadata.assemblyMode} (${metadata.assemblyMode === 1 ? 'open' : 'crossed'})`,
+    `# followBranches: ${metadata.followBranches}`,
+    `# step: ${metadata.step} deg`,
+    `# units: ${header.map((h, i) => `${h}=${units[i]}`).join(', ')}`,
+    `# config: ${JSON.stringify(metadata.config)}`,
+    header.join(','),
+    ...rows.map((row) => row.map((v) => (Number.isInteger(v) ? String(v) : v.toPrecision(10))).join(',')),
+  ].join('\n');
+};
+
+/**
+ * JSON of the trajectory: a metadata block, the column units, and one record per sample.
+ */
+export const trajectoryJson = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  followBranches: boolean,
+  options: TrajectoryExportOptions
+): string => {
+  const { header, units, rows, metadata } = trajectoryTable(config, assemblyMode, followBranches, options);
+  return JSON.stringify(
+    {
+      metadata,
+      units: Object.fromEntries(header.map((h, i) => [h, units[i]])),
+      points: rows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]]))),
+    },
+    null,
+    2
+  );
+};
+
+// Column names taken as the x and y coordinates of measured points, in order of preference
+const X_NAMES = ['cx', 'x', 'px'];
+const Y_NAMES = ['cy', 'y', 'py'];
+
+/**
+ * Measured points from CSV text: comma, semicolon, tab or space separated, `#` comments
+ * ignored. With a header row, the x and y columns are found by name (Cx/x/px, Cy/y/py);
+ * otherwise the first two columns are used. Rows that do not parse are counted as skipped.
+ */
+export const parseMeasuredCsv = (text: string): { points: Point[]; skipped: number } => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0 && !l.startsWith('#'));
+  if (lines.length === 0) return { points: [], skipped: 0 };
+
+  const split = (line: string) => line.split(/\s*[,;\t]\s*|\s+/).map((c) => c.trim().replace(/^"|"$/g, ''));
+  const first = split(lines[0]);
+  const hasHeader = first.some((c) => c !== '' && isNaN(Number(c)));
+  let xi = 0;
+  let yi = 1;
+  if (hasHeader) {
+    const names = first.map((c) => c.toLowerCase());
+    const find = (candidates: string[], fallback: number) => {
+      const i = candidates.map((n) => names.indexOf(n)).find((i) => i >= 0);
+      return i ?? fallback;
+    };
+    xi = find(X_NAMES, 0);
+    yi = find(Y_NAMES, xi === 0 ? 1 : 0);
+  }
+
+  const points: Point[] = [];
+  let skipped = 0;
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = split(line);
+    const x = parseFloat(cells[xi]);
+    const y = parseFloat(cells[yi]);
+    if (Number.isFinite(x) && Number.isFinite(y)) points.push({ x, y });
+    else skipped++;
+  }
+  return { points, skipped };
+};
+
+/**
+ * Distance from each point to the nearest point of the coupler path, as the RMS and the
+ * largest. Null when there is no path or no point.
+ */
+export const pathDeviation = (points: Point[], trajectory: TrajectorySegment[]): { rms: number; max: number } | null => {
+  const runs = trajectory.map(({ points: pts, closed }) => {
+    const run = pts.map((p) => ({ x: p.Cx, y: p.Cy }));
+    return closed && run.length > 1 ? [...run, run[0]] : run;
+  });
+  if (points.length === 0 || runs.every((r) => r.length === 0)) return null;
+
+  const distances = points.map((p) => {
+    let best = Infinity;
+    for (const run of runs) {
+      for (let i = 0; i < run.length; i++) {
+        const a = run[i];
+        const b = run[Math.min(i + 1, run.length - 1)];
+        const abx = b.x - a.x;
+        const aby = b.y - a.y;
+        const len2 = abx ** 2 + aby ** 2;
+        const u = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / len2)) : 0;
+        best = Math.min(best, Math.hypot(p.x - a.x - u * abx, p.y - a.y - u * aby));
+      }
+    }
+    return best;
+  });
+  return {
+    rms: Math.sqrt(distances.reduce((s, d) => s + d ** 2, 0) / distances.length),
+    max: Math.max(...distances),
+  };
+};
@@ -0,0 +1,207 @@
+import { AnimationSettings, LinkageConfig, LinkMassProperties, Point, SavedDesign, ViewBox } from '../types';
+import { defaultMassProperties } from './dynamics';
+import { groundPivots } from './math';
+import { computeTrajectory } from './trajectory';
+import { ANIMATION_SPEED, clamp, VIEW_MAX, VIEW_MIN } from './urlState';
+
+// Identifies design files and the saved library; bump the version when the layout changes
+const DESIGN_FILE_FORMAT = 'fourbar-designs';
+export const DESIGN_FILE_VERSION = 1;
+const STORAGE_KEY = 'fourbar-linkage.designs';
+
+// Thumbnails only need the shape of the curve
+const THUMBNAIL_STEP = 5;
+const THUMBNAIL_PADDING = 0.08;
+
+export const DEFAULT_VIEW_BOX: ViewBox = { x: -2, y: -6, w: 8, h: 8 };
+export const DEFAULT_ANIMATION: AnimationSettings = { isPlaying: false, speed: 1, followBranches: false };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const numberOr = (value: unknown, fallback: number) => (isFiniteNumber(value) ? value : fallback);
+
+/**
+ * Mass properties from stored JSON, or null unless every link has all four as finite numbers.
+ */
+const readMassProperties = (raw: unknown): LinkageConfig['massProperties'] | null => {
+  if (!isRecord(raw)) return null;
+  const readLink = (link: unknown): LinkMassProperties | null =>
+    isRecord(link) && isFiniteNumber(link.mass) && isFiniteNumber(link.centroid) && isFiniteNumber(link.centroidAngle) && isFiniteNumber(link.inertia)
+      ? { mass: link.mass, centroid: link.centroid, centroidAngle: link.centroidAngle, inertia: link.inertia }
+      : null;
+  const crank = readLink(raw.crank);
+  const coupler = readLink(raw.coupler);
+  const rocker = readLink(raw.rocker);
+  return crank && coupler && rocker ? { crank, coupler, rocker } : null;
+};
+
+/**
+ * A config from stored JSON. Link lengths and the coupler point are required; fields added
+ * after a design was saved (the ground placement, mass properties, …) take their defaults, as
+ * do ones that are malformed.
+ */
+const readConfig = (raw: unknown): LinkageConfig | null => {
+  if (!isRecord(raw)) return null;
+  const lengths = [raw.r1, raw.r2, raw.r3, raw.r4];
+  if (!lengths.every((r) => typeof r === 'number' && r > 0) || typeof raw.r6 !== 'number' || typeof raw.beta !== 'number') {
+    return null;
+  }
+  const [r1, r2, r3, r4] = lengths as number[];
+  return {
+    r1,
+    groundX: numberOr(raw.groundX, 0),
+    groundY: numberOr(raw.groundY, 0),
+    theta1: numberOr(raw.theta1, 0),
+    r2,
+    r3,
+    r4,
+    r6: raw.r6,
+    beta: raw.beta,
+    driver: raw.driver === 'coupler' || raw.driver === 'rocker' ? raw.driver : 'crank',
+    theta2: numberOr(raw.theta2, 0),
+    theta3: numberOr(raw.theta3, 0),
+    theta4: numberOr(raw.theta4, 90),
+    inputOmega: numberOr(raw.inputOmega, 1),
+    inputAlpha: numberOr(raw.inputAlpha, 0),
+    crankSpeed: numberOr(raw.crankSpeed, 10),
+    massProperties: readMassProperties(raw.massProperties) ?? defaultMassProperties(r2, r3, r4),
+  };
+};
+
+/**
+ * A design from stored JSON. The view box and animation speed are clamped to the limits share
+ * links accept, so a hand-edited file cannot load an unusable canvas.
+ */
+const readDesign = (raw: unknown): SavedDesign | null => {
+  if (!isRecord(raw)) return null;
+  const config = readConfig(raw.config);
+  if (!config) return null;
+  const view = isRecord(raw.viewBox) ? raw.viewBox : {};
+  const animation = isRecord(raw.animation) ? raw.animation : {};
+  return {
+    id: typeof raw.id === 'string' ? raw.id : newDesignId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Untitled design',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    config,
+    assemblyMode: raw.assemblyMode === -1 ? -1 : 1,
+    viewBox: {
+      x: numberOr(view.x, DEFAULT_VIEW_BOX.x),
+      y: numberOr(view.y, DEFAULT_VIEW_BOX.y),
+      w: clamp(numberOr(view.w, DEFAULT_VIEW_BOX.w), VIEW_MIN, VIEW_MAX),
+      h: clamp(numberOr(view.h, DEFAULT_VIEW_BOX.h), VIEW_MIN, VIEW_MAX),
+    },
+    animation: {
+      isPlaying: animation.isPlaying === true,
+      speed: clamp(numberOr(animation.speed, DEFAULT_ANIMATION.speed), ANIMATION_SPEED.min, ANIMATION_SPEED.max),
+      followBranches: animation.followBranches === true,
+    },
+  };
+};
+
+export const newDesignId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Serializes designs as a versioned design file, the same layout the library is stored in.
+ */
+export const writeDesignFile = (designs: SavedDesign[]): string =>
+  JSON.stringify({ format: DESIGN_FILE_FORMAT, version: DESIGN_FILE_VERSION, designs }, null, 2);
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+};
+
+/**
+ * Entries of a design file, null where one cannot be read. Throws when the file is from a
+ * newer version of the app.
+ */
+const readEntries = (data: Record<string, unknown>): (SavedDesign | null)[] => {
+  if (typeof data.version !== 'number' || data.version > DESIGN_FILE_VERSION) {
+    throw new Error(`Design file version ${String(data.version)} is newer than this app supports.`);
+  }
+  return (Array.isArray(data.designs) ? data.designs : []).map(readDesign);
+};
+
+/**
+ * Designs from a design file. A single exported design (or a bare `{ config, assemblyMode }`
+ * as written by the cognate export) is accepted too. Throws when nothing can be read.
+ */
+export const readDesignFile = (text: string): SavedDesign[] => {
+  const data = parseJson(text);
+  if (isRecord(data) && data.format === DESIGN_FILE_FORMAT) {
+    const designs = readEntries(data);
+    if (designs.some((d) => d === null)) throw new Error('Some designs in the file are incomplete.');
+    return designs as SavedDesign[];
+  }
+  const single = readDesign(data);
+  if (!single) throw new Error('No linkage design found in the file.');
+  return [single];
+};
+
+export interface StoredLibrary {
+  designs: SavedDesign[];
+  skipped: number; // Stored entries that could not be read and were left out
+  error: string | null; // Why the library could not be read at all; null when it could
+  raw: string | null; // The stored text, so it can still be exported when reading it fails
+}
+
+/**
+ * The saved library. Unlike an imported file it is read tolerantly, leaving out entries that
+ * cannot be read, but a library that cannot be read at all (from a newer version, say) is
+ * reported rather than treated as empty, so it is not overwritten.
+ */
+export const loadLibrary = (): StoredLibrary => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return { designs: [], skipped: 0, error: 'Local storage is unavailable.', raw: null };
+  }
+  if (!raw) return { designs: [], skipped: 0, error: null, raw };
+  try {
+    const data = parseJson(raw);
+    if (!isRecord(data) || data.format !== DESIGN_FILE_FORMAT) throw new Error('It is not a design library.');
+    const entries = readEntries(data);
+    const designs = entries.filter((d): d is SavedDesign => d !== null);
+    return { designs, skipped: entries.length - designs.length, error: null, raw };
+  } catch (e) {
+    return { designs: [], skipped: 0, error: e instanceof Error ? e.message : String(e), raw };
+  }
+};
+
+/**
+ * Stores the library; false when storage is unavailable or full.
+ */
+export const saveLibrary = (designs: SavedDesign[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, writeDesignFile(designs));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Coupler curve and ground pivots of a design, with a square view box around them in SVG
+ * coordinates (y down).
+ */
+export const designThumbnail = ({ config, assemblyMode, animation }: SavedDesign) => {
+  const curve: Point[][] = computeTrajectory(config, assemblyMode, {
+    step: THUMBNAIL_STEP,
+    followBranches: animation.followBranches,
+  }).map(({ points }) => points.map((p) => ({ x: p.Cx, y: p.Cy })));
+  const pivots = groundPivots(config);
+  const points = [pivots.A_star, pivots.B_star, ...curve.flat()];
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => -p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1e-6);
+  const pad = size * THUMBNAIL_PADDING;
+  return { curve, pivots, viewBox: { x: minX - pad, y: minY - pad, size: size + 2 * pad } };
+};
@@ -0,0 +1,11 @@
+/**
+ * Saves content as a file through a temporary object URL, entirely in the browser.
+ */
+export const downloadFile = (filename: string, content: BlobPart, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
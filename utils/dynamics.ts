@@ -0,0 +1,158 @@
+import {
+  CycleStats,
+  DynamicForces,
+  DynamicsPoint,
+  DynamicsStats,
+  LinkageConfig,
+  LinkMassProperties,
+  Point,
+  TrajectoryPoint,
+  TrajectorySegment,
+} from '../types';
+import { poseFromTrajectoryPoint } from './inversion';
+import { relativeMotion, toRad } from './math';
+import { computeTrajectory } from './trajectory';
+
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (p: Point, k: number): Point => ({ x: p.x * k, y: p.y * k });
+const magnitude = (p: Point) => Math.hypot(p.x, p.y);
+
+/**
+ * Uniform slender bars of unit mass per length, centroid at mid-length.
+ */
+export const defaultMassProperties = (r2: number, r3: number, r4: number): LinkageConfig['massProperties'] => {
+  const bar = (r: number): LinkMassProperties => ({ mass: r, centroid: r / 2, centroidAngle: 0, inertia: r ** 3 / 12 });
+  return { crank: bar(r2), coupler: bar(r3), rocker: bar(r4) };
+};
+
+/**
+ * Position and acceleration of a link's centroid, given its base joint's position and
+ * acceleration and the link's angle (degrees), ω and α.
+ */
+const centroidMotion = (props: LinkMassProperties, base: Point, baseAccel: Point, theta: number, omega: number, alpha: number) => {
+  const angle = toRad(theta + props.centroidAngle);
+  const { a } = relativeMotion(props.centroid, angle, omega, alpha);
+  return {
+    position: add(base, { x: props.centroid * Math.cos(angle), y: props.centroid * Math.sin(angle) }),
+    accel: add(baseAccel, a),
+  };
+};
+
+/**
+ * Inverse dynamics of one trajectory sample: the crank torque and pin forces that produce the
+ * sample's motion, by Newton–Euler on each link. Link 4's and link 3's moment equations give
+ * the force at B; the other pin forces and the torque follow link by link back to ground.
+ * Returns null at a toggle position, where the pin force at B is indeterminate.
+ */
+export const solveDynamics = (config: LinkageConfig, pt: TrajectoryPoint): DynamicForces | null => {
+  const { crank, coupler, rocker } = config.massProperties;
+  const { A_star, B_star, A, B } = poseFromTrajectoryPoint(config, pt);
+  const origin = { x: 0, y: 0 };
+
+  const aA = relativeMotion(config.r2, toRad(pt.theta2), pt.omega2, pt.alpha2).a;
+  const g2 = centroidMotion(crank, A_star, origin, pt.theta2, pt.omega2, pt.alpha2);
+  const g3 = centroidMotion(coupler, A, aA, pt.theta3, pt.omega3, pt.alpha3);
+  const g4 = centroidMotion(rocker, B_star, origin, pt.theta4, pt.omega4, pt.alpha4);
+  const ma2 = scale(g2.accel, crank.mass);
+  const ma3 = scale(g3.accel, coupler.mass);
+  const ma4 = scale(g4.accel, rocker.mass);
+
+  // u × F34 = (A − G3) × m3·aG3 − I3·α3  and  w × F34 = I4·α4 − (B* − G4) × m4·aG4
+  const u = sub(B, A);
+  const w = sub(B, B_star);
+  const det = cross(u, w);
+  if (!(Math.abs(det) > 1e-9 * magnitude(u) * magnitude(w))) return null;
+  const m3 = cross(sub(A, g3.position), ma3) - coupler.inertia * pt.alpha3;
+  const m4 = rocker.inertia * pt.alpha4 - cross(sub(B_star, g4.position), ma4);
+  const F34 = {
+    x: (m3 * w.x - m4 * u.x) / det,
+    y: (m3 * w.y - m4 * u.y) / det,
+  };
+  const F14 = sub(ma4, F34);
+  const F23 = add(ma3, F34);
+  const F12 = add(ma2, F23);
+  const torque2 =
+    crank.inertia * pt.alpha2 - cross(sub(A_star, g2.position), F12) + cross(sub(A, g2.position), F23);
+
+  return {
+    torque2,
+    F12,
+    F23,
+    F34,
+    F14,
+    shakingForce: scale(add(F12, F14), -1),
+    shakingMoment: -torque2 - cross(sub(B_star, A_star), F14),
+  };
+};
+
+/**
+ * Inverse dynamics over one revolution of the crank at `config.crankSpeed`, whatever the
+ * driver. Where the crank cannot turn fully, only the reachable ranges are covered. Runs are
+ * split at toggle positions.
+ */
+export const dynamicsOverCycle = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  followBranches: boolean
+): DynamicsPoint[][] => {
+  const driven: LinkageConfig = { ...config, driver: 'crank', inputOmega: config.crankSpeed, inputAlpha: 0 };
+  const segments: TrajectorySegment[] = computeTrajectory(driven, assemblyMode, { followBranches });
+  const runs: DynamicsPoint[][] = [];
+  segments.forEach(({ points }) => {
+    let run: DynamicsPoint[] = [];
+    points.forEach((pt) => {
+      const forces = solveDynamics(driven, pt);
+      if (forces) {
+        run.push({
+          input: pt.input,
+          torque2: forces.torque2,
+          shakingForce: magnitude(forces.shakingForce),
+          shakingMoment: forces.shakingMoment,
+          reactionA_star: magnitude(forces.F12),
+          reactionA: magnitude(forces.F23),
+          reactionB: magnitude(forces.F34),
+          reactionB_star: magnitude(forces.F14),
+        });
+      } else if (run.length > 0) {
+        runs.push(run);
+        run = [];
+      }
+    });
+    if (run.length > 0) runs.push(run);
+  });
+  return runs;
+};
+
+/**
+ * RMS and peak magnitude of each quantity over the cycle. The RMS is taken over crank angle,
+ * which at constant crank speed is the time average. Null when no sample was solved.
+ */
+export const dynamicsStats = (runs: DynamicsPoint[][]): DynamicsStats | null => {
+  const points = runs.flat();
+  if (points.length < 2) return null;
+
+  // Trapezoidal weights in θ2 within each run, since samples cluster near toggle positions
+  const spacing = (a: number, b: number) => {
+    const d = Math.abs(a - b) % 360;
+    return Math.min(d, 360 - d);
+  };
+  const weights = runs.flatMap((run) =>
+    run.map((p, i) => (spacing(p.input, run[Math.max(0, i - 1)].input) + spacing(p.input, run[Math.min(run.length - 1, i + 1)].input)) / 2)
+  );
+  const total = weights.reduce((s, w) => s + w, 0);
+  const stats = (key: keyof DynamicsStats): CycleStats => ({
+    rms: Math.sqrt(points.reduce((s, p, i) => s + weights[i] * p[key] ** 2, 0) / (total || 1)),
+    peak: Math.max(...points.map((p) => Math.abs(p[key]))),
+  });
+  return {
+    torque2: stats('torque2'),
+    shakingForce: stats('shakingForce'),
+    shakingMoment: stats('shakingMoment'),
+    reactionA_star: stats('reactionA_star'),
+    reactionA: stats('reactionA'),
+    reactionB: stats('reactionB'),
+    reactionB_star: stats('reactionB_star'),
+  };
+};
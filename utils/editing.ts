@@ -0,0 +1,126 @@
+import { EditableJoint, EditLocks, LinkageConfig, LinkageSolution, LockableDimension, Point } from '../types';
+import { groundPivots, solveLinkage, toDeg, toRad } from './math';
+
+// Grid spacing joints snap to, matching the canvas's minor grid
+export const EDIT_GRID = 0.1;
+// Shortest link a drag can produce
+const MIN_LENGTH = 0.05;
+
+/**
+ * Which dimensions dragging each joint changes; the others stay as they are.
+ */
+export const JOINT_DIMENSIONS: Record<EditableJoint, LockableDimension[]> = {
+  B_star: ['r1'],
+  A: ['r2'],
+  B: ['r3', 'r4'],
+  C: ['r6', 'beta'],
+};
+
+export const snapToGrid = (p: Point, step = EDIT_GRID): Point => ({
+  x: Math.round(p.x / step) * step,
+  y: Math.round(p.y / step) * step,
+});
+
+const normalize = (angle: number) => ((angle % 360) + 360) % 360;
+
+// Point at `length` from `center` in the direction of `toward`
+const onCircle = (center: Point, length: number, toward: Point): Point => {
+  const d = Math.hypot(toward.x - center.x, toward.y - center.y);
+  if (!(d > 0)) return { x: center.x + length, y: center.y };
+  return { x: center.x + ((toward.x - center.x) * length) / d, y: center.y + ((toward.y - center.y) * length) / d };
+};
+
+/**
+ * The config whose lengths and link angles put A and B exactly where given, on whichever
+ * assembly branch reproduces them (preferring the current one). Null if no branch does.
+ */
+const withPose = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  A: Point,
+  B: Point
+): { config: LinkageConfig; assemblyMode: 1 | -1 } | null => {
+  const { A_star, B_star } = groundPivots(config);
+  const next: LinkageConfig = {
+    ...config,
+    r2: Math.hypot(A.x - A_star.x, A.y - A_star.y),
+    r3: Math.hypot(B.x - A.x, B.y - A.y),
+    r4: Math.hypot(B.x - B_star.x, B.y - B_star.y),
+    theta2: normalize(toDeg(Math.atan2(A.y - A_star.y, A.x - A_star.x))),
+    theta3: normalize(toDeg(Math.atan2(B.y - A.y, B.x - A.x))),
+    theta4: normalize(toDeg(Math.atan2(B.y - B_star.y, B.x - B_star.x))),
+  };
+  if ([next.r2, next.r3, next.r4].some((r) => r < MIN_LENGTH)) return null;
+  const mode = ([assemblyMode, assemblyMode === 1 ? -1 : 1] as const).find((m) => {
+    const sol = solveLinkage(next, m);
+    return sol.isValid && Math.hypot(sol.Ax - A.x, sol.Ay - A.y) + Math.hypot(sol.Bx - B.x, sol.By - B.y) < 1e-6;
+  });
+  return mode ? { config: next, assemblyMode: mode } : null;
+};
+
+/**
+ * Edits the linkage so the dragged joint follows the pointer, within the locks:
+ *  - B* slides along the ground line, changing r₁;
+ *  - A changes r₂ and θ₂ (only θ₂ with r₂ locked), the coupler and rocker keeping their lengths;
+ *  - B changes r₃ and r₄, staying on the circle of whichever is locked;
+ *  - C changes r₆ and β, staying on the circle or ray of whichever is locked.
+ * Returns null when the locks leave the joint no freedom or the edit cannot assemble.
+ */
+export const dragJoint = (
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  solution: LinkageSolution,
+  joint: EditableJoint,
+  target: Point,
+  locks: EditLocks
+): { config: LinkageConfig; assemblyMode: 1 | -1 } | null => {
+  // A can still swing about A* with r₂ locked; the others have no freedom left once all theirs are
+  if (joint !== 'A' && JOINT_DIMENSIONS[joint].every((d) => locks[d])) return null;
+  const { A_star, B_star } = groundPivots(config);
+  if (joint === 'B_star') {
+    const t1 = toRad(config.theta1);
+    const along = (target.x - A_star.x) * Math.cos(t1) + (target.y - A_star.y) * Math.sin(t1);
+    return { config: { ...config, r1: Math.max(MIN_LENGTH, along) }, assemblyMode };
+  }
+  if (!solution.isValid) return null;
+
+  const A = { x: solution.Ax, y: solution.Ay };
+  const B = { x: solution.Bx, y: solution.By };
+
+  if (joint === 'A') {
+    const nextA = locks.r2 ? onCircle(A_star, config.r2, target) : target;
+    const r2 = Math.hypot(nextA.x - A_star.x, nextA.y - A_star.y);
+    if (r2 < MIN_LENGTH) return null;
+    // Re-solve B with the crank at its new place, on the branch nearest the old B
+    const theta2 = toDeg(Math.atan2(nextA.y - A_star.y, nextA.x - A_star.x));
+    const driven: LinkageConfig = { ...config, r2, driver: 'crank', theta2 };
+    const candidates = ([1, -1] as const)
+      .map((m) => solveLinkage(driven, m))
+      .filter((sol) => sol.isValid)
+      .sort((a, b) => Math.hypot(a.Bx - B.x, a.By - B.y) - Math.hypot(b.Bx - B.x, b.By - B.y));
+    if (candidates.length === 0) return null;
+    return withPose(config, assemblyMode, nextA, { x: candidates[0].Bx, y: candidates[0].By });
+  }
+
+  if (joint === 'B') {
+    const nextB = locks.r3 ? onCircle(A, config.r3, target) : locks.r4 ? onCircle(B_star, config.r4, target) : target;
+    return withPose(config, assemblyMode, A, nextB);
+  }
+
+  // Coupler point, relative to A in the coupler's own direction
+  const theta3 = Math.atan2(B.y - A.y, B.x - A.x);
+  let rel = { x: target.x - A.x, y: target.y - A.y };
+  if (locks.r6) {
+    rel = onCircle({ x: 0, y: 0 }, config.r6, rel);
+  } else if (locks.beta) {
+    const u = { x: Math.cos(theta3 + toRad(config.beta)), y: Math.sin(theta3 + toRad(config.beta)) };
+    const along = Math.max(0, rel.x * u.x + rel.y * u.y);
+    rel = { x: u.x * along, y: u.y * along };
+  }
+  const r6 = Math.hypot(rel.x, rel.y);
+  const beta = r6 > 0 ? toDeg(Math.atan2(rel.y, rel.x) - theta3) : config.beta;
+  return {
+    config: { ...config, r6, beta: ((((beta + 180) % 360) + 360) % 360) - 180 },
+    assemblyMode,
+  };
+};
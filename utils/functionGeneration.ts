@@ -0,0 +1,290 @@
+import { FunctionGenerator, FunctionSpec, LinkageConfig, PrecisionPoint, StructuralErrorPoint } from '../types';
+import { solveLinkage, toRad } from './math';
+
+type Evaluate = (x: number) => number;
+
+const MATH_NAMES = Object.getOwnPropertyNames(Math);
+
+// Numbers, names and operators; `**` is read as `^`
+const TOKEN = /\s*(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[A-Za-z_]\w*|\*\*|[-+*/^(),])/y;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (expression.slice(TOKEN.lastIndex).trim() !== '') {
+    const match = TOKEN.exec(expression);
+    if (!match) throw new Error(`Unexpected character at ${TOKEN.lastIndex}`);
+    tokens.push(match[1] === '**' ? '^' : match[1]);
+  }
+  return tokens;
+};
+
+/**
+ * Recursive descent parser building the function as closures. Power binds tighter than unary
+ * minus and is right associative, so -x^2 is -(x²) and 2^-x^2 is 2^(-(x²)).
+ */
+const parse = (tokens: string[]): Evaluate => {
+  let pos = 0;
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected ${token}`);
+  };
+
+  const sum = (): Evaluate => {
+    let left = product();
+    while (tokens[pos] === '+' || tokens[pos] === '-') {
+      const op = next();
+      const a = left;
+      const b = product();
+      left = op === '+' ? (x) => a(x) + b(x) : (x) => a(x) - b(x);
+    }
+    return left;
+  };
+
+  const product = (): Evaluate => {
+    let left = unary();
+    while (tokens[pos] === '*' || tokens[pos] === '/') {
+      const op = next();
+      const a = left;
+      const b = unary();
+      left = op === '*' ? (x) => a(x) * b(x) : (x) => a(x) / b(x);
+    }
+    return left;
+  };
+
+  const unary = (): Evaluate => {
+    if (tokens[pos] === '-' || tokens[pos] === '+') {
+      const op = next();
+      const a = unary();
+      return op === '-' ? (x) => -a(x) : a;
+    }
+    return power();
+  };
+
+  const power = (): Evaluate => {
+    const base = primary();
+    if (tokens[pos] !== '^') return base;
+    next();
+    const exponent = unary();
+    return (x) => base(x) ** exponent(x);
+  };
+
+  const primary = (): Evaluate => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end');
+    if (token === '(') {
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    if (/^[\d.]/.test(token)) {
+      const value = Number(token);
+      return () => value;
+    }
+    if (token === 'x') return (x) => x;
+    const name = token === 'ln' ? 'log' : token;
+    if (!MATH_NAMES.includes(name)) throw new Error(`Unknown name ${token}`);
+    const member = (Math as unknown as Record<string, number | ((...args: number[]) => number)>)[name];
+    if (typeof member === 'number') return () => member;
+    expect('(');
+    const args: Evaluate[] = [];
+    if (tokens[pos] !== ')') {
+      args.push(sum());
+      while (tokens[pos] === ',') {
+        next();
+        args.push(sum());
+      }
+    }
+    expect(')');
+    return (x) => member(...args.map((arg) => arg(x)));
+  };
+
+  const fn = sum();
+  if (pos !== tokens.length) throw new Error(`Unexpected ${tokens[pos]}`);
+  return fn;
+};
+
+/**
+ * Compiles a target function typed by the user. Math members are in scope (sin, log10, PI …),
+ * `ln` is the natural log and `^` means power. Returns null when the expression does not parse.
+ */
+export const compileFunction = (expression: string): Evaluate | null => {
+  try {
+    return parse(tokenize(expression));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Chebyshev spacing of n precision points over [a, b], which minimizes the peak
+ * structural error for a given number of points.
+ */
+export const chebyshevPoints = (a: number, b: number, n: number): number[] =>
+  Array.from({ length: n }, (_, j) => (a + b) / 2 - ((b - a) / 2) * Math.cos(((2 * j + 1) * Math.PI) / (2 * n)));
+
+/**
+ * Linear map of x onto the input angle and of y onto the output angle.
+ */
+const angleMaps = (spec: FunctionSpec, f: (x: number) => number) => {
+  const y0 = f(spec.xStart);
+  const yf = f(spec.xEnd);
+  return {
+    y0,
+    yf,
+    theta2: (x: number) => spec.theta2Start + ((x - spec.xStart) / (spec.xEnd - spec.xStart)) * spec.theta2Range,
+    theta4: (y: number) => spec.theta4Start + ((y - y0) / (yf - y0)) * spec.theta4Range,
+    y: (theta4: number) => y0 + ((theta4 - spec.theta4Start) / spec.theta4Range) * (yf - y0),
+  };
+};
+
+/**
+ * Precision points for the spec, or null when f cannot be evaluated over the range or
+ * does not change between its ends.
+ */
+export const precisionPoints = (spec: FunctionSpec): PrecisionPoint[] | null => {
+  const f = compileFunction(spec.expression);
+  if (!f || spec.xEnd === spec.xStart || spec.theta4Range === 0) return null;
+  const maps = angleMaps(spec, f);
+  if (!Number.isFinite(maps.y0) || !Number.isFinite(maps.yf) || maps.y0 === maps.yf) return null;
+
+  const points = chebyshevPoints(spec.xStart, spec.xEnd, spec.points).map((x) => {
+    const y = f(x);
+    return { x, y, theta2: maps.theta2(x), theta4: maps.theta4(y) };
+  });
+  return points.every((p) => Number.isFinite(p.theta4)) ? points : null;
+};
+
+/**
+ * Solves a small dense linear system by Gaussian elimination with partial pivoting.
+ */
+const solveLinear = (M: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  const a = M.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    const pivot = a.slice(col).reduce((best, row, i) => (Math.abs(row[col]) > Math.abs(a[best][col]) ? col + i : best), col);
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = col + 1; r < n; r++) {
+      const k = a[r][col] / a[col][col];
+      for (let c = col; c <= n; c++) a[r][c] -= k * a[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = a[r][n];
+    for (let c = r + 1; c < n; c++) sum -= a[r][c] * x[c];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+};
+
+/**
+ * Freudenstein's equation for the loop r2·e^{iθ2} + r3·e^{iθ3} = r1 + r4·e^{iθ4}:
+ *   K1·cos θ4 − K2·cos θ2 + K3 = cos(θ2 − θ4)
+ * with K1 = r1/r2, K2 = r1/r4, K3 = (r1² + r2² + r4² − r3²)/(2·r2·r4).
+ * It is linear in K, so three points give K exactly and more are fitted by least squares.
+ */
+export const freudensteinCoefficients = (points: PrecisionPoint[]): [number, number, number] | null => {
+  const rows = points.map((p) => {
+    const t2 = toRad(p.theta2);
+    const t4 = toRad(p.theta4);
+    return { a: [Math.cos(t4), -Math.cos(t2), 1], b: Math.cos(t2 - t4) };
+  });
+  // Normal equations (identical to the direct solve when there are exactly three points)
+  const AtA = [0, 1, 2].map((i) => [0, 1, 2].map((j) => rows.reduce((s, r) => s + r.a[i] * r.a[j], 0)));
+  const Atb = [0, 1, 2].map((i) => rows.reduce((s, r) => s + r.a[i] * r.b, 0));
+  const K = solveLinear(AtA, Atb);
+  return K && K.every(Number.isFinite) ? [K[0], K[1], K[2]] : null;
+};
+
+/**
+ * Structural error of a linkage against the spec: the ideal and generated θ4 over the designed
+ * input range, sampled evenly in x. The spec's angles are taken from the ground link; `input`
+ * is the global crank angle.
+ */
+export const structuralError = (
+  generator: FunctionGenerator,
+  config: LinkageConfig,
+  assemblyMode: 1 | -1,
+  samples = 120
+): StructuralErrorPoint[] => {
+  const { spec, crankOffset, outputOffset } = generator;
+  const f = compileFunction(spec.expression);
+  if (!f) return [];
+  const maps = angleMaps(spec, f);
+
+  return Array.from({ length: samples + 1 }, (_, i) => {
+    const x = spec.xStart + ((spec.xEnd - spec.xStart) * i) / samples;
+    const input = maps.theta2(x) + crankOffset + config.theta1;
+    const desired = maps.theta4(f(x));
+    const sol = solveLinkage({ ...config, driver: 'crank', theta2: input }, assemblyMode);
+    if (!sol.isValid) return { input, desired, theta4: null, error: null, yError: null };
+
+    const raw = sol.theta4 - config.theta1 - outputOffset;
+    const theta4 = raw - 360 * Math.round((raw - desired) / 360);
+    return { input, desired, theta4, error: theta4 - desired, yError: maps.y(theta4) - f(x) };
+  });
+};
+
+export interface FunctionSynthesis {
+  generator: FunctionGenerator;
+  points: PrecisionPoint[];
+  config: LinkageConfig;
+  assemblyMode: 1 | -1;
+  maxError: number; // Peak |θ4 error| where the linkage assembles (degrees)
+  coversRange: boolean; // Assembles over the whole designed input range
+}
+
+/**
+ * Designs a crank-rocker style function generator for the spec. Negative link lengths from
+ * Freudenstein's coefficients are realised by turning that link through 180°, and the
+ * assembly branch is whichever reproduces the target better. Returns null when there is
+ * no real linkage.
+ */
+export const synthesizeFunctionGenerator = (spec: FunctionSpec, base: LinkageConfig): FunctionSynthesis | null => {
+  const points = precisionPoints(spec);
+  const K = points && freudensteinCoefficients(points);
+  if (!points || !K) return null;
+
+  const { r1 } = spec;
+  const r2 = r1 / K[0];
+  const r4 = r1 / K[1];
+  const r3sq = r1 ** 2 + r2 ** 2 + r4 ** 2 - 2 * r2 * r4 * K[2];
+  if (!Number.isFinite(r2) || !Number.isFinite(r4) || !(r3sq > 0)) return null;
+
+  const generator: FunctionGenerator = {
+    spec,
+    crankOffset: r2 < 0 ? 180 : 0,
+    outputOffset: r4 < 0 ? 180 : 0,
+  };
+  const config: LinkageConfig = {
+    ...base,
+    r1,
+    r2: Math.abs(r2),
+    r3: Math.sqrt(r3sq),
+    r4: Math.abs(r4),
+    driver: 'crank',
+    theta2: (((spec.theta2Start + generator.crankOffset + base.theta1) % 360) + 360) % 360,
+  };
+
+  // Prefer the branch that assembles over more of the range, then the smaller peak error
+  const score = (mode: 1 | -1) => {
+    const errors = structuralError(generator, config, mode).map((p) => p.error);
+    const valid = errors.filter((e): e is number => e !== null);
+    return { missing: errors.length - valid.length, peak: Math.max(0, ...valid.map(Math.abs)) };
+  };
+  const open = score(1);
+  const crossed = score(-1);
+  const useOpen = open.missing < crossed.missing || (open.missing === crossed.missing && open.peak <= crossed.peak);
+  const best = useOpen ? open : crossed;
+
+  return {
+    generator,
+    points,
+    config,
+    assemblyMode: useOpen ? 1 : -1,
+    maxError: best.peak,
+    coversRange: best.missing === 0,
+  };
+};
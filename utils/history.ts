@@ -0,0 +1,127 @@
+import { DriverLink, EditHistory, EditState, LinkageConfig, LinkMassProperties, ParameterChange } from '../types';
+import { DRIVER_LABELS } from './math';
+
+// Keyboard steps of the same parameters closer together than this (ms) merge into one entry,
+// so holding an arrow key on a slider is undone in one step
+const MERGE_WINDOW = 1000;
+const HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: EditHistory = { entries: [], index: 0 };
+
+type ScalarParam = 'r1' | 'r2' | 'r3' | 'r4' | 'r6' | 'beta' | 'groundX' | 'groundY' | 'theta1' | 'inputOmega' | 'inputAlpha' | 'crankSpeed';
+
+const SCALAR_PARAMS: Record<ScalarParam, { label: string; unit: string }> = {
+  r1: { label: 'r₁', unit: '' },
+  r2: { label: 'r₂', unit: '' },
+  r3: { label: 'r₃', unit: '' },
+  r4: { label: 'r₄', unit: '' },
+  r6: { label: 'r₆', unit: '' },
+  beta: { label: 'β', unit: '°' },
+  groundX: { label: 'A* x', unit: '' },
+  groundY: { label: 'A* y', unit: '' },
+  theta1: { label: 'θ₁', unit: '°' },
+  inputOmega: { label: 'Input ω', unit: ' r/s' },
+  inputAlpha: { label: 'Input α', unit: ' r/s²' },
+  crankSpeed: { label: 'Crank speed', unit: ' r/s' },
+};
+
+const INPUT_ANGLE: Record<DriverLink, 'theta2' | 'theta3' | 'theta4'> = { crank: 'theta2', coupler: 'theta3', rocker: 'theta4' };
+
+const MASS_FIELDS: Record<keyof LinkMassProperties, string> = {
+  mass: 'mass',
+  centroid: 'centroid',
+  centroidAngle: 'centroid angle',
+  inertia: 'inertia',
+};
+
+const formatValue = (value: number, unit: string) => `${value.toFixed(unit === '°' ? 1 : 2)}${unit}`;
+
+// Below display precision, a change is noise from solving rather than an edit
+const differs = (a: number, b: number) => Math.abs(a - b) > 1e-9;
+
+/**
+ * The parameters that differ between two states, with their values formatted for display.
+ * Link angles other than the driver's are solved outputs and are left out.
+ */
+export const diffStates = (a: EditState, b: EditState): ParameterChange[] => {
+  const changes: ParameterChange[] = [];
+  const change = (param: string, label: string, from: string, to: string) => changes.push({ param, label, from, to });
+
+  (Object.keys(SCALAR_PARAMS) as ScalarParam[]).forEach((key) => {
+    const { label, unit } = SCALAR_PARAMS[key];
+    if (differs(a.config[key], b.config[key])) change(key, label, formatValue(a.config[key], unit), formatValue(b.config[key], unit));
+  });
+  if (a.config.driver !== b.config.driver) {
+    change('driver', 'Driver', DRIVER_LABELS[a.config.driver].name, DRIVER_LABELS[b.config.driver].name);
+  }
+  const angle = INPUT_ANGLE[b.config.driver];
+  if (differs(a.config[angle], b.config[angle])) {
+    change(angle, DRIVER_LABELS[b.config.driver].angle, formatValue(a.config[angle], '°'), formatValue(b.config[angle], '°'));
+  }
+  (Object.keys(a.config.massProperties) as (keyof LinkageConfig['massProperties'])[]).forEach((link) => {
+    (Object.keys(MASS_FIELDS) as (keyof LinkMassProperties)[]).forEach((field) => {
+      const from = a.config.massProperties[link][field];
+      const to = b.config.massProperties[link][field];
+      if (differs(from, to)) {
+        change(`massProperties.${link}.${field}`, `${DRIVER_LABELS[link].name} ${MASS_FIELDS[field]}`, from.toFixed(3), to.toFixed(3));
+      }
+    });
+  });
+  if (a.assemblyMode !== b.assemblyMode) {
+    const name = (mode: 1 | -1) => (mode === 1 ? 'Open' : 'Crossed');
+    change('assemblyMode', 'Assembly', name(a.assemblyMode), name(b.assemblyMode));
+  }
+  return changes;
+};
+
+const sameParams = (a: ParameterChange[], b: ParameterChange[]) =>
+  a.length === b.length && a.every((c, i) => c.param === b[i].param);
+
+/**
+ * Adds an edit from `before` to `after`, dropping anything that could be redone. Edits made
+ * during one pointer gesture (a slider or joint drag) extend the entry it opened, however long
+ * it takes. Keyboard edits (`gesture` null) extend the latest keyboard entry when they change
+ * the same parameters within the merge window.
+ */
+export const recordEdit = (
+  history: EditHistory,
+  before: EditState,
+  after: EditState,
+  now: number,
+  gesture: number | null
+): EditHistory => {
+  const changes = diffStates(before, after);
+  if (changes.length === 0) return history;
+
+  const entries = history.entries.slice(0, history.index);
+  const last = entries[entries.length - 1];
+  const merges =
+    last !== undefined &&
+    history.index === history.entries.length &&
+    (gesture !== null
+      ? last.gesture === gesture
+      : last.gesture === null && now - last.time < MERGE_WINDOW && sameParams(last.changes, changes));
+  if (merges) {
+    const merged = diffStates(last.before, after);
+    entries.pop();
+    if (merged.length > 0) entries.push({ before: last.before, after, changes: merged, time: now, gesture });
+  } else {
+    entries.push({ before, after, changes, time: now, gesture });
+  }
+  const kept = entries.slice(-HISTORY_LIMIT);
+  return { entries: kept, index: kept.length };
+};
+
+/**
+ * Moves to the point after `index` entries have been applied, returning the state there.
+ * Null when the index is out of range.
+ */
+export const jumpTo = (history: EditHistory, index: number): { history: EditHistory; state: EditState } | null => {
+  if (index < 0 || index > history.entries.length || index === history.index || history.entries.length === 0) return null;
+  const state = index === 0 ? history.entries[0].before : history.entries[index - 1].after;
+  return { history: { ...history, index }, state };
+};
+
+export const undo = (history: EditHistory) => jumpTo(history, history.index - 1);
+
+export const redo = (history: EditHistory) => jumpTo(history, history.index + 1);
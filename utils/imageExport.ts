@@ -0,0 +1,198 @@
+// Elements marked with this attribute are left out of exported drawings (e.g. edit handles)
+const EXPORT_SKIP_ATTRIBUTE = 'data-export-skip';
+
+export interface ExportRegion {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// CRC-32 as used by both PNG chunks and ZIP entries
+const crc32 = (bytes: Uint8Array, crc = 0xffffffff) => {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+/**
+ * A standalone copy of an SVG drawing: the given region of its user space at the given pixel
+ * size, on a white background, without the elements marked to skip.
+ */
+export const serializeSvg = (svg: SVGSVGElement, region: ExportRegion, width: number, height: number): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll(`[${EXPORT_SKIP_ATTRIBUTE}]`).forEach((el) => el.remove());
+  clone.querySelectorAll('[class]').forEach((el) => el.removeAttribute('class'));
+  clone.removeAttribute('class');
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('viewBox', `${region.x} ${region.y} ${region.w} ${region.h}`);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('x', String(region.x));
+  background.setAttribute('y', String(region.y));
+  background.setAttribute('width', String(region.w));
+  background.setAttribute('height', String(region.h));
+  background.setAttribute('fill', 'white');
+  clone.insertBefore(background, clone.querySelector('defs')?.nextSibling ?? clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+};
+
+/**
+ * Rasterizes standalone SVG markup to PNG bytes at its own width and height.
+ */
+export const svgToPng = async (markup: string, width: number, height: number): Promise<Uint8Array> => {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available');
+    context.drawImage(image, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('PNG encoding failed');
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readChunks = (png: Uint8Array): PngChunk[] => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const writeChunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, (crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+  return out;
+};
+
+const uint32 = (...values: number[]) => {
+  const out = new Uint8Array(4 * values.length);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setUint32(4 * i, v));
+  return out;
+};
+
+/**
+ * Joins same-sized PNG frames into a looping animated PNG. Each frame's image data is reused
+ * as is: the first as the default image, the rest as frame data chunks.
+ */
+export const encodeApng = (frames: Uint8Array[], delayMs: number): Uint8Array => {
+  const parsed = frames.map(readChunks);
+  const header = parsed[0].find((c) => c.type === 'IHDR');
+  if (!header) throw new Error('Not a PNG');
+  const width = new DataView(header.data.buffer, header.data.byteOffset).getUint32(0);
+  const height = new DataView(header.data.buffer, header.data.byteOffset).getUint32(4);
+
+  let sequence = 0;
+  // fcTL: sequence, size, offset, delay as a fraction of seconds, no disposal or blending
+  const frameControl = () => {
+    const data = concat([uint32(sequence++, width, height, 0, 0), new Uint8Array(4), new Uint8Array([0, 0])]);
+    new DataView(data.buffer).setUint16(20, Math.round(delayMs));
+    new DataView(data.buffer).setUint16(22, 1000);
+    return writeChunk('fcTL', data);
+  };
+
+  const parts = [frames[0].subarray(0, 8), writeChunk('IHDR', header.data), writeChunk('acTL', uint32(frames.length, 0))];
+  parsed.forEach((chunks, i) => {
+    parts.push(frameControl());
+    chunks
+      .filter((c) => c.type === 'IDAT')
+      .forEach((c) => parts.push(i === 0 ? writeChunk('IDAT', c.data) : writeChunk('fdAT', concat([uint32(sequence++), c.data]))));
+  });
+  parts.push(writeChunk('IEND', new Uint8Array(0)));
+  return concat(parts);
+};
+
+/**
+ * An uncompressed ZIP archive of the given files, for downloading a frame sequence at once.
+ */
+export const zipFiles = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const fileName = encoder.encode(name);
+    const crc = (crc32(data) ^ 0xffffffff) >>> 0;
+    // Shared fields: version, flags, method (stored), time, date, CRC, sizes, name length, extra length
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, 0, true);
+      view.setUint16(at + 4, 0, true);
+      view.setUint16(at + 6, 0, true);
+      view.setUint16(at + 8, 0x21, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, fileName.length, true);
+      view.setUint16(at + 24, 0, true);
+    };
+
+    const local = new Uint8Array(30);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    fields(localView, 4);
+    locals.push(local, fileName, data);
+
+    const central = new Uint8Array(46);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    fields(centralView, 6);
+    centralView.setUint32(42, offset, true);
+    centrals.push(central, fileName);
+
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directory = concat(centrals);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directory.length, true);
+  endView.setUint32(16, offset, true);
+  return concat([...locals, directory, end]);
+};
@@ -0,0 +1,101 @@
+import { Centrodes, InstantCenters, LinkageConfig, MechanismPose, Point, TrajectorySegment } from '../types';
+import { poseFromTrajectoryPoint } from './inversion';
+
+// Centrode points farther than this many ground lengths from A* are left out, splitting the
+// curve where I13 runs off to infinity
+const CENTRODE_REACH = 10;
+
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+
+/**
+ * Intersection of the line through p1, p2 with the line through q1, q2. Null when they are
+ * parallel, so the intersection is at infinity.
+ */
+const intersectLines = (p1: Point, p2: Point, q1: Point, q2: Point): Point | null => {
+  const u = sub(p2, p1);
+  const w = sub(q2, q1);
+  const det = cross(u, w);
+  if (!(Math.abs(det) > 1e-9 * Math.hypot(u.x, u.y) * Math.hypot(w.x, w.y))) return null;
+  const t = cross(sub(q1, p1), w) / det;
+  return { x: p1.x + t * u.x, y: p1.y + t * u.y };
+};
+
+/**
+ * All six instant centers of the four-bar in one pose. Four are the pin joints; by Kennedy's
+ * theorem I13 lies on both I12–I23 and I14–I34, and I24 on both I12–I14 and I23–I34.
+ */
+export const instantCenters = ({ A_star, B_star, A, B }: MechanismPose): InstantCenters => ({
+  I12: A_star,
+  I14: B_star,
+  I23: A,
+  I34: B,
+  I13: intersectLines(A_star, A, B_star, B),
+  I24: intersectLines(A_star, B_star, A, B),
+});
+
+/**
+ * ω4/ω2 from I24, the point moving with both links 2 and 4: with I24 = I12 + t·(I14 − I12),
+ * ω2·t = ω4·(t − 1), so ω4/ω2 = t/(t − 1). Null when I24 is at infinity, where links 2 and 4
+ * turn at the same rate and the ratio is 1 only in the limit.
+ */
+export const velocityRatioFromI24 = (centers: InstantCenters): number | null => {
+  const { I12, I14, I24 } = centers;
+  if (!I12 || !I14 || !I24) return null;
+  const ground = sub(I14, I12);
+  const t = (sub(I24, I12).x * ground.x + sub(I24, I12).y * ground.y) / (ground.x ** 2 + ground.y ** 2);
+  return t / (t - 1);
+};
+
+/**
+ * A global point in the coupler's frame for a pose, and back.
+ */
+const toCouplerFrame = (p: Point, { A, B }: MechanismPose): Point => {
+  const angle = Math.atan2(B.y - A.y, B.x - A.x);
+  const d = sub(p, A);
+  return { x: d.x * Math.cos(angle) + d.y * Math.sin(angle), y: -d.x * Math.sin(angle) + d.y * Math.cos(angle) };
+};
+
+const fromCouplerFrame = (p: Point, { A, B }: MechanismPose): Point => {
+  const angle = Math.atan2(B.y - A.y, B.x - A.x);
+  return { x: A.x + p.x * Math.cos(angle) - p.y * Math.sin(angle), y: A.y + p.x * Math.sin(angle) + p.y * Math.cos(angle) };
+};
+
+/**
+ * The coupler's fixed and moving centrodes over the cycle: the paths of I13 on the ground and
+ * on the coupler. The moving centrode rolls without slipping on the fixed one, touching it
+ * at the current I13.
+ */
+export const couplerCentrodes = (config: LinkageConfig, segments: TrajectorySegment[]): Centrodes => {
+  const reach = CENTRODE_REACH * Math.max(config.r1, config.r2, config.r3, config.r4);
+  const fixed: Point[][] = [];
+  const moving: Point[][] = [];
+  segments.forEach(({ points }) => {
+    let fixedRun: Point[] = [];
+    let movingRun: Point[] = [];
+    points.forEach((pt) => {
+      const pose = poseFromTrajectoryPoint(config, pt);
+      const I13 = instantCenters(pose).I13;
+      if (I13 && Math.hypot(I13.x - pose.A_star.x, I13.y - pose.A_star.y) < reach) {
+        fixedRun.push(I13);
+        movingRun.push(toCouplerFrame(I13, pose));
+      } else if (fixedRun.length > 0) {
+        fixed.push(fixedRun);
+        moving.push(movingRun);
+        fixedRun = [];
+        movingRun = [];
+      }
+    });
+    if (fixedRun.length > 0) {
+      fixed.push(fixedRun);
+      moving.push(movingRun);
+    }
+  });
+  return { fixed, moving };
+};
+
+/**
+ * The moving centrode carried to the coupler's place in a pose, in global coordinates.
+ */
+export const placeMovingCentrode = (moving: Point[][], pose: MechanismPose): Point[][] =>
+  moving.map((run) => run.map((p) => fromCouplerFrame(p, pose)));
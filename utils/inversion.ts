@@ -0,0 +1,72 @@
+import { GroundLink, LinkageConfig, LinkageSolution, MechanismPose, Point, TrajectoryPoint } from '../types';
+import { groundPivots, toRad } from './math';
+
+// Joint pair of each link, in the order that defines its frame (origin → +x axis)
+const LINK_JOINTS: Record<GroundLink, [keyof MechanismPose, keyof MechanismPose]> = {
+  1: ['A_star', 'B_star'],
+  2: ['A_star', 'A'],
+  3: ['A', 'B'],
+  4: ['B_star', 'B'],
+};
+
+export const INVERSION_LABELS: Record<GroundLink, string> = {
+  1: 'Ground r₁ fixed',
+  2: 'Crank r₂ fixed',
+  3: 'Coupler r₃ fixed',
+  4: 'Output r₄ fixed',
+};
+
+/**
+ * The two joints that become the fixed pivots when the given link is grounded.
+ */
+export const fixedJoints = (ground: GroundLink) => LINK_JOINTS[ground];
+
+export const poseFromSolution = (config: LinkageConfig, sol: LinkageSolution): MechanismPose => ({
+  ...groundPivots(config),
+  A: { x: sol.Ax, y: sol.Ay },
+  B: { x: sol.Bx, y: sol.By },
+  C: { x: sol.Cx, y: sol.Cy },
+});
+
+/**
+ * Rebuilds the joint positions of a trajectory sample from its link angles.
+ */
+export const poseFromTrajectoryPoint = (config: LinkageConfig, pt: TrajectoryPoint): MechanismPose => {
+  const t2 = toRad(pt.theta2);
+  const t3 = toRad(pt.theta3);
+  const { A_star, B_star } = groundPivots(config);
+  const A = { x: A_star.x + config.r2 * Math.cos(t2), y: A_star.y + config.r2 * Math.sin(t2) };
+  return {
+    A_star,
+    B_star,
+    A,
+    B: { x: A.x + config.r3 * Math.cos(t3), y: A.y + config.r3 * Math.sin(t3) },
+    C: { x: pt.Cx, y: pt.Cy },
+  };
+};
+
+/**
+ * Re-expresses a pose in the frame of the grounded link: its first joint at the origin
+ * and its second on the +x axis. The original ground keeps its global placement.
+ * Relative motion is unchanged by inversion, so every joint (including the coupler
+ * point C, which stays attached to link 3) is carried over by the same rigid transform.
+ */
+export const invertPose = (pose: MechanismPose, ground: GroundLink): MechanismPose => {
+  if (ground === 1) return pose;
+  const [from, to] = LINK_JOINTS[ground];
+  const o = pose[from];
+  const phi = Math.atan2(pose[to].y - o.y, pose[to].x - o.x);
+  const c = Math.cos(-phi);
+  const s = Math.sin(-phi);
+  const map = (p: Point): Point => ({
+    x: (p.x - o.x) * c - (p.y - o.y) * s,
+    y: (p.x - o.x) * s + (p.y - o.y) * c,
+  });
+  return {
+    A_star: map(pose.A_star),
+    B_star: map(pose.B_star),
+    A: map(pose.A),
+    B: map(pose.B),
+    C: map(pose.C),
+  };
+};
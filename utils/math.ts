@@ -1,107 +1,387 @@
-import { LinkageConfig, LinkageSolution, Point } from '../types';
+import { DriverLink, LinkageConfig, LinkageSolution, MechanismType, Point, SliderSolution } from '../types';
 
 export const toRad = (deg: number) => (deg * Math.PI) / 180;
 export const toDeg = (rad: number) => (rad * 180) / Math.PI;
 
+const NAN_POINT: Point = { x: NaN, y: NaN };
+
 /**
- * Solves the four-bar linkage vector loop equations using the intersection of two circles.
- * Circle 1: Centered at A(r2, theta2), radius r3.
- * Circle 2: Centered at B*(r1, 0), radius r4.
+ * Transmission angle μ from the diagonal d = |AB*| (law of cosines on triangle A–B–B*).
+ * Depends only on d, so both assembly branches share the same μ at a given θ2.
  */
-export const solveLinkage = (
+export const transmissionAngle = (r3: number, r4: number, d: number) => {
+  const c = (r3 ** 2 + r4 ** 2 - d ** 2) / (2 * r3 * r4);
+  return toDeg(Math.acos(Math.max(-1, Math.min(1, c))));
+};
+
+/**
+ * Velocity and acceleration of a point at distance r along a link at angle theta (rad),
+ * relative to the link's pivot, for a link rotating with omega and alpha.
+ * v = r·ω·i·e^{iθ},  a = r·(α·i − ω²)·e^{iθ}
+ */
+export const relativeMotion = (r: number, theta: number, omega: number, alpha: number) => {
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  return {
+    v: { x: -r * omega * s, y: r * omega * c },
+    a: { x: -r * alpha * s - r * omega ** 2 * c, y: r * alpha * c - r * omega ** 2 * s },
+  };
+};
+
+export interface KinematicState {
+  omega2: number;
+  omega3: number;
+  omega4: number;
+  alpha2: number;
+  alpha3: number;
+  alpha4: number;
+  vA: Point;
+  vB: Point;
+  vC: Point;
+  aA: Point;
+  aB: Point;
+  aC: Point;
+}
+
+const DRIVER_ANGLE_KEY: Record<DriverLink, 'theta2' | 'theta3' | 'theta4'> = {
+  crank: 'theta2',
+  coupler: 'theta3',
+  rocker: 'theta4',
+};
+
+// Display names and symbols for each driver choice
+export const DRIVER_LABELS: Record<DriverLink, { name: string; angle: string; omega: string; alpha: string }> = {
+  crank: { name: 'Crank', angle: 'θ₂', omega: 'ω₂', alpha: 'α₂' },
+  coupler: { name: 'Coupler', angle: 'θ₃', omega: 'ω₃', alpha: 'α₃' },
+  rocker: { name: 'Rocker', angle: 'θ₄', omega: 'ω₄', alpha: 'α₄' },
+};
+
+export const MECHANISM_LABELS: Record<MechanismType, string> = {
+  'four-bar': 'Four-bar',
+  watt2: 'Watt II six-bar',
+  stephenson3: 'Stephenson III six-bar',
+  'slider-crank': 'Slider-crank',
+  'inverted-slider-crank': 'Inverted slider-crank',
+};
+
+/**
+ * The prescribed angle of whichever link drives the mechanism (degrees).
+ */
+export const getInputAngle = (config: LinkageConfig) => config[DRIVER_ANGLE_KEY[config.driver]];
+
+/**
+ * Returns a copy of the config with the driver link set to the given angle (degrees).
+ */
+export const withInputAngle = (config: LinkageConfig, angle: number): LinkageConfig => ({
+  ...config,
+  [DRIVER_ANGLE_KEY[config.driver]]: angle,
+});
+
+/**
+ * Velocity and acceleration analysis for a solved position.
+ * Differentiates the loop equation r2·e^{iθ2} + r3·e^{iθ3} = r1·e^{iθ1} + r4·e^{iθ4} once and twice
+ * in time, then eliminates one unknown at a time by projecting onto e^{iθ4} and e^{iθ3}.
+ *
+ * Every rate is linear in the crank's (ω2, α2), so for a coupler or rocker driver the crank
+ * rates are first back-solved from the prescribed input rates.
+ * All angles in radians. The result is singular at the driver's dead points.
+ */
+export const solveKinematics = (
   config: LinkageConfig,
-  assemblyMode: -1 | 1 = 1 // 1 for one branch, -1 for the other
-): LinkageSolution => {
-  const { r1, r2, r3, r4, r6, beta, theta2 } = config;
-  const theta2Rad = toRad(theta2);
-  const betaRad = toRad(beta);
+  theta2Rad: number,
+  theta3Rad: number,
+  theta4Rad: number
+): KinematicState => {
+  const { r2, r3, r4, r6, beta, driver, inputOmega, inputAlpha } = config;
+  const t2 = theta2Rad;
+  const t3 = theta3Rad;
+  const t4 = theta4Rad;
+  const s34 = Math.sin(t3 - t4);
+
+  // Velocity coefficients: ω3 = k3·ω2, ω4 = k4·ω2
+  const k3 = (r2 * Math.sin(t4 - t2)) / (r3 * s34);
+  const k4 = (r2 * Math.sin(t3 - t2)) / (r4 * s34);
+  const omega2 = driver === 'crank' ? inputOmega : inputOmega / (driver === 'rocker' ? k4 : k3);
+  const omega3 = k3 * omega2;
+  const omega4 = k4 * omega2;
 
-  // A* is at (0,0)
-  // B* is at (r1, 0)
-  const B_star: Point = { x: r1, y: 0 };
+  // Acceleration: α3 = k3·α2 + q3, α4 = k4·α2 + q4 with q the velocity-squared terms
+  const q3 =
+    (-r2 * omega2 ** 2 * Math.cos(t2 - t4) -
+      r3 * omega3 ** 2 * Math.cos(t3 - t4) +
+      r4 * omega4 ** 2) /
+    (r3 * s34);
+  const q4 =
+    (r2 * omega2 ** 2 * Math.cos(t2 - t3) +
+      r3 * omega3 ** 2 -
+      r4 * omega4 ** 2 * Math.cos(t4 - t3)) /
+    (r4 * Math.sin(t4 - t3));
+  const alpha2 =
+    driver === 'crank'
+      ? inputAlpha
+      : driver === 'rocker'
+        ? (inputAlpha - q4) / k4
+        : (inputAlpha - q3) / k3;
+  const alpha3 = k3 * alpha2 + q3;
+  const alpha4 = k4 * alpha2 + q4;
+
+  const A = relativeMotion(r2, t2, omega2, alpha2);
+  const B = relativeMotion(r4, t4, omega4, alpha4);
+  // C rides on the coupler: vC = vA + ω3 × AC
+  const AC = relativeMotion(r6, t3 + toRad(beta), omega3, alpha3);
+
+  return {
+    omega2,
+    omega3,
+    omega4,
+    alpha2,
+    alpha3,
+    alpha4,
+    vA: A.v,
+    vB: B.v,
+    vC: { x: A.v.x + AC.v.x, y: A.v.y + AC.v.y },
+    aA: A.a,
+    aB: B.a,
+    aC: { x: A.a.x + AC.a.x, y: A.a.y + AC.a.y },
+  };
+};
 
-  // Calculate A
-  const Ax = r2 * Math.cos(theta2Rad);
-  const Ay = r2 * Math.sin(theta2Rad);
+/**
+ * Global positions of the ground pivots: A* where the config places it, and B* at r1 along
+ * the ground angle θ1.
+ */
+export const groundPivots = (config: LinkageConfig): { A_star: Point; B_star: Point } => {
+  const t1 = toRad(config.theta1);
+  return {
+    A_star: { x: config.groundX, y: config.groundY },
+    B_star: { x: config.groundX + config.r1 * Math.cos(t1), y: config.groundY + config.r1 * Math.sin(t1) },
+  };
+};
 
-  // Distance between A and B*
-  const d2 = (Ax - B_star.x) ** 2 + (Ay - B_star.y) ** 2;
+/**
+ * Intersection of circle (c1, rad1) with circle (c2, rad2).
+ * assemblyMode 1 returns the point to the right of the line c1 → c2, -1 the one to the left.
+ * Returns null when the circles do not meet.
+ */
+export const intersectCircles = (
+  c1: Point,
+  rad1: number,
+  c2: Point,
+  rad2: number,
+  assemblyMode: -1 | 1
+): Point | null => {
+  const d2 = (c2.x - c1.x) ** 2 + (c2.y - c1.y) ** 2;
   const d = Math.sqrt(d2);
 
-  // Check valid assembly (Grashof/geometric limits)
-  // Triangle inequality: |r3 - r4| <= d <= r3 + r4
-  if (d > r3 + r4 || d < Math.abs(r3 - r4) || d === 0) {
-    return {
-      Ax, Ay, Bx: NaN, By: NaN, Cx: NaN, Cy: NaN, theta3: NaN, theta4: NaN, isValid: false, mode: assemblyMode === 1 ? 'open' : 'crossed'
-    };
-  }
+  // Triangle inequality: |rad1 - rad2| <= d <= rad1 + rad2
+  if (d > rad1 + rad2 || d < Math.abs(rad1 - rad2) || d === 0) return null;
 
-  // Circle intersection logic
-  const a = (r3 ** 2 - r4 ** 2 + d2) / (2 * d);
-  const h = Math.sqrt(Math.max(0, r3 ** 2 - a ** 2));
+  const a = (rad1 ** 2 - rad2 ** 2 + d2) / (2 * d);
+  const h = Math.sqrt(Math.max(0, rad1 ** 2 - a ** 2));
 
   // Midpoint P2 between intersections on the line connecting centers
-  const x2 = Ax + (a * (B_star.x - Ax)) / d;
-  const y2 = Ay + (a * (B_star.y - Ay)) / d;
+  const x2 = c1.x + (a * (c2.x - c1.x)) / d;
+  const y2 = c1.y + (a * (c2.y - c1.y)) / d;
 
-  // Two solutions for B
-  const x3_1 = x2 + (h * (B_star.y - Ay)) / d;
-  const y3_1 = y2 - (h * (B_star.x - Ax)) / d;
+  return {
+    x: x2 + (assemblyMode * h * (c2.y - c1.y)) / d,
+    y: y2 - (assemblyMode * h * (c2.x - c1.x)) / d,
+  };
+};
+
+/**
+ * Locates the moving pivots A and B for the configured driver.
+ * - crank:   A from θ2, then B = circle(A, r3) ∩ circle(B*, r4)
+ * - rocker:  B from θ4, then A = circle(B, r3) ∩ circle(A*, r2)
+ * - coupler: AB is fixed in direction, so A = circle(A*, r2) ∩ circle(B* − r3·e^{iθ3}, r4)
+ */
+const locatePivots = (
+  config: LinkageConfig,
+  assemblyMode: -1 | 1
+): { A: Point | null; B: Point | null } => {
+  const { r2, r3, r4, driver } = config;
+  const { A_star, B_star } = groundPivots(config);
+
+  if (driver === 'rocker') {
+    const t4 = toRad(config.theta4);
+    const B = { x: B_star.x + r4 * Math.cos(t4), y: B_star.y + r4 * Math.sin(t4) };
+    return { A: intersectCircles(B, r3, A_star, r2, assemblyMode), B };
+  }
 
-  const x3_2 = x2 - (h * (B_star.y - Ay)) / d;
-  const y3_2 = y2 + (h * (B_star.x - Ax)) / d;
+  if (driver === 'coupler') {
+    const t3 = toRad(config.theta3);
+    const AB = { x: r3 * Math.cos(t3), y: r3 * Math.sin(t3) };
+    const A = intersectCircles(A_star, r2, { x: B_star.x - AB.x, y: B_star.y - AB.y }, r4, assemblyMode);
+    return { A, B: A && { x: A.x + AB.x, y: A.y + AB.y } };
+  }
 
-  // Select solution based on assemblyMode
-  const Bx = assemblyMode === 1 ? x3_1 : x3_2;
-  const By = assemblyMode === 1 ? y3_1 : y3_2;
+  const t2 = toRad(config.theta2);
+  const A = { x: A_star.x + r2 * Math.cos(t2), y: A_star.y + r2 * Math.sin(t2) };
+  return { A, B: intersectCircles(A, r3, B_star, r4, assemblyMode) };
+};
 
-  // Calculate Theta3 (Angle of AB)
-  const theta3Rad = Math.atan2(By - Ay, Bx - Ax);
-  const theta3 = toDeg(theta3Rad);
+/**
+ * Solves the four-bar linkage vector loop equations using the intersection of two circles,
+ * driven from whichever link `config.driver` selects.
+ * A* is at (groundX, groundY) and B* at r1 along θ1; every output is in global coordinates.
+ */
+export const solveLinkage = (
+  config: LinkageConfig,
+  assemblyMode: -1 | 1 = 1 // 1 for one branch, -1 for the other
+): LinkageSolution => {
+  const { r3, r4, r6, beta, driver } = config;
+  const betaRad = toRad(beta);
+  const { A_star, B_star } = groundPivots(config);
+  const { A, B } = locatePivots(config, assemblyMode);
+
+  // Check valid assembly (Grashof/geometric limits)
+  if (!A || !B) {
+    return {
+      Ax: A?.x ?? NaN, Ay: A?.y ?? NaN, Bx: B?.x ?? NaN, By: B?.y ?? NaN, Cx: NaN, Cy: NaN,
+      theta2: driver === 'crank' ? config.theta2 : NaN,
+      theta3: driver === 'coupler' ? config.theta3 : NaN,
+      theta4: driver === 'rocker' ? config.theta4 : NaN,
+      mu: NaN,
+      omega2: NaN, omega3: NaN, omega4: NaN, alpha2: NaN, alpha3: NaN, alpha4: NaN,
+      vA: NAN_POINT, vB: NAN_POINT, vC: NAN_POINT, aA: NAN_POINT, aB: NAN_POINT, aC: NAN_POINT,
+      isValid: false, mode: assemblyMode === 1 ? 'open' : 'crossed'
+    };
+  }
 
-  // Calculate Theta4 (Angle of B*B)
-  const theta4Rad = Math.atan2(By - B_star.y, Bx - B_star.x);
-  const theta4 = toDeg(theta4Rad);
+  // Link angles; the driver keeps its prescribed value rather than the atan2 range
+  const theta2Rad = Math.atan2(A.y - A_star.y, A.x - A_star.x);
+  const theta3Rad = Math.atan2(B.y - A.y, B.x - A.x);
+  const theta4Rad = Math.atan2(B.y - B_star.y, B.x - B_star.x);
 
   // Calculate C
   // Vector AC has length r6 and angle theta3 + beta
   // Note: beta is relative to line AB.
   // Standard convention: if beta is positive, it's counter-clockwise from AB.
   const angleAC = theta3Rad + betaRad;
-  const Cx = Ax + r6 * Math.cos(angleAC);
-  const Cy = Ay + r6 * Math.sin(angleAC);
+  const Cx = A.x + r6 * Math.cos(angleAC);
+  const Cy = A.y + r6 * Math.sin(angleAC);
+
+  const kinematics = solveKinematics(config, theta2Rad, theta3Rad, theta4Rad);
 
   return {
-    Ax,
-    Ay,
-    Bx,
-    By,
+    Ax: A.x,
+    Ay: A.y,
+    Bx: B.x,
+    By: B.y,
     Cx,
     Cy,
-    theta3,
-    theta4,
+    theta2: driver === 'crank' ? config.theta2 : toDeg(theta2Rad),
+    theta3: driver === 'coupler' ? config.theta3 : toDeg(theta3Rad),
+    theta4: driver === 'rocker' ? config.theta4 : toDeg(theta4Rad),
+    mu: transmissionAngle(r3, r4, Math.hypot(A.x - B_star.x, A.y - B_star.y)),
+    ...kinematics,
     isValid: true,
     mode: assemblyMode === 1 ? 'open' : 'crossed',
   };
 };
 
+const INVALID_SLIDER: SliderSolution = {
+  A: NAN_POINT, B: NAN_POINT, C: NAN_POINT, guideFoot: NAN_POINT,
+  theta3: NaN, theta4: NaN, omega3: NaN, omega4: NaN, alpha3: NaN, alpha4: NaN,
+  s: NaN, v: NaN, a: NaN,
+  isValid: false,
+};
+
 /**
- * Pre-computes the full cycle for plotting.
+ * Offset slider-crank driven by the crank at θ2 with (inputOmega, inputAlpha). The connecting
+ * rod AB (r3) ends at a slider B on a guide parallel to the ground direction θ1, `offset` to
+ * the left of A*. In guide coordinates B = (s, e) with s = A_u ± √(r3² − (e − A_n)²), the
+ * sign set by assemblyMode; the rates come from differentiating e − A_n = r3·sin ψ and
+ * s = A_u + r3·cos ψ, where ψ is the rod angle from the guide. r1 and r4 do not apply.
  */
-export const computeTrajectory = (config: LinkageConfig, assemblyMode: -1 | 1) => {
-  const data = [];
-  // Sample every 2 degrees for smoothness
-  for (let t2 = 0; t2 <= 360; t2 += 2) {
-    const sol = solveLinkage({ ...config, theta2: t2 }, assemblyMode);
-    if (sol.isValid) {
-      data.push({
-        theta2: t2,
-        theta3: sol.theta3,
-        theta4: sol.theta4,
-        Cx: sol.Cx,
-        Cy: sol.Cy,
-      });
-    }
-  }
-  return data;
+export const solveSliderCrank = (config: LinkageConfig, offset: number, assemblyMode: -1 | 1 = 1): SliderSolution => {
+  const { r2, r3, r6, beta, inputOmega: w2, inputAlpha: a2 } = config;
+  const t1 = toRad(config.theta1);
+  const phi = toRad(config.theta2) - t1;
+  const u = { x: Math.cos(t1), y: Math.sin(t1) };
+  const toGlobal = (along: number, across: number): Point => ({
+    x: config.groundX + along * u.x - across * u.y,
+    y: config.groundY + along * u.y + across * u.x,
+  });
+
+  const dy = offset - r2 * Math.sin(phi);
+  if (Math.abs(dy) > r3) return INVALID_SLIDER;
+  const dx = assemblyMode * Math.sqrt(r3 ** 2 - dy ** 2);
+  const s = r2 * Math.cos(phi) + dx;
+  const psi = Math.atan2(dy, dx);
+  const theta3 = toDeg(t1 + psi);
+
+  // Crank pin rates along (u) and across (n) the guide
+  const Au1 = -r2 * w2 * Math.sin(phi);
+  const An1 = r2 * w2 * Math.cos(phi);
+  const Au2 = -r2 * (a2 * Math.sin(phi) + w2 ** 2 * Math.cos(phi));
+  const An2 = r2 * (a2 * Math.cos(phi) - w2 ** 2 * Math.sin(phi));
+  const omega3 = -An1 / (r3 * Math.cos(psi));
+  const alpha3 = (-An2 + r3 * Math.sin(psi) * omega3 ** 2) / (r3 * Math.cos(psi));
+
+  const A = toGlobal(r2 * Math.cos(phi), r2 * Math.sin(phi));
+  const angleAC = toRad(theta3 + beta);
+  return {
+    A,
+    B: toGlobal(s, offset),
+    C: { x: A.x + r6 * Math.cos(angleAC), y: A.y + r6 * Math.sin(angleAC) },
+    guideFoot: toGlobal(0, offset),
+    theta3,
+    theta4: config.theta1,
+    omega3,
+    omega4: 0,
+    alpha3,
+    alpha4: 0,
+    s,
+    v: Au1 - r3 * Math.sin(psi) * omega3,
+    a: Au2 - r3 * (Math.sin(psi) * alpha3 + Math.cos(psi) * omega3 ** 2),
+    isValid: true,
+  };
+};
+
+/**
+ * Inverted slider-crank driven by the crank at θ2: a block pinned at A slides along link 4,
+ * which pivots at B* and carries its guide line `offset` to the left of B*. With
+ * A − B* = (s + i·e)·e^{iθ4}, s = ±√(|A − B*|² − e²) by assemblyMode. In link 4's frame
+ * vA = (ṡ − ω4·e, ω4·s) and aA = (s̈ − α4·e − ω4²·s, α4·s + 2ω4·ṡ − ω4²·e), which give ω4,
+ * ṡ, α4 and s̈. The block turns with link 4; r3 does not apply.
+ */
+export const solveInvertedSliderCrank = (config: LinkageConfig, offset: number, assemblyMode: -1 | 1 = 1): SliderSolution => {
+  const { r2, r6, beta, inputOmega: w2, inputAlpha: a2 } = config;
+  const { A_star, B_star } = groundPivots(config);
+  const t2 = toRad(config.theta2);
+  const A = { x: A_star.x + r2 * Math.cos(t2), y: A_star.y + r2 * Math.sin(t2) };
+  const d = Math.hypot(A.x - B_star.x, A.y - B_star.y);
+  if (d <= Math.abs(offset)) return INVALID_SLIDER;
+
+  const s = assemblyMode * Math.sqrt(d ** 2 - offset ** 2);
+  const t4 = Math.atan2(A.y - B_star.y, A.x - B_star.x) - Math.atan2(offset, s);
+  const c = Math.cos(t4);
+  const sn = Math.sin(t4);
+  const toLink = (p: Point) => ({ x: p.x * c + p.y * sn, y: -p.x * sn + p.y * c });
+
+  const crank = relativeMotion(r2, t2, w2, a2);
+  const vA = toLink(crank.v);
+  const aA = toLink(crank.a);
+  const omega4 = vA.y / s;
+  const v = vA.x + omega4 * offset;
+  const alpha4 = (aA.y - 2 * omega4 * v + omega4 ** 2 * offset) / s;
+
+  const angleAC = t4 + toRad(beta);
+  return {
+    A,
+    B: A,
+    C: { x: A.x + r6 * Math.cos(angleAC), y: A.y + r6 * Math.sin(angleAC) },
+    guideFoot: { x: B_star.x - offset * sn, y: B_star.y + offset * c },
+    theta3: toDeg(t4),
+    theta4: toDeg(t4),
+    omega3: omega4,
+    omega4,
+    alpha3: alpha4,
+    alpha4,
+    s,
+    v,
+    a: aA.x + alpha4 * offset + omega4 ** 2 * s,
+    isValid: true,
+  };
 };
@@ -0,0 +1,280 @@
+import { GroundPose, LinkageConfig, PathOptimizerProgress, PathTarget, Point } from '../types';
+import { grashofType } from './classification';
+import { solveLinkage, toRad } from './math';
+
+export interface PathDesign {
+  config: LinkageConfig; // Its own ground placement is ignored in favor of `pose`
+  pose: GroundPose; // Where the linkage's ground frame sits among the targets
+  crankOffset: number; // Crank angle θ2 from the ground link at the first timed target (degrees)
+}
+
+export interface PathFit {
+  errors: number[]; // Distance from each target to the coupler curve (or timed position)
+  matches: Point[]; // Matched coupler point for each target, in target coordinates
+  rms: number;
+  rejected: string | null; // Why the design is not acceptable, if it is not
+}
+
+// Shortest link allowed during optimization, so the simplex cannot collapse a link
+const MIN_LINK = 0.05;
+const CURVE_STEP = 3;
+const REJECTED_COST = 1e6;
+
+/**
+ * Maps a point given in target coordinates into the linkage frame (A* at the origin, B* on +x).
+ */
+export const toLinkageFrame = (p: Point, pose: GroundPose): Point => {
+  const a = toRad(-pose.angle);
+  const dx = p.x - pose.x;
+  const dy = p.y - pose.y;
+  return { x: dx * Math.cos(a) - dy * Math.sin(a), y: dx * Math.sin(a) + dy * Math.cos(a) };
+};
+
+/**
+ * Inverse of `toLinkageFrame`.
+ */
+export const fromLinkageFrame = (p: Point, pose: GroundPose): Point => {
+  const a = toRad(pose.angle);
+  return { x: pose.x + p.x * Math.cos(a) - p.y * Math.sin(a), y: pose.y + p.x * Math.sin(a) + p.y * Math.cos(a) };
+};
+
+/**
+ * A linkage as a design: its ground placement becomes the design's pose, and its crank
+ * offset is measured from the ground link.
+ */
+export const designFromConfig = (config: LinkageConfig, crankOffset: number): PathDesign => ({
+  config,
+  pose: { x: config.groundX, y: config.groundY, angle: config.theta1 },
+  crankOffset,
+});
+
+// The config with its ground in the linkage frame, for solving before applying the pose
+const inLinkageFrame = (config: LinkageConfig): LinkageConfig => ({ ...config, groundX: 0, groundY: 0, theta1: 0 });
+
+/**
+ * The crank-driven coupler curve on one branch in the linkage frame, split into runs wherever
+ * it cannot assemble.
+ */
+const couplerCurve = (config: LinkageConfig, assemblyMode: 1 | -1): Point[][] => {
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+  for (let t = 0; t <= 360; t += CURVE_STEP) {
+    const sol = solveLinkage({ ...inLinkageFrame(config), driver: 'crank', theta2: t }, assemblyMode);
+    if (sol.isValid) {
+      run.push({ x: sol.Cx, y: sol.Cy });
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+};
+
+/**
+ * A design's coupler curve in target coordinates, for drawing.
+ */
+export const designCurve = (design: PathDesign, assemblyMode: 1 | -1): Point[][] =>
+  couplerCurve(design.config, assemblyMode).map((run) => run.map((p) => fromLinkageFrame(p, design.pose)));
+
+/**
+ * Closest point to p on a set of polylines.
+ */
+const closestOnCurve = (p: Point, runs: Point[][]): Point | null => {
+  let best: Point | null = null;
+  let bestDist = Infinity;
+  for (const run of runs) {
+    for (let i = 0; i < run.length; i++) {
+      const a = run[i];
+      const b = run[Math.min(i + 1, run.length - 1)];
+      const abx = b.x - a.x;
+      const aby = b.y - a.y;
+      const len2 = abx ** 2 + aby ** 2;
+      const u = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / len2)) : 0;
+      const q = { x: a.x + u * abx, y: a.y + u * aby };
+      const dist = Math.hypot(p.x - q.x, p.y - q.y);
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = q;
+      }
+    }
+  }
+  return best;
+};
+
+const rejectedFit = (targets: PathTarget[], reason: string): PathFit => ({
+  errors: targets.map(() => NaN),
+  matches: targets.map(() => ({ x: NaN, y: NaN })),
+  rms: NaN,
+  rejected: reason,
+});
+
+/**
+ * How closely a design's coupler point follows the targets. Untimed targets are matched to the
+ * nearest point of the whole coupler curve; timed ones to C at their prescribed crank angle.
+ * Non-Grashof designs and designs that break at a timed target are rejected.
+ */
+export const evaluatePath = (design: PathDesign, targets: PathTarget[], assemblyMode: 1 | -1): PathFit => {
+  const { config, pose, crankOffset } = design;
+  const { r1, r2, r3, r4 } = config;
+  if ([r1, r2, r3, r4].some((r) => !(r >= MIN_LINK))) return rejectedFit(targets, 'Link too short');
+  if (grashofType(config, 1).grashofSum > 0) return rejectedFit(targets, 'Non-Grashof linkage');
+
+  const timed = targets.filter((t) => t.timing !== null);
+  const firstTiming = timed.length > 0 ? (timed[0].timing as number) : 0;
+  const curve = timed.length < targets.length ? couplerCurve(config, assemblyMode) : [];
+  if (timed.length < targets.length && curve.length === 0) return rejectedFit(targets, 'Mechanism assembly broken');
+
+  const matches: Point[] = [];
+  for (const target of targets) {
+    const local = toLinkageFrame(target, pose);
+    let match: Point | null;
+    if (target.timing !== null) {
+      const theta2 = crankOffset + target.timing - firstTiming;
+      const sol = solveLinkage({ ...inLinkageFrame(config), driver: 'crank', theta2 }, assemblyMode);
+      if (!sol.isValid) return rejectedFit(targets, 'Breaks at a timed target');
+      match = { x: sol.Cx, y: sol.Cy };
+    } else {
+      match = closestOnCurve(local, curve);
+    }
+    if (!match) return rejectedFit(targets, 'Mechanism assembly broken');
+    matches.push(fromLinkageFrame(match, pose));
+  }
+
+  const errors = targets.map((t, i) => Math.hypot(t.x - matches[i].x, t.y - matches[i].y));
+  const rms = Math.sqrt(errors.reduce((s, e) => s + e ** 2, 0) / Math.max(1, errors.length));
+  return { errors, matches, rms, rejected: null };
+};
+
+// Optimization variables: r1–r4, r6, β, A* (x, y), ground angle, crank offset
+const pack = ({ config, pose, crankOffset }: PathDesign) => [
+  config.r1, config.r2, config.r3, config.r4, config.r6, config.beta, pose.x, pose.y, pose.angle, crankOffset,
+];
+const unpack = (v: number[], base: LinkageConfig): PathDesign => ({
+  config: { ...base, r1: v[0], r2: v[1], r3: v[2], r4: v[3], r6: v[4], beta: v[5], driver: 'crank' },
+  pose: { x: v[6], y: v[7], angle: v[8] },
+  crankOffset: v[9],
+});
+const initialSteps = (v: number[]) => [
+  ...v.slice(0, 5).map((r) => Math.max(0.1, 0.15 * Math.abs(r))),
+  15, 0.3, 0.3, 10, 15,
+];
+
+interface SimplexState {
+  iteration: number;
+  evaluations: number;
+  best: number[];
+  value: number;
+}
+
+/**
+ * Nelder–Mead simplex minimization, yielding after every iteration so the caller can report
+ * progress and stop early. Variables whose initial step is zero stay fixed.
+ */
+function* nelderMead(
+  f: (v: number[]) => number,
+  start: number[],
+  steps: number[],
+  maxIterations: number,
+  tolerance = 1e-9
+): Generator<SimplexState, SimplexState> {
+  const free = steps.map((s, i) => (s !== 0 ? i : -1)).filter((i) => i >= 0);
+  let evaluations = 0;
+  const evaluate = (v: number[]) => {
+    evaluations++;
+    return f(v);
+  };
+
+  let simplex = [start, ...free.map((i) => start.map((x, j) => (j === i ? x + steps[i] : x)))].map((v) => ({
+    v,
+    fv: evaluate(v),
+  }));
+  const combine = (a: number[], b: number[], t: number) => a.map((x, i) => x + t * (b[i] - x));
+
+  let iteration = 0;
+  for (; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.fv - b.fv);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (Math.abs(worst.fv - best.fv) <= tolerance * (Math.abs(best.fv) + tolerance)) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, -1).reduce((s, p) => s + p.v[j], 0) / (simplex.length - 1));
+    const reflected = combine(centroid, worst.v, -1);
+    const fr = evaluate(reflected);
+    const secondWorst = simplex[simplex.length - 2];
+
+    if (fr < best.fv) {
+      const expanded = combine(centroid, worst.v, -2);
+      const fe = evaluate(expanded);
+      simplex[simplex.length - 1] = fe < fr ? { v: expanded, fv: fe } : { v: reflected, fv: fr };
+    } else if (fr < secondWorst.fv) {
+      simplex[simplex.length - 1] = { v: reflected, fv: fr };
+    } else {
+      const contracted = fr < worst.fv ? combine(centroid, reflected, 0.5) : combine(centroid, worst.v, 0.5);
+      const fc = evaluate(contracted);
+      if (fc < Math.min(fr, worst.fv)) {
+        simplex[simplex.length - 1] = { v: contracted, fv: fc };
+      } else {
+        // Shrink towards the best vertex
+        simplex = simplex.map((p, i) => (i === 0 ? p : { v: combine(best.v, p.v, 0.5), fv: evaluate(combine(best.v, p.v, 0.5)) }));
+      }
+    }
+
+    yield { iteration: iteration + 1, evaluations, best: simplex.reduce((a, b) => (b.fv < a.fv ? b : a)).v, value: Math.min(...simplex.map((p) => p.fv)) };
+  }
+
+  const best = simplex.reduce((a, b) => (b.fv < a.fv ? b : a));
+  return { iteration, evaluations, best: best.v, value: best.fv };
+}
+
+/**
+ * Fits the coupler curve to the targets, starting from `start`. The simplex is restarted around
+ * the best design every `restartEvery` iterations, which keeps it from stalling in the long
+ * narrow valleys this problem has. Yields the progress and best design after every iteration;
+ * the final value has `done` set. The crank offset is only optimized when a target is timed.
+ */
+export function* optimizePath(
+  start: PathDesign,
+  targets: PathTarget[],
+  assemblyMode: 1 | -1,
+  maxIterations = 2000,
+  restartEvery = 250
+): Generator<{ progress: PathOptimizerProgress; design: PathDesign }, { progress: PathOptimizerProgress; design: PathDesign }> {
+  const base = start.config;
+  const isTimed = targets.some((t) => t.timing !== null);
+  const cost = (v: number[]) => {
+    const fit = evaluatePath(unpack(v, base), targets, assemblyMode);
+    return fit.rejected ? REJECTED_COST : fit.rms ** 2;
+  };
+
+  let best = pack(start);
+  let value = cost(best);
+  let iteration = 0;
+  let evaluations = 1;
+  const report = (done: boolean) => ({
+    progress: { iteration, evaluations, rms: value >= REJECTED_COST ? NaN : Math.sqrt(value), done },
+    design: unpack(best, base),
+  });
+
+  while (iteration < maxIterations) {
+    const steps = initialSteps(best).map((s, i) => (i === 9 && !isTimed ? 0 : s));
+    const run = nelderMead(cost, best, steps, Math.min(restartEvery, maxIterations - iteration));
+    const offset = { iteration, evaluations };
+    let state: SimplexState;
+    for (;;) {
+      const next = run.next();
+      state = next.value;
+      iteration = offset.iteration + state.iteration;
+      evaluations = offset.evaluations + state.evaluations;
+      if (state.value < value) {
+        best = state.best;
+        value = state.value;
+      }
+      if (next.done) break;
+      yield report(false);
+    }
+    // A restart that ends where it began has converged
+    if (state.iteration < restartEvery && state.iteration < maxIterations - offset.iteration) break;
+  }
+  return report(true);
+}
@@ -0,0 +1,178 @@
+import {
+  LinkageConfig,
+  LinkageSolution,
+  MechanismType,
+  Point,
+  SixBarConfig,
+  SixBarPoint,
+  SixBarSolution,
+  SixBarType,
+  TrajectorySegment,
+} from '../types';
+import { groundPivots, intersectCircles, relativeMotion, solveLinkage, toDeg, toRad, transmissionAngle, withInputAngle } from './math';
+
+export const isSixBarType = (mechanism: MechanismType): mechanism is SixBarType =>
+  mechanism === 'watt2' || mechanism === 'stephenson3';
+
+const NAN_POINT: Point = { x: NaN, y: NaN };
+
+const unwrap = (angle: number, previous: number) => angle - 360 * Math.round((angle - previous) / 360);
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/**
+ * Position of the second dyad's drive point for a four-bar pose: D on link 4 for Watt II,
+ * the coupler point C for Stephenson III.
+ */
+const drivePointAt = (
+  type: SixBarType,
+  B_star: Point,
+  theta4: number,
+  C: Point,
+  sixBar: Pick<SixBarConfig, 'rD' | 'gammaD'>
+): Point => {
+  if (type === 'stephenson3') return C;
+  const t = toRad(theta4 + sixBar.gammaD);
+  return { x: B_star.x + sixBar.rD * Math.cos(t), y: B_star.y + sixBar.rD * Math.sin(t) };
+};
+
+/**
+ * Solves the dyad D–F–E* on top of a solved four-bar: F = circle(D, r5) ∩ circle(E*, r6) on
+ * the dyad's own branch. Rates follow from differentiating D + r5·e^{iθ5} = E* + r6·e^{iθ6}:
+ * r5·ω5·ie^{iθ5} − r6·ω6·ie^{iθ6} = −vD, and likewise for α5, α6 with the ω² terms moved to
+ * the right. Singular where links 5 and 6 are collinear.
+ */
+export const solveSixBar = (
+  type: SixBarType,
+  config: LinkageConfig,
+  solution: LinkageSolution,
+  sixBar: SixBarConfig
+): SixBarSolution => {
+  const { r5, r6 } = sixBar;
+  const { B_star } = groundPivots(config);
+  const E_star = { x: sixBar.groundX, y: sixBar.groundY };
+  const D = solution.isValid
+    ? drivePointAt(type, B_star, solution.theta4, { x: solution.Cx, y: solution.Cy }, sixBar)
+    : NAN_POINT;
+  const F = solution.isValid ? intersectCircles(D, r5, E_star, r6, sixBar.assemblyMode) : null;
+
+  if (!F) {
+    return {
+      D, F: NAN_POINT, E_star,
+      theta5: NaN, theta6: NaN, mu: NaN,
+      omega5: NaN, omega6: NaN, alpha5: NaN, alpha6: NaN,
+      vF: NAN_POINT, aF: NAN_POINT,
+      isValid: false,
+    };
+  }
+
+  const t5 = Math.atan2(F.y - D.y, F.x - D.x);
+  const t6 = Math.atan2(F.y - E_star.y, F.x - E_star.x);
+
+  const drive =
+    type === 'stephenson3'
+      ? { v: solution.vC, a: solution.aC }
+      : relativeMotion(sixBar.rD, toRad(solution.theta4 + sixBar.gammaD), solution.omega4, solution.alpha4);
+
+  // [−r5·sin θ5   r6·sin θ6] [ω5]   [−vx]
+  // [ r5·cos θ5  −r6·cos θ6] [ω6] = [−vy]
+  const m11 = -r5 * Math.sin(t5);
+  const m12 = r6 * Math.sin(t6);
+  const m21 = r5 * Math.cos(t5);
+  const m22 = -r6 * Math.cos(t6);
+  const det = m11 * m22 - m12 * m21;
+  const solve2 = (bx: number, by: number) => [(bx * m22 - m12 * by) / det, (m11 * by - m21 * bx) / det];
+
+  const [omega5, omega6] = solve2(-drive.v.x, -drive.v.y);
+  const [alpha5, alpha6] = solve2(
+    -drive.a.x + r5 * omega5 ** 2 * Math.cos(t5) - r6 * omega6 ** 2 * Math.cos(t6),
+    -drive.a.y + r5 * omega5 ** 2 * Math.sin(t5) - r6 * omega6 ** 2 * Math.sin(t6)
+  );
+  const output = relativeMotion(r6, t6, omega6, alpha6);
+
+  return {
+    D,
+    F,
+    E_star,
+    theta5: toDeg(t5),
+    theta6: toDeg(t6),
+    mu: transmissionAngle(r5, r6, Math.hypot(D.x - E_star.x, D.y - E_star.y)),
+    omega5,
+    omega6,
+    alpha5,
+    alpha6,
+    vF: output.v,
+    aF: output.a,
+    isValid: true,
+  };
+};
+
+/**
+ * The six-bar's output over the base four-bar's cycle, re-solving each trajectory sample on
+ * its own branch. Runs split wherever the second loop cannot assemble, with θ5 and θ6
+ * unwrapped within each run.
+ */
+export const sixBarOverCycle = (
+  type: SixBarType,
+  config: LinkageConfig,
+  segments: TrajectorySegment[],
+  sixBar: SixBarConfig
+): SixBarPoint[][] => {
+  const runs: SixBarPoint[][] = [];
+  segments.forEach(({ points }) => {
+    let run: SixBarPoint[] = [];
+    points.forEach((pt) => {
+      const sol = solveSixBar(type, config, solveLinkage(withInputAngle(config, pt.input), pt.branch), sixBar);
+      if (sol.isValid) {
+        const prev = run[run.length - 1];
+        run.push({
+          input: pt.input,
+          theta5: prev ? unwrap(sol.theta5, prev.theta5) : sol.theta5,
+          theta6: prev ? unwrap(sol.theta6, prev.theta6) : sol.theta6,
+          mu: sol.mu,
+          omega6: sol.omega6,
+          alpha6: sol.alpha6,
+        });
+      } else if (run.length > 0) {
+        runs.push(run);
+        run = [];
+      }
+    });
+    if (run.length > 0) runs.push(run);
+  });
+  return runs;
+};
+
+/**
+ * A second dyad that assembles over the whole base cycle: E* sits one path size off the
+ * drive point's path, on the right of the ground line, with links 5 and 6 each 0.6 of the
+ * farthest distance from E* to the path, so they always reach and never fold past it.
+ */
+export const defaultSixBar = (type: SixBarType, config: LinkageConfig, segments: TrajectorySegment[]): SixBarConfig => {
+  const rD = round(0.6 * config.r4, 2);
+  const gammaD = 150;
+  const { B_star } = groundPivots(config);
+  const path = segments.flatMap(({ points }) =>
+    points.map((pt) => drivePointAt(type, B_star, pt.theta4, { x: pt.Cx, y: pt.Cy }, { rD, gammaD }))
+  );
+  if (path.length === 0) {
+    return { rD, gammaD, r5: 2, r6: 2, groundX: round(B_star.x, 2), groundY: round(B_star.y - 2, 2), assemblyMode: 1 };
+  }
+
+  const xs = path.map((p) => p.x);
+  const ys = path.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const maxX = Math.max(...xs);
+  const maxY = Math.max(...ys);
+  const size = Math.max(maxX - minX, maxY - minY, 0.5);
+  const away = toRad(config.theta1 - 90);
+  const E_star = {
+    x: round((minX + maxX) / 2 + size * Math.cos(away), 2),
+    y: round((minY + maxY) / 2 + size * Math.sin(away), 2),
+  };
+  const reach = Math.max(...path.map((p) => Math.hypot(p.x - E_star.x, p.y - E_star.y)));
+  const link = Math.ceil(6 * reach) / 10;
+
+  return { rD, gammaD, r5: link, r6: link, groundX: E_star.x, groundY: E_star.y, assemblyMode: 1 };
+};
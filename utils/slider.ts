@@ -0,0 +1,146 @@
+import { LinkageConfig, MechanismType, SliderMotion, SliderPoint, SliderSolution, SliderType } from '../types';
+import { solveInvertedSliderCrank, solveSliderCrank, toRad } from './math';
+
+// Crank sample spacing (degrees) for the cycle and for locating the slider's extremes
+const CYCLE_STEP = 1;
+// Golden-section iterations refining each extreme within one sample either side
+const REFINE_ITERATIONS = 40;
+
+export const isSliderType = (mechanism: MechanismType): mechanism is SliderType =>
+  mechanism === 'slider-crank' || mechanism === 'inverted-slider-crank';
+
+export const solveSlider = (type: SliderType, config: LinkageConfig, offset: number, assemblyMode: 1 | -1): SliderSolution =>
+  type === 'slider-crank' ? solveSliderCrank(config, offset, assemblyMode) : solveInvertedSliderCrank(config, offset, assemblyMode);
+
+const unwrap = (angle: number, previous: number) => angle - 360 * Math.round((angle - previous) / 360);
+
+const solveAt = (type: SliderType, config: LinkageConfig, offset: number, assemblyMode: 1 | -1, theta2: number) =>
+  solveSlider(type, { ...config, theta2 }, offset, assemblyMode);
+
+/**
+ * Slider position, velocity and acceleration over a full crank turn, split into runs
+ * wherever the mechanism cannot assemble.
+ */
+export const sliderOverCycle = (type: SliderType, config: LinkageConfig, offset: number, assemblyMode: 1 | -1): SliderPoint[][] => {
+  const runs: SliderPoint[][] = [];
+  let run: SliderPoint[] = [];
+  for (let input = 0; input <= 360; input += CYCLE_STEP) {
+    const sol = solveAt(type, config, offset, assemblyMode, input);
+    if (sol.isValid) {
+      const prev = run[run.length - 1];
+      run.push({
+        input,
+        s: sol.s,
+        v: sol.v,
+        a: sol.a,
+        theta4: prev ? unwrap(sol.theta4, prev.theta4) : sol.theta4,
+        Cx: sol.C.x,
+        Cy: sol.C.y,
+      });
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+};
+
+/**
+ * Crank angle near `theta2` (within one sample) where f is largest, by golden-section search.
+ */
+const refineMax = (f: (theta2: number) => number, theta2: number): number => {
+  const g = (Math.sqrt(5) - 1) / 2;
+  let lo = theta2 - CYCLE_STEP;
+  let hi = theta2 + CYCLE_STEP;
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    const a = hi - g * (hi - lo);
+    const b = lo + g * (hi - lo);
+    if (f(a) > f(b)) hi = b;
+    else lo = a;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Crank rotation (degrees, CCW) from the crank angle at one extreme to the other, and the
+ * ratio of the longer to the shorter of the two strokes.
+ */
+const timeRatio = (from: number, to: number) => {
+  const advance = (((to - from) % 360) + 360) % 360;
+  const slow = Math.max(advance, 360 - advance);
+  return slow / (360 - slow);
+};
+
+/**
+ * Slider travel over the cycle. The time ratio compares the crank rotation between the
+ * reciprocating output's extremes: the slider for a slider-crank, link 4's swing for an
+ * inverted slider-crank. It needs a fully rotating crank, and for the inverted slider-crank
+ * a link 4 that rocks rather than turns.
+ */
+export const sliderMotion = (type: SliderType, config: LinkageConfig, offset: number, assemblyMode: 1 | -1): SliderMotion | null => {
+  const runs = sliderOverCycle(type, config, offset, assemblyMode);
+  const points = runs.flat();
+  if (points.length === 0) return null;
+
+  const sAt = (theta2: number) => solveAt(type, config, offset, assemblyMode, theta2).s;
+  const extreme = (values: number[], f: (theta2: number) => number) => {
+    const i = values.indexOf(Math.max(...values));
+    const theta2 = refineMax(f, points[i].input);
+    return { theta2, value: f(theta2) };
+  };
+  const sValues = points.map((p) => p.s);
+  const sMax = extreme(sValues, sAt);
+  const sMin = extreme(sValues.map((s) => -s), (t) => -sAt(t));
+  const motion = { sMin: -sMin.value, sMax: sMax.value, stroke: sMax.value + sMin.value };
+
+  const fullTurn = runs.length === 1 && points.length === 360 / CYCLE_STEP + 1;
+  if (!fullTurn) return { ...motion, timeRatio: null };
+  if (type === 'slider-crank') return { ...motion, timeRatio: timeRatio(sMin.theta2, sMax.theta2) };
+
+  const swing = points[points.length - 1].theta4 - points[0].theta4;
+  if (Math.abs(swing) > 180) return { ...motion, timeRatio: null };
+  const t4At = (theta2: number) => unwrap(solveAt(type, config, offset, assemblyMode, theta2).theta4, points[0].theta4);
+  const t4Values = points.map((p) => p.theta4);
+  const t4Max = extreme(t4Values, t4At);
+  const t4Min = extreme(t4Values.map((t) => -t), (t) => -t4At(t));
+  return { ...motion, timeRatio: timeRatio(t4Min.theta2, t4Max.theta2) };
+};
+
+/**
+ * Crank and rod lengths of a slider-crank with the given stroke, time ratio and offset. At the
+ * extremes the crank and rod are collinear, with the slider at s_f (folded) and s_f + S
+ * (extended) on the line e off A*; the crank turns 180° ± β between them, where
+ * β = 180°·(Q − 1)/(Q + 1) is the angle those two positions subtend at A*. Solves for s_f,
+ * then r3 ± r2 = |(s, e)| at each. Zero offset only gives Q = 1, and leaves r3 free, so the
+ * current rod length is kept. Null when no slider-crank has these values.
+ */
+export const sliderCrankFromStroke = (
+  stroke: number,
+  ratio: number,
+  offset: number,
+  currentR3: number
+): { r2: number; r3: number } | null => {
+  const e = Math.abs(offset);
+  const beta = toRad((180 * (ratio - 1)) / (ratio + 1));
+  if (!(stroke > 0) || !(ratio >= 1)) return null;
+  if (e < 1e-9) {
+    if (Math.abs(ratio - 1) > 1e-3 || currentR3 <= stroke / 2) return null;
+    return { r2: stroke / 2, r3: currentR3 };
+  }
+
+  const subtended = (sFold: number) => Math.atan2(e, sFold) - Math.atan2(e, sFold + stroke) - beta;
+  // The angle falls from atan(S/e) at s_f = 0 towards 0 as s_f grows
+  if (beta <= 0 || subtended(0) < 0) return null;
+  let lo = 0;
+  let hi = stroke + e;
+  while (subtended(hi) > 0) hi *= 2;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (subtended(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  const sum = Math.hypot(lo + stroke, e);
+  const difference = Math.hypot(lo, e);
+  return { r2: (sum - difference) / 2, r3: (sum + difference) / 2 };
+};
@@ -0,0 +1,85 @@
+import { LinkageConfig, MechanismPose, Point, StaticForces, StaticLoad, StaticsPoint, TrajectorySegment } from '../types';
+import { poseFromTrajectoryPoint } from './inversion';
+import { toRad } from './math';
+
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const magnitude = (p: Point) => Math.hypot(p.x, p.y);
+
+/**
+ * The external force at C as a vector.
+ */
+export const loadVector = ({ force, direction }: StaticLoad): Point => ({
+  x: force * Math.cos(toRad(direction)),
+  y: force * Math.sin(toRad(direction)),
+});
+
+/**
+ * Static equilibrium of the massless linkage in one pose, with the crank torque as the unknown
+ * input. Moments on link 3 about A and on link 4 about B* give the pin force at B; force
+ * balance then carries it back through A to A*. Returns null at a toggle position, where the
+ * coupler and link 4 are collinear and no finite torque holds the load.
+ */
+export const solveStatics = (pose: MechanismPose, load: StaticLoad): StaticForces | null => {
+  const { A_star, B_star, A, B, C } = pose;
+  const F = loadVector(load);
+  const u = sub(B, A);
+  const w = sub(B, B_star);
+
+  // u × F34 = (C − A) × F  and  w × F34 = −T4
+  const det = cross(u, w);
+  const scale = magnitude(u) * magnitude(w);
+  if (!(Math.abs(det) > 1e-9 * scale)) return null;
+  const m3 = cross(sub(C, A), F);
+  const m4 = -load.torque4;
+  const F34 = {
+    x: (m3 * w.x - m4 * u.x) / det,
+    y: (m3 * w.y - m4 * u.y) / det,
+  };
+  const F23 = sub(F34, F);
+  const torque2 = cross(sub(A, A_star), F23);
+  const r2 = magnitude(sub(A, A_star));
+
+  return {
+    torque2,
+    F12: F23,
+    F23,
+    F34,
+    F14: { x: -F34.x, y: -F34.y },
+    torqueRatio: load.torque4 !== 0 && torque2 !== 0 ? Math.abs(load.torque4 / torque2) : null,
+    forceRatio: load.force !== 0 && torque2 !== 0 ? Math.abs(load.force / (torque2 / r2)) : null,
+  };
+};
+
+/**
+ * Crank torque and pin force magnitudes at every trajectory sample. Each segment is split
+ * wherever the statics are singular, so charts leave a gap at the toggle positions.
+ */
+export const staticsOverCycle = (
+  config: LinkageConfig,
+  segments: TrajectorySegment[],
+  load: StaticLoad
+): StaticsPoint[][] => {
+  const runs: StaticsPoint[][] = [];
+  segments.forEach(({ points }) => {
+    let run: StaticsPoint[] = [];
+    points.forEach((pt) => {
+      const forces = solveStatics(poseFromTrajectoryPoint(config, pt), load);
+      if (forces) {
+        run.push({
+          input: pt.input,
+          torque2: forces.torque2,
+          reactionA_star: magnitude(forces.F12),
+          reactionA: magnitude(forces.F23),
+          reactionB: magnitude(forces.F34),
+          reactionB_star: magnitude(forces.F14),
+        });
+      } else if (run.length > 0) {
+        runs.push(run);
+        run = [];
+      }
+    });
+    if (run.length > 0) runs.push(run);
+  });
+  return runs;
+};
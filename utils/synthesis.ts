@@ -0,0 +1,343 @@
+import {
+  BodyPosition,
+  BurmesterDyad,
+  LinkageConfig,
+  Point,
+  SynthesisPickTarget,
+  SynthesisState,
+  SynthesizedPivots,
+} from '../types';
+import { toDeg, toRad } from './math';
+
+// Complex arithmetic on points (x + iy)
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const mul = (a: Point, b: Point): Point => ({ x: a.x * b.x - a.y * b.y, y: a.x * b.y + a.y * b.x });
+const div = (a: Point, b: Point): Point => {
+  const d = b.x ** 2 + b.y ** 2;
+  return { x: (a.x * b.x + a.y * b.y) / d, y: (a.y * b.x - a.x * b.y) / d };
+};
+const cexp = (rad: number): Point => ({ x: Math.cos(rad), y: Math.sin(rad) });
+const abs = (a: Point) => Math.hypot(a.x, a.y);
+const isFinitePoint = (p: Point) => Number.isFinite(p.x) && Number.isFinite(p.y);
+
+/**
+ * Center of the circle through three points, or null when they are (nearly) collinear.
+ */
+export const circumcenter = (p1: Point, p2: Point, p3: Point): Point | null => {
+  const d = 2 * (p1.x * (p2.y - p3.y) + p2.x * (p3.y - p1.y) + p3.x * (p1.y - p2.y));
+  const scale = Math.max(abs(sub(p2, p1)), abs(sub(p3, p1)), 1e-12);
+  if (Math.abs(d) < 1e-9 * scale ** 2) return null;
+  const n1 = p1.x ** 2 + p1.y ** 2;
+  const n2 = p2.x ** 2 + p2.y ** 2;
+  const n3 = p3.x ** 2 + p3.y ** 2;
+  return {
+    x: (n1 * (p2.y - p3.y) + n2 * (p3.y - p1.y) + n3 * (p1.y - p2.y)) / d,
+    y: (n1 * (p3.x - p2.x) + n2 * (p1.x - p3.x) + n3 * (p2.x - p1.x)) / d,
+  };
+};
+
+/**
+ * Where a point attached to the coupler body, given at its location in position 1,
+ * sits when the body is in position j.
+ */
+export const bodyPointAt = (positions: BodyPosition[], point1: Point, j: number): Point => {
+  const p1 = positions[0];
+  const pj = positions[j];
+  const rel = mul(sub(point1, p1), cexp(toRad(pj.angle - p1.angle)));
+  return add(pj, rel);
+};
+
+/**
+ * Inverse of `bodyPointAt`: the location in position 1 of the body point that sits at `point`
+ * in position j.
+ */
+const bodyPointFrom = (positions: BodyPosition[], point: Point, j: number): Point => {
+  const p1 = positions[0];
+  const pj = positions[j];
+  const rel = mul(sub(point, pj), cexp(toRad(p1.angle - pj.angle)));
+  return add(p1, rel);
+};
+
+/**
+ * Three positions: the fixed pivot (center point) serving a chosen moving pivot (circle point),
+ * i.e. the center of the circle through the moving pivot's three positions.
+ */
+export const centerPointFor = (positions: BodyPosition[], movingPivot: Point): Point | null =>
+  circumcenter(movingPivot, bodyPointAt(positions, movingPivot, 1), bodyPointAt(positions, movingPivot, 2));
+
+/**
+ * Three positions: the moving pivot (in position 1) that keeps a constant distance from a
+ * chosen fixed pivot. By kinematic inversion this is the circumcenter of the fixed pivot
+ * and its images seen from the body in positions 2 and 3.
+ */
+export const circlePointFor = (positions: BodyPosition[], fixedPivot: Point): Point | null =>
+  circumcenter(fixedPivot, bodyPointFrom(positions, fixedPivot, 1), bodyPointFrom(positions, fixedPivot, 2));
+
+interface Compatibility {
+  alpha: Point[]; // e^{iα_j} − 1 for j = 2, 3, 4
+  delta: Point[]; // δ_j = P_j − P_1
+  D: Point[]; // Δ1 … Δ4 of the compatibility linkage
+}
+
+/**
+ * Sets up the standard-form dyad equations W·(e^{iβj} − 1) + Z·(e^{iαj} − 1) = δj for four
+ * positions. They only have a solution when Δ1 + Δ2·e^{iβ2} + Δ3·e^{iβ3} + Δ4·e^{iβ4} = 0,
+ * which is itself a four-bar loop (the compatibility linkage) with β2 as its input.
+ */
+const compatibility = (positions: BodyPosition[]): Compatibility => {
+  const p1 = positions[0];
+  const alpha = positions.slice(1).map((p) => sub(cexp(toRad(p.angle - p1.angle)), { x: 1, y: 0 }));
+  const delta = positions.slice(1).map((p) => sub(p, p1));
+  const det = (j: number, k: number) => sub(mul(alpha[j], delta[k]), mul(alpha[k], delta[j]));
+  const D2 = det(1, 2);
+  const D3 = { x: -det(0, 2).x, y: -det(0, 2).y };
+  const D4 = det(0, 1);
+  const D1 = { x: -(D2.x + D3.x + D4.x), y: -(D2.y + D3.y + D4.y) };
+  return { alpha, delta, D: [D1, D2, D3, D4] };
+};
+
+/**
+ * Solves the compatibility linkage for β3 and β4 (radians) at a given β2, on one branch.
+ */
+const compatibilityAngles = ({ D }: Compatibility, beta2: number, branch: 1 | -1): [number, number] | null => {
+  // Δ3·e^{iβ3} + Δ4·e^{iβ4} = −(Δ1 + Δ2·e^{iβ2}) =: R
+  const R = { x: -(D[0].x + mul(D[1], cexp(beta2)).x), y: -(D[0].y + mul(D[1], cexp(beta2)).y) };
+  const a = abs(D[2]);
+  const b = abs(D[3]);
+  const r = abs(R);
+  if (r === 0 || a === 0 || b === 0) return null;
+  const cosGamma = (a ** 2 + r ** 2 - b ** 2) / (2 * a * r);
+  if (cosGamma < -1 || cosGamma > 1) return null;
+  // Direction of the Δ3 vector, then the Δ4 vector closes the loop
+  const phi3 = Math.atan2(R.y, R.x) + branch * Math.acos(cosGamma);
+  const v3 = { x: a * Math.cos(phi3), y: a * Math.sin(phi3) };
+  const v4 = sub(R, v3);
+  const beta3 = phi3 - Math.atan2(D[2].y, D[2].x);
+  const beta4 = Math.atan2(v4.y, v4.x) - Math.atan2(D[3].y, D[3].x);
+  return [beta3, beta4];
+};
+
+/**
+ * The dyad (circle point and center point, both in position 1) solving the standard-form
+ * equations for the given rotations β2, β3 of its ground-pivoted link.
+ */
+const dyadFromBetas = ({ alpha, delta }: Compatibility, positions: BodyPosition[], beta2: number, beta3: number) => {
+  const e2 = sub(cexp(beta2), { x: 1, y: 0 });
+  const e3 = sub(cexp(beta3), { x: 1, y: 0 });
+  const den = sub(mul(e2, alpha[1]), mul(e3, alpha[0]));
+  if (abs(den) < 1e-12) return null;
+  const W = div(sub(mul(delta[0], alpha[1]), mul(delta[1], alpha[0])), den);
+  const Z = div(sub(mul(e2, delta[1]), mul(e3, delta[0])), den);
+  const circle = sub(positions[0], Z);
+  const center = sub(circle, W);
+  return isFinitePoint(circle) && isFinitePoint(center) ? { circle, center } : null;
+};
+
+/**
+ * Four positions: the dyad picked out by a point on the Burmester curves.
+ */
+export const burmesterDyad = (positions: BodyPosition[], { beta2, branch }: BurmesterDyad) => {
+  const comp = compatibility(positions);
+  const betas = compatibilityAngles(comp, toRad(beta2), branch);
+  return betas ? dyadFromBetas(comp, positions, toRad(beta2), betas[0]) : null;
+};
+
+export interface BurmesterCurves {
+  circlePoints: Point[][]; // Moving pivot loci, in position 1
+  centerPoints: Point[][]; // Matching fixed pivot loci
+  dyads: BurmesterDyad[][]; // Curve parameter of each sample
+}
+
+/**
+ * Circle-point and center-point curves for four positions, traced by sweeping β2 through the
+ * compatibility linkage on both branches. Each curve is split wherever the compatibility
+ * linkage cannot assemble or the dyad runs off to infinity.
+ */
+export const burmesterCurves = (positions: BodyPosition[], step = 0.5, extent = 50): BurmesterCurves => {
+  const comp = compatibility(positions);
+  const circlePoints: Point[][] = [];
+  const centerPoints: Point[][] = [];
+  const dyads: BurmesterDyad[][] = [];
+
+  for (const branch of [1, -1] as const) {
+    let circleRun: Point[] = [];
+    let centerRun: Point[] = [];
+    let dyadRun: BurmesterDyad[] = [];
+    const flush = () => {
+      if (circleRun.length > 1) {
+        circlePoints.push(circleRun);
+        centerPoints.push(centerRun);
+        dyads.push(dyadRun);
+      }
+      circleRun = [];
+      centerRun = [];
+      dyadRun = [];
+    };
+
+    // β2 = 0 is the trivial solution (no rotation), so the sweep stops just short of it
+    for (let b = step; b < 360; b += step) {
+      const betas = compatibilityAngles(comp, toRad(b), branch);
+      const dyad = betas && dyadFromBetas(comp, positions, toRad(b), betas[0]);
+      const inView = dyad && abs(dyad.circle) < extent && abs(dyad.center) < extent;
+      const last = circleRun[circleRun.length - 1];
+      if (!dyad || !inView || (last && abs(sub(dyad.circle, last)) > extent / 10)) {
+        flush();
+        if (!dyad || !inView) continue;
+      }
+      circleRun.push(dyad.circle);
+      centerRun.push(dyad.center);
+      dyadRun.push({ beta2: b, branch });
+    }
+    flush();
+  }
+
+  return { circlePoints, centerPoints, dyads };
+};
+
+/**
+ * Fixed and moving pivots (in position 1) of the synthesized linkage, or null when a dyad
+ * cannot be found for the current choices.
+ */
+export const synthesizePivots = (state: SynthesisState): SynthesizedPivots | null => {
+  const { positions } = state;
+  if (positions.length === 4) {
+    const a = burmesterDyad(positions, state.dyadA);
+    const b = burmesterDyad(positions, state.dyadB);
+    return a && b ? { A_star: a.center, A: a.circle, B_star: b.center, B: b.circle } : null;
+  }
+
+  if (state.method === 'fixed-pivots') {
+    const A = circlePointFor(positions, state.pivotA);
+    const B = circlePointFor(positions, state.pivotB);
+    return A && B ? { A_star: state.pivotA, A, B_star: state.pivotB, B } : null;
+  }
+  const A_star = centerPointFor(positions, state.pivotA);
+  const B_star = centerPointFor(positions, state.pivotB);
+  return A_star && B_star ? { A_star, A: state.pivotA, B_star, B: state.pivotB } : null;
+};
+
+// B to the right of A → B* is assembly mode 1 (see intersectCircles)
+const branchOf = (A: Point, B: Point, B_star: Point): 1 | -1 => {
+  const cross = (B_star.x - A.x) * (B.y - A.y) - (B_star.y - A.y) * (B.x - A.x);
+  return cross < 0 ? 1 : -1;
+};
+
+export interface SynthesizedLinkage {
+  config: LinkageConfig;
+  assemblyMode: 1 | -1;
+  branchDefect: boolean; // Not every position is reachable on the same assembly branch
+}
+
+/**
+ * Converts synthesized pivots into a crank-driven linkage in position 1, grounded where the
+ * pivots were placed; the precision point of the body becomes coupler point C.
+ */
+export const toLinkage = (
+  pivots: SynthesizedPivots,
+  positions: BodyPosition[],
+  base: LinkageConfig
+): SynthesizedLinkage | null => {
+  const { A_star, B_star, A, B } = pivots;
+  const P = positions[0];
+  const r1 = abs(sub(B_star, A_star));
+  const r2 = abs(sub(A, A_star));
+  const r3 = abs(sub(B, A));
+  const r4 = abs(sub(B, B_star));
+  if ([r1, r2, r3, r4].some((r) => !(r > 1e-9))) return null;
+
+  const theta1 = toDeg(Math.atan2(B_star.y - A_star.y, B_star.x - A_star.x));
+  const theta2 = toDeg(Math.atan2(A.y - A_star.y, A.x - A_star.x));
+  const theta3 = Math.atan2(B.y - A.y, B.x - A.x);
+  const beta = toDeg(Math.atan2(P.y - A.y, P.x - A.x) - theta3);
+  const wrap = (deg: number) => ((deg % 360) + 540) % 360 - 180;
+
+  const modes = positions.map((_, j) =>
+    branchOf(bodyPointAt(positions, A, j), bodyPointAt(positions, B, j), B_star)
+  );
+
+  return {
+    config: {
+      ...base,
+      r1,
+      groundX: A_star.x,
+      groundY: A_star.y,
+      theta1,
+      r2,
+      r3,
+      r4,
+      r6: abs(sub(P, A)),
+      beta: wrap(beta),
+      driver: 'crank',
+      theta2: (wrap(theta2) + 360) % 360,
+    },
+    assemblyMode: modes[0],
+    branchDefect: modes.some((m) => m !== modes[0]),
+  };
+};
+
+/**
+ * The curve sample nearest to a point, on either the circle-point or the center-point curve.
+ */
+const nearestDyad = (curves: BurmesterCurves, point: Point): BurmesterDyad | null => {
+  let best: BurmesterDyad | null = null;
+  let bestDist = Infinity;
+  curves.dyads.forEach((run, i) => {
+    run.forEach((dyad, k) => {
+      const dist = Math.min(abs(sub(curves.circlePoints[i][k], point)), abs(sub(curves.centerPoints[i][k], point)));
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = dyad;
+      }
+    });
+  });
+  return best;
+};
+
+/**
+ * Places the picked item at a clicked point. With four positions a pivot snaps to the nearest
+ * point of the Burmester curves.
+ */
+export const applySynthesisPick = (state: SynthesisState, target: SynthesisPickTarget, point: Point): SynthesisState => {
+  if (target.kind === 'target') return state;
+  if (target.kind === 'position') {
+    return {
+      ...state,
+      positions: state.positions.map((p, i) => (i === target.index ? { ...p, x: point.x, y: point.y } : p)),
+    };
+  }
+  if (state.positions.length === 4) {
+    const dyad = nearestDyad(burmesterCurves(state.positions), point);
+    if (!dyad) return state;
+    return target.dyad === 'A' ? { ...state, dyadA: dyad } : { ...state, dyadB: dyad };
+  }
+  return target.dyad === 'A' ? { ...state, pivotA: point } : { ...state, pivotB: point };
+};
+
+/**
+ * Adds a fourth position (continuing the motion from position 3) or drops it. Dyads are
+ * re-seeded from the new Burmester curves: two samples near the positions whose fixed
+ * pivots lie well apart.
+ */
+export const withPositionCount = (state: SynthesisState, count: 3 | 4): SynthesisState => {
+  if (count === 3) return { ...state, positions: state.positions.slice(0, 3) };
+  if (state.positions.length === 4) return state;
+
+  const [p1, p2, p3] = state.positions;
+  const positions = [
+    ...state.positions,
+    { x: 2 * p3.x - p2.x, y: 2 * p3.y - p2.y, angle: 2 * p3.angle - p2.angle },
+  ];
+  const span = Math.max(...positions.map((p) => abs(sub(p, p1))));
+  const curves = burmesterCurves(positions);
+  const candidates = curves.dyads.flatMap((run, i) =>
+    run
+      .map((dyad, k) => ({ dyad, circle: curves.circlePoints[i][k], center: curves.centerPoints[i][k] }))
+      .filter(({ circle, center }) => abs(sub(circle, p1)) < span && abs(sub(center, p1)) < span)
+  );
+  if (candidates.length === 0) return { ...state, positions };
+
+  const a = candidates[Math.floor(candidates.length / 3)];
+  const b = candidates.reduce((best, c) => (abs(sub(c.center, a.center)) > abs(sub(best.center, a.center)) ? c : best));
+  return { ...state, positions, dyadA: a.dyad, dyadB: b.dyad };
+};
@@ -0,0 +1,191 @@
+import {
+  LinkageConfig,
+  LinkageSolution,
+  Point,
+  Sensitivity,
+  ToleranceBandPoint,
+  ToleranceParam,
+  ToleranceSpec,
+  ToleranceStudy,
+  TrajectorySegment,
+} from '../types';
+import { solveLinkage, toDeg, toRad, withInputAngle } from './math';
+
+export const TOLERANCE_PARAMS: ToleranceParam[] = ['r1', 'r2', 'r3', 'r4', 'r6', 'beta'];
+
+export const DEFAULT_TOLERANCES: ToleranceSpec = {
+  r1: 0.01,
+  r2: 0.01,
+  r3: 0.01,
+  r4: 0.01,
+  r6: 0.01,
+  beta: 0.5,
+  clearance: 0.005,
+  trials: 200,
+};
+
+// Fixed seed, so the same tolerances always give the same envelope
+const SEED = 0x2f6b1d;
+
+/**
+ * mulberry32: a small seeded generator of uniform numbers in [0, 1).
+ */
+const seededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const unwrap = (angle: number, previous: number) => angle - 360 * Math.round((angle - previous) / 360);
+
+/**
+ * One linkage drawn from the tolerances: each length and β uniform within its ± band. Joint
+ * clearance uses the effective link length model: each of a link's two pins moves its
+ * effective length by up to ± the clearance, held for the whole cycle.
+ */
+const perturb = (config: LinkageConfig, spec: ToleranceSpec, random: () => number): LinkageConfig => {
+  const spread = (band: number) => (2 * random() - 1) * band;
+  const pins = () => spread(spec.clearance) + spread(spec.clearance);
+  return {
+    ...config,
+    r1: config.r1 + spread(spec.r1) + pins(),
+    r2: config.r2 + spread(spec.r2) + pins(),
+    r3: config.r3 + spread(spec.r3) + pins(),
+    r4: config.r4 + spread(spec.r4) + pins(),
+    r6: config.r6 + spread(spec.r6),
+    beta: config.beta + spread(spec.beta),
+  };
+};
+
+/**
+ * Unit normal to the path at sample i, from the chord through its neighbors.
+ */
+const pathNormal = (points: Point[], i: number, closed: boolean): Point => {
+  const n = points.length;
+  const prev = points[i > 0 ? i - 1 : closed ? n - 1 : 0];
+  const next = points[i < n - 1 ? i + 1 : closed ? 0 : n - 1];
+  const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+  return length > 0 ? { x: -(next.y - prev.y) / length, y: (next.x - prev.x) / length } : { x: 0, y: 0 };
+};
+
+/**
+ * Monte Carlo study of the coupler path and θ4 under the tolerances: each trial linkage is
+ * solved at the nominal cycle's driver angles and branches. The envelope bounds each trial's
+ * offset across the nominal path, which is how far the path itself moves; the offset along
+ * it only changes the timing. Trials that cannot assemble at a sample are left out there.
+ * Yields the number of trials done after each one, so the caller can run it in slices, and
+ * returns the study.
+ */
+export function* toleranceStudy(
+  config: LinkageConfig,
+  segments: TrajectorySegment[],
+  spec: ToleranceSpec
+): Generator<number, ToleranceStudy> {
+  const random = seededRandom(SEED);
+  const paths = segments.map(({ points, closed }) => {
+    const nominal = points.map((pt) => ({ x: pt.Cx, y: pt.Cy }));
+    return {
+      points,
+      closed,
+      nominal,
+      normals: nominal.map((_, i) => pathNormal(nominal, i, closed)),
+      low: nominal.map(() => 0),
+      high: nominal.map(() => 0),
+      theta4Min: points.map((pt) => pt.theta4),
+      theta4Max: points.map((pt) => pt.theta4),
+    };
+  });
+
+  let maxDeviation = 0;
+  let failures = 0;
+  for (let trial = 0; trial < spec.trials; trial++) {
+    const perturbed = perturb(config, spec, random);
+    let failed = false;
+    paths.forEach((path) => {
+      path.points.forEach((pt, i) => {
+        const sol = solveLinkage(withInputAngle(perturbed, pt.input), pt.branch);
+        if (!sol.isValid) {
+          failed = true;
+          return;
+        }
+        const d = { x: sol.Cx - pt.Cx, y: sol.Cy - pt.Cy };
+        const across = d.x * path.normals[i].x + d.y * path.normals[i].y;
+        path.low[i] = Math.min(path.low[i], across);
+        path.high[i] = Math.max(path.high[i], across);
+        maxDeviation = Math.max(maxDeviation, Math.hypot(d.x, d.y));
+        const theta4 = unwrap(sol.theta4, pt.theta4);
+        path.theta4Min[i] = Math.min(path.theta4Min[i], theta4);
+        path.theta4Max[i] = Math.max(path.theta4Max[i], theta4);
+      });
+    });
+    if (failed) failures++;
+    yield trial + 1;
+  }
+
+  const offset = (p: Point, n: Point, by: number) => ({ x: p.x + by * n.x, y: p.y + by * n.y });
+  const band: ToleranceBandPoint[][] = paths.map((path) =>
+    path.points.map((pt, i) => ({ input: pt.input, theta4: pt.theta4, theta4Min: path.theta4Min[i], theta4Max: path.theta4Max[i] }))
+  );
+  return {
+    envelope: paths.map((path) => ({
+      inner: path.nominal.map((p, i) => offset(p, path.normals[i], path.low[i])),
+      outer: path.nominal.map((p, i) => offset(p, path.normals[i], path.high[i])),
+      closed: path.closed,
+    })),
+    band,
+    maxDeviation,
+    maxTheta4Error: Math.max(0, ...band.flat().map((p) => Math.max(p.theta4Max - p.theta4, p.theta4 - p.theta4Min))),
+    failures,
+  };
+}
+
+/**
+ * First-order change of the coupler point and θ4 per unit change of each toleranced
+ * parameter, with the crank held at the current θ2. Differentiating the loop
+ * r2·e^{iθ2} + r3·e^{iθ3} = r1·e^{iθ1} + r4·e^{iθ4} gives
+ * r3·ie^{iθ3}·∂θ3 − r4·ie^{iθ4}·∂θ4 = −(∂r2·e^{iθ2} + ∂r3·e^{iθ3} − ∂r1·e^{iθ1} − ∂r4·e^{iθ4}),
+ * and C = A + r6·e^{i(θ3 + β)} follows. Null when the linkage cannot assemble; the
+ * coefficients blow up at toggle positions, where θ3 and θ4 are parallel.
+ */
+export const sensitivities = (config: LinkageConfig, solution: LinkageSolution): Sensitivity[] | null => {
+  if (!solution.isValid) return null;
+  const { r3, r4, r6 } = config;
+  const unit = (deg: number) => ({ x: Math.cos(toRad(deg)), y: Math.sin(toRad(deg)) });
+  const e1 = unit(config.theta1);
+  const e2 = unit(solution.theta2);
+  const e3 = unit(solution.theta3);
+  const e4 = unit(solution.theta4);
+  const eC = unit(solution.theta3 + config.beta);
+
+  // [−r3·sin θ3   r4·sin θ4] [∂θ3]   [−gx]
+  // [ r3·cos θ3  −r4·cos θ4] [∂θ4] = [−gy]
+  const m11 = -r3 * e3.y;
+  const m12 = r4 * e4.y;
+  const m21 = r3 * e3.x;
+  const m22 = -r4 * e4.x;
+  const det = m11 * m22 - m12 * m21;
+
+  return TOLERANCE_PARAMS.map((param) => {
+    const d = (key: ToleranceParam) => (key === param ? 1 : 0);
+    const g = {
+      x: d('r2') * e2.x + d('r3') * e3.x - d('r1') * e1.x - d('r4') * e4.x,
+      y: d('r2') * e2.y + d('r3') * e3.y - d('r1') * e1.y - d('r4') * e4.y,
+    };
+    const dTheta3 = (-g.x * m22 + m12 * g.y) / det;
+    const dTheta4 = (-m11 * g.y + m21 * g.x) / det;
+    // Turning of AC: the coupler's rotation plus β's own, per degree
+    const turn = dTheta3 + d('beta') * toRad(1);
+    return {
+      param,
+      dC: {
+        x: d('r2') * e2.x + d('r6') * eC.x - r6 * eC.y * turn,
+        y: d('r2') * e2.y + d('r6') * eC.y + r6 * eC.x * turn,
+      },
+      dTheta4: toDeg(dTheta4),
+    };
+  });
+};
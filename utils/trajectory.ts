@@ -0,0 +1,138 @@
+import { AngleRange, LinkageConfig, LinkageSolution, TrajectoryPoint, TrajectorySegment } from '../types';
+import { classifyLinkage } from './classification';
+import { solveLinkage, withInputAngle } from './math';
+
+export interface TrajectoryOptions {
+  step?: number; // Base driver angle sample spacing (degrees)
+  followBranches?: boolean; // Continue through toggle positions onto the other assembly branch
+}
+
+// Offsets (degrees) from a toggle position at which extra samples are placed.
+// The toggle itself is skipped: ω3 and ω4 are singular there.
+const TOGGLE_REFINEMENT = [1e-3, 1e-2, 0.05, 0.2, 0.5, 1];
+
+/**
+ * Shifts an angle by whole turns so it lies within 180° of the previous one.
+ */
+const unwrap = (angle: number, previous: number) => angle - 360 * Math.round((angle - previous) / 360);
+
+/**
+ * Driver angle samples covering one allowed input range: a uniform grid aligned to multiples
+ * of `step`, plus geometrically refined samples near each bounding toggle position.
+ */
+const sampleRange = ({ start, end }: AngleRange, step: number): number[] => {
+  const isFull = end - start >= 360 - 1e-9;
+  const samples: number[] = [];
+
+  for (let k = Math.ceil(start / step); k * step <= end; k++) samples.push(k * step);
+  if (!isFull) {
+    for (const offset of TOGGLE_REFINEMENT) samples.push(start + offset, end - offset);
+  }
+
+  return samples
+    .filter((t) => (isFull ? t >= start && t <= end : t > start && t < end))
+    .sort((a, b) => a - b)
+    .filter((t, i, arr) => i === 0 || t - arr[i - 1] > 1e-9);
+};
+
+const toTrajectoryPoint = (sol: LinkageSolution, input: number, branch: 1 | -1): TrajectoryPoint => ({
+  input,
+  theta2: sol.theta2,
+  theta3: sol.theta3,
+  theta4: sol.theta4,
+  Cx: sol.Cx,
+  Cy: sol.Cy,
+  mu: sol.mu,
+  omega2: sol.omega2,
+  omega3: sol.omega3,
+  omega4: sol.omega4,
+  alpha2: sol.alpha2,
+  alpha3: sol.alpha3,
+  alpha4: sol.alpha4,
+  speedC: Math.hypot(sol.vC.x, sol.vC.y),
+  accelC: Math.hypot(sol.aC.x, sol.aC.y),
+  branch,
+});
+
+/**
+ * Solves a run of driver angles on one branch, appending to `points` with the
+ * link angles unwrapped against the last point already there.
+ */
+const march = (config: LinkageConfig, thetas: number[], branch: 1 | -1, points: TrajectoryPoint[]) => {
+  for (const t of thetas) {
+    // Samples of a range that wraps through 0° run past 360°
+    const input = t > 360 ? t - 360 : t;
+    const sol = solveLinkage(withInputAngle(config, input), branch);
+    if (!sol.isValid) continue;
+
+    const pt = toTrajectoryPoint(sol, input, branch);
+    const prev = points[points.length - 1];
+    if (prev) {
+      pt.theta2 = unwrap(pt.theta2, prev.theta2);
+      pt.theta3 = unwrap(pt.theta3, prev.theta3);
+      pt.theta4 = unwrap(pt.theta4, prev.theta4);
+    }
+    points.push(pt);
+  }
+};
+
+/**
+ * Pre-computes the full cycle for plotting, sweeping the driver link, one segment
+ * per allowed input range.
+ *
+ * Within a range the assembly branch cannot change (the two branches only meet at
+ * toggle positions), so each range is marched on a single branch. With
+ * `followBranches`, a range bounded by toggles is traced forward on `assemblyMode`
+ * and back on the opposite branch, which closes the coupler curve the way the real
+ * mechanism would when rocked between its dead points.
+ */
+export const computeTrajectory = (
+  config: LinkageConfig,
+  assemblyMode: -1 | 1,
+  options: TrajectoryOptions = {}
+): TrajectorySegment[] => {
+  const { step = 2, followBranches = false } = options;
+  const { inputRanges } = classifyLinkage(config, assemblyMode);
+
+  return inputRanges
+    .map((range) => {
+      const thetas = sampleRange(range, step);
+      const isFull = range.end - range.start >= 360 - 1e-9;
+      const points: TrajectoryPoint[] = [];
+
+      march(config, thetas, assemblyMode, points);
+      if (followBranches && !isFull) {
+        march(config, [...thetas].reverse(), assemblyMode === 1 ? -1 : 1, points);
+      }
+
+      return { points, closed: isFull || followBranches };
+    })
+    .filter((segment) => segment.points.length > 0);
+};
+
+/**
+ * All trajectory points in order, for consumers that do not care about segment breaks.
+ */
+export const flattenTrajectory = (segments: TrajectorySegment[]): TrajectoryPoint[] =>
+  segments.flatMap((segment) => segment.points);
+
+/**
+ * `count` crank angles spread evenly over the crank's allowed ranges, for animation frames.
+ * A full turn is split into equal steps; partial ranges are sampled at interval midpoints so
+ * no frame lands exactly on a toggle position.
+ */
+export const frameAngles = (config: LinkageConfig, count: number): number[] => {
+  const { inputRanges } = classifyLinkage({ ...config, driver: 'crank' });
+  const spans = inputRanges.map(({ start, end }) => end - start);
+  const total = spans.reduce((s, w) => s + w, 0);
+  if (count < 1 || !(total > 0)) return [];
+  const isFull = inputRanges.length === 1 && total >= 360 - 1e-9;
+
+  return Array.from({ length: count }, (_, i) => {
+    let along = (total * (isFull ? i : i + 0.5)) / count;
+    let k = 0;
+    while (k < spans.length - 1 && along > spans[k]) along -= spans[k++];
+    const theta = inputRanges[k].start + along;
+    return theta >= 360 ? theta - 360 : theta;
+  });
+};
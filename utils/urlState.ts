@@ -0,0 +1,221 @@
+import { DesignSnapshot, DriverLink, LinkageConfig } from '../types';
+import { defaultMassProperties } from './dynamics';
+import { toDeg } from './math';
+
+export interface UrlParamError {
+  param: string;
+  message: string;
+}
+
+export interface UrlState {
+  snapshot: DesignSnapshot; // isPlaying comes from `play`, which only share links set
+  embed: boolean;
+  errors: UrlParamError[];
+}
+
+type NumberParam =
+  | 'r1'
+  | 'r2'
+  | 'r3'
+  | 'r4'
+  | 'r6'
+  | 'beta'
+  | 'ax'
+  | 'ay'
+  | 'theta1'
+  | 'theta2'
+  | 'theta3'
+  | 'theta4'
+  | 'omega'
+  | 'alpha'
+  | 'crankSpeed'
+  | 'speed';
+
+// Animation speed multipliers offered by the controls
+export const ANIMATION_SPEED = { min: 0.1, max: 5 };
+
+// Accepted range and default of each numeric parameter; values outside the range are clamped
+const NUMBER_PARAMS: Record<NumberParam, { min: number; max: number; fallback: number }> = {
+  r1: { min: 0.01, max: 100, fallback: 1 },
+  r2: { min: 0.01, max: 100, fallback: 2 },
+  r3: { min: 0.01, max: 100, fallback: 3.5 },
+  r4: { min: 0.01, max: 100, fallback: 4 },
+  r6: { min: 0, max: 100, fallback: Math.sqrt(5) },
+  beta: { min: -360, max: 360, fallback: toDeg(Math.atan(0.5)) },
+  ax: { min: -1000, max: 1000, fallback: 0 },
+  ay: { min: -1000, max: 1000, fallback: 0 },
+  theta1: { min: -360, max: 360, fallback: 0 },
+  theta2: { min: -360, max: 360, fallback: 0 },
+  theta3: { min: -360, max: 360, fallback: 0 },
+  theta4: { min: -360, max: 360, fallback: 90 },
+  omega: { min: -100, max: 100, fallback: 1 },
+  alpha: { min: -1000, max: 1000, fallback: 0 },
+  crankSpeed: { min: 0.01, max: 1000, fallback: 10 },
+  speed: { ...ANIMATION_SPEED, fallback: 1 },
+};
+
+const DRIVERS: DriverLink[] = ['crank', 'coupler', 'rocker'];
+
+// Parameter holding the prescribed angle of each driver; the other two angles are solved
+const INPUT_PARAM: Record<DriverLink, 'theta2' | 'theta3' | 'theta4'> = { crank: 'theta2', coupler: 'theta3', rocker: 'theta4' };
+
+// View box zoom limits, as on the canvas
+export const VIEW_MIN = 1;
+export const VIEW_MAX = 50;
+
+// Decimals written for lengths and angles, and for the view box
+const VALUE_DECIMALS = 4;
+const VIEW_DECIMALS = 3;
+
+const format = (value: number, decimals = VALUE_DECIMALS) => String(Number(value.toFixed(decimals)));
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * App state from a query string. Missing parameters take their defaults; malformed ones take
+ * their defaults too and out-of-range ones are clamped, each with an error naming the problem.
+ */
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const errors: UrlParamError[] = [];
+
+  const number = (key: NumberParam): number => {
+    const { min, max, fallback } = NUMBER_PARAMS[key];
+    const raw = params.get(key);
+    if (raw === null) return fallback;
+    const value = raw.trim() === '' ? NaN : Number(raw);
+    if (!Number.isFinite(value)) {
+      errors.push({ param: key, message: `“${raw}” is not a number; using ${format(fallback)}.` });
+      return fallback;
+    }
+    if (value < min || value > max) {
+      const clamped = clamp(value, min, max);
+      errors.push({ param: key, message: `${raw} is outside ${min} to ${max}; clamped to ${clamped}.` });
+      return clamped;
+    }
+    return value;
+  };
+
+  const choice = <T extends string>(key: string, allowed: Record<string, T>, fallback: T): T => {
+    const raw = params.get(key);
+    if (raw === null) return fallback;
+    if (raw in allowed) return allowed[raw];
+    errors.push({ param: key, message: `“${raw}” is not one of ${Object.keys(allowed).join(', ')}; using ${fallback}.` });
+    return fallback;
+  };
+  const flag = (key: string) => choice(key, { true: 'true', false: 'false', '1': 'true', '0': 'false' }, 'false') === 'true';
+
+  const driver = choice('driver', Object.fromEntries(DRIVERS.map((d) => [d, d])) as Record<string, DriverLink>, 'crank');
+  const r2 = number('r2');
+  const r3 = number('r3');
+  const r4 = number('r4');
+
+  // Ground: A* at (ax, ay), with B* either at (bx, by) or at r1 along θ1
+  const groundX = number('ax');
+  const groundY = number('ay');
+  let r1 = number('r1');
+  let theta1 = number('theta1');
+  if (params.has('bx') || params.has('by')) {
+    const bx = Number(params.get('bx') ?? NaN);
+    const by = Number(params.get('by') ?? NaN);
+    const length = Math.hypot(bx - groundX, by - groundY);
+    if (!Number.isFinite(length)) {
+      errors.push({ param: 'bx, by', message: 'B* needs numeric bx and by together; using r1 and theta1.' });
+    } else if (length < NUMBER_PARAMS.r1.min || length > NUMBER_PARAMS.r1.max) {
+      errors.push({ param: 'bx, by', message: `B* is ${format(length)} from A*, outside the allowed ground length; using r1 and theta1.` });
+    } else {
+      r1 = length;
+      theta1 = toDeg(Math.atan2(by - groundY, bx - groundX));
+    }
+  }
+
+  const config: LinkageConfig = {
+    r1,
+    groundX,
+    groundY,
+    theta1,
+    r2,
+    r3,
+    r4,
+    r6: number('r6'),
+    beta: number('beta'),
+    driver,
+    theta2: number('theta2'),
+    theta3: number('theta3'),
+    theta4: number('theta4'),
+    inputOmega: number('omega'),
+    inputAlpha: number('alpha'),
+    crankSpeed: number('crankSpeed'),
+    massProperties: defaultMassProperties(r2, r3, r4),
+  };
+
+  // The view opens on the mechanism around A* unless given as x,y,w,h
+  let viewBox = { x: groundX - 2, y: -groundY - 6, w: 8, h: 8 };
+  const view = params.get('view');
+  if (view !== null) {
+    const values = view.split(',').map(Number);
+    if (values.length !== 4 || !values.every(Number.isFinite)) {
+      errors.push({ param: 'view', message: `“${view}” is not four numbers x,y,w,h; using the default view.` });
+    } else {
+      const [x, y, w, h] = values;
+      if (w < VIEW_MIN || w > VIEW_MAX || h < VIEW_MIN || h > VIEW_MAX) {
+        errors.push({ param: 'view', message: `Width and height must be ${VIEW_MIN} to ${VIEW_MAX}; clamped.` });
+      }
+      viewBox = { x, y, w: clamp(w, VIEW_MIN, VIEW_MAX), h: clamp(h, VIEW_MIN, VIEW_MAX) };
+    }
+  }
+
+  return {
+    snapshot: {
+      config,
+      assemblyMode: choice('mode', { open: 'open', crossed: 'crossed', '1': 'open', '-1': 'crossed' }, 'open') === 'crossed' ? -1 : 1,
+      viewBox,
+      animation: { isPlaying: flag('play'), speed: number('speed'), followBranches: flag('follow') },
+    },
+    embed: flag('embed'),
+    errors,
+  };
+};
+
+/**
+ * Query string for the given state. Only the driver's own input angle is written; `embed`
+ * and `play` are added for embed links.
+ */
+export const writeUrlState = (
+  { config, assemblyMode, viewBox, animation }: DesignSnapshot,
+  options: { embed?: boolean; play?: boolean } = {}
+): string => {
+  const params = new URLSearchParams();
+  const values: [NumberParam, number][] = [
+    ['r1', config.r1],
+    ['r2', config.r2],
+    ['r3', config.r3],
+    ['r4', config.r4],
+    ['r6', config.r6],
+    ['beta', config.beta],
+    ['ax', config.groundX],
+    ['ay', config.groundY],
+    ['theta1', config.theta1],
+  ];
+  values.forEach(([key, value]) => params.set(key, format(value)));
+  params.set('driver', config.driver);
+  const input = INPUT_PARAM[config.driver];
+  params.set(input, format(config[input]));
+  params.set('omega', format(config.inputOmega));
+  params.set('alpha', format(config.inputAlpha));
+  params.set('crankSpeed', format(config.crankSpeed));
+  params.set('mode', assemblyMode === 1 ? 'open' : 'crossed');
+  params.set('speed', format(animation.speed));
+  if (animation.followBranches) params.set('follow', 'true');
+  params.set('view', [viewBox.x, viewBox.y, viewBox.w, viewBox.h].map((v) => format(v, VIEW_DECIMALS)).join(','));
+  if (options.embed) params.set('embed', 'true');
+  if (options.play) params.set('play', 'true');
+  // Commas in the view box read better unescaped, and are valid in a query string
+  return `?${params.toString().replace(/%2C/g, ',')}`;
+};
+
+/**
+ * An iframe snippet showing the given state in embed mode.
+ */
+export const embedSnippet = (url: string, width: number, height: number): string =>
+  `<iframe src="${url.replace(/&/g, '&amp;')}" width="${width}" height="${height}" style="border:0" loading="lazy" title="Four-bar linkage"></iframe>`;